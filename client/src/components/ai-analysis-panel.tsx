@@ -1,13 +1,17 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Brain, Search, Target, Network, Settings, Lightbulb } from "lucide-react";
 import { useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { CapturedEndpoint } from "@shared/schema";
 
 interface AnalysisResult {
   selectors: {
@@ -19,16 +23,98 @@ interface AnalysisResult {
     pagination: boolean;
     infiniteScroll: boolean;
     ajaxLoading: boolean;
+    nextSelector?: string;
+    structuredData?: {
+      jsonLd: number;
+      microdata: number;
+      rdfa: number;
+      openGraph: boolean;
+      twitterCard: boolean;
+      types: string[];
+    };
+    dataTables?: number;
   };
   strategy: string;
   confidence: number;
   recommendations?: string[];
 }
 
+// One "field: selector" per line, e.g. "sku: .product-sku" or "pdf: a.manual@href"
+const parseDetailFields = (text: string) => {
+  const selectors: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const field = line.slice(0, separator).trim();
+    const selector = line.slice(separator + 1).trim();
+    if (field && selector) selectors[field] = selector;
+  }
+  return selectors;
+};
+
+// The schema textarea holds JSON; empty means automatic field detection
+const parseExtractionSchema = (text: string): unknown => {
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("The extraction schema is not valid JSON");
+  }
+};
+
+type SeedMode = "url" | "sitemap" | "feed";
+
+const SEED_MODES: { value: SeedMode; label: string }[] = [
+  { value: "url", label: "Task URL" },
+  { value: "sitemap", label: "Sitemap" },
+  { value: "feed", label: "RSS / Atom feed" },
+];
+
+type PaginationStrategy = "auto" | "rel-next" | "next-button" | "query-param" | "url-template" | "none";
+
+const PAGINATION_STRATEGIES: { value: PaginationStrategy; label: string }[] = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "rel-next", label: 'rel="next" links' },
+  { value: "next-button", label: "Next button" },
+  { value: "query-param", label: "Query parameter" },
+  { value: "url-template", label: "URL template" },
+  { value: "none", label: "Single page" },
+];
+
 export function AIAnalysisPanel() {
   const [url, setUrl] = useState("");
   const [prompt, setPrompt] = useState("");
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [paginationStrategy, setPaginationStrategy] = useState<PaginationStrategy>("auto");
+  const [paginationParam, setPaginationParam] = useState("page");
+  const [paginationTemplate, setPaginationTemplate] = useState("");
+  const [detailFields, setDetailFields] = useState("");
+  const [extractionSchema, setExtractionSchema] = useState("");
+  const [extractionPreview, setExtractionPreview] = useState<{ total: number; items: Record<string, unknown>[] } | null>(null);
+  const [seedMode, setSeedMode] = useState<SeedMode>("url");
+  const [seedSource, setSeedSource] = useState("");
+  const [seedInclude, setSeedInclude] = useState("");
+  const [seedExclude, setSeedExclude] = useState("");
+  const [seedIncremental, setSeedIncremental] = useState(true);
+  const [useStructuredData, setUseStructuredData] = useState(false);
+  const [recordTraffic, setRecordTraffic] = useState(false);
+  const [useTableMode, setUseTableMode] = useState(false);
+  const [tableSelector, setTableSelector] = useState("");
+  const [capturedEndpoints, setCapturedEndpoints] = useState<CapturedEndpoint[] | null>(null);
+  const [apiEndpoint, setApiEndpoint] = useState<CapturedEndpoint | null>(null);
+  const [apiItemsPath, setApiItemsPath] = useState("");
+  const [apiNextPath, setApiNextPath] = useState("");
+  const [apiCursorParam, setApiCursorParam] = useState("");
+  const [useApiSource, setUseApiSource] = useState(false);
+  const [requiresLogin, setRequiresLogin] = useState(false);
+  const [loginFormUrl, setLoginFormUrl] = useState("");
+  const [loginUsernameSelector, setLoginUsernameSelector] = useState('input[type="email"], input[name="username"]');
+  const [loginPasswordSelector, setLoginPasswordSelector] = useState('input[type="password"]');
+  const [loginSubmitSelector, setLoginSubmitSelector] = useState("");
+  const [loginSuccessSelector, setLoginSuccessSelector] = useState("");
+  const [loginUsername, setLoginUsername] = useState("");
+  const [loginPassword, setLoginPassword] = useState("");
+  const [apiPreview, setApiPreview] = useState<{ total: number; items: Record<string, unknown>[]; nextUrl?: string } | null>(null);
   const { toast } = useToast();
 
   const analyzeMutation = useMutation({
@@ -39,6 +125,9 @@ export function AIAnalysisPanel() {
     onSuccess: (data) => {
       // Store the analysis result in state to enable the Create Task button
       setAnalysis(data);
+      const hasStructuredData = (data.patterns?.structuredData?.types?.length ?? 0) > 0;
+      setUseStructuredData(hasStructuredData);
+      setUseTableMode(!hasStructuredData && (data.patterns?.dataTables ?? 0) > 0);
       toast({
         title: "Analysis Complete",
         description: "Website structure analysis completed successfully.",
@@ -53,15 +142,118 @@ export function AIAnalysisPanel() {
     },
   });
 
+  const previewExtractionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/extraction/preview", {
+        url,
+        extraction: parseExtractionSchema(extractionSchema),
+        itemSelector: analysis?.selectors.primary,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => setExtractionPreview(data),
+    onError: (error: any) => {
+      setExtractionPreview(null);
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview the extraction schema",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The API source built from the picked endpoint; captured request headers are replayed as they were
+  const buildApiSource = () => apiEndpoint && {
+    endpoint: apiEndpoint.url,
+    method: apiEndpoint.method === "POST" ? "POST" : "GET",
+    headers: apiEndpoint.requestHeaders,
+    ...(apiEndpoint.method === "POST" && apiEndpoint.requestBody !== undefined && { body: apiEndpoint.requestBody }),
+    itemsPath: apiItemsPath.trim(),
+    ...(apiNextPath.trim() && { nextPath: apiNextPath.trim() }),
+    ...(apiCursorParam.trim() && { cursorParam: apiCursorParam.trim() }),
+  };
+
+  const selectEndpoint = (endpoint: CapturedEndpoint | null) => {
+    setApiEndpoint(endpoint);
+    setApiItemsPath(endpoint?.candidates[0]?.path ?? "");
+    setApiPreview(null);
+  };
+
+  const captureMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/capture", { url, scrollToBottom: true });
+      return response.json();
+    },
+    onSuccess: (data: { endpoints: CapturedEndpoint[] }) => {
+      setCapturedEndpoints(data.endpoints);
+      selectEndpoint(data.endpoints.find((endpoint) => endpoint.candidates.length > 0) ?? null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Capture Failed",
+        description: error.message || "Failed to capture the page's network requests",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewApiMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/capture/preview", { apiSource: buildApiSource() });
+      return response.json();
+    },
+    onSuccess: (data) => setApiPreview(data),
+    onError: (error: any) => {
+      setApiPreview(null);
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview the API source",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createTaskMutation = useMutation({
     mutationFn: async () => {
       if (!analysis) throw new Error("No analysis data available");
+      const detailSelectors = parseDetailFields(detailFields);
+      const extraction = parseExtractionSchema(extractionSchema);
       
       const response = await apiRequest("POST", "/api/tasks", {
         name: `Analysis of ${new URL(url).hostname}`,
         url,
         selectors: analysis.selectors,
         strategy: analysis.strategy,
+        pagination: {
+          strategy: paginationStrategy,
+          ...(paginationStrategy === "query-param" && { param: paginationParam }),
+          ...(paginationStrategy === "url-template" && { template: paginationTemplate }),
+        },
+        ...(Object.keys(detailSelectors).length > 0 && { detailCrawl: { selectors: detailSelectors } }),
+        ...(extraction !== undefined && { extraction }),
+        structuredData: useStructuredData,
+        recordTraffic,
+        ...(useTableMode && { table: tableSelector.trim() ? { selector: tableSelector.trim() } : {} }),
+        ...(useApiSource && apiEndpoint && { apiSource: buildApiSource() }),
+        ...(requiresLogin && {
+          login: {
+            formUrl: loginFormUrl.trim(),
+            usernameSelector: loginUsernameSelector.trim(),
+            passwordSelector: loginPasswordSelector.trim(),
+            ...(loginSubmitSelector.trim() && { submitSelector: loginSubmitSelector.trim() }),
+            ...(loginSuccessSelector.trim() && { successSelector: loginSuccessSelector.trim() }),
+          },
+          credentials: { username: loginUsername, password: loginPassword },
+        }),
+        ...(seedMode !== "url" && {
+          seed: {
+            mode: seedMode,
+            ...(seedSource.trim() && { source: seedSource.trim() }),
+            include: seedInclude.trim() ? [seedInclude.trim()] : [],
+            exclude: seedExclude.trim() ? [seedExclude.trim()] : [],
+            incremental: seedIncremental,
+          },
+        }),
       });
       return response.json();
     },
@@ -188,6 +380,14 @@ export function AIAnalysisPanel() {
                     {analysis.patterns.pagination ? "Yes" : "No"}
                   </Badge>
                 </div>
+                {analysis.patterns.nextSelector && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">• Next Link:</span>
+                    <code className="bg-background px-1 rounded text-foreground" data-testid="text-next-selector">
+                      {analysis.patterns.nextSelector}
+                    </code>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <span className="text-muted-foreground">• Infinite Scroll:</span>
                   <Badge variant={analysis.patterns.infiniteScroll ? "default" : "secondary"} className="text-xs">
@@ -200,6 +400,27 @@ export function AIAnalysisPanel() {
                     {analysis.patterns.ajaxLoading ? "Yes" : "No"}
                   </Badge>
                 </div>
+                {analysis.patterns.structuredData && (
+                  <div className="flex flex-wrap items-center gap-2" data-testid="structured-data-summary">
+                    <span className="text-muted-foreground">• Structured Data:</span>
+                    {analysis.patterns.structuredData.jsonLd > 0 && <Badge className="text-xs">JSON-LD</Badge>}
+                    {analysis.patterns.structuredData.microdata > 0 && <Badge className="text-xs">Microdata</Badge>}
+                    {analysis.patterns.structuredData.rdfa > 0 && <Badge className="text-xs">RDFa</Badge>}
+                    {analysis.patterns.structuredData.openGraph && <Badge variant="secondary" className="text-xs">Open Graph</Badge>}
+                    {analysis.patterns.structuredData.twitterCard && <Badge variant="secondary" className="text-xs">Twitter Card</Badge>}
+                    {analysis.patterns.structuredData.types.length > 0 && (
+                      <code className="bg-background px-1 rounded text-foreground">
+                        {analysis.patterns.structuredData.types.join(", ")}
+                      </code>
+                    )}
+                  </div>
+                )}
+                {(analysis.patterns.dataTables ?? 0) > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">• Data Tables:</span>
+                    <Badge className="text-xs" data-testid="badge-data-tables">{analysis.patterns.dataTables}</Badge>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -233,6 +454,381 @@ export function AIAnalysisPanel() {
           </div>
         )}
         
+        {analysis && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Start from</Label>
+            <Select value={seedMode} onValueChange={(value) => setSeedMode(value as SeedMode)}>
+              <SelectTrigger data-testid="select-seed-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEED_MODES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {seedMode !== "url" && (
+              <>
+                <Input
+                  value={seedSource}
+                  onChange={(e) => setSeedSource(e.target.value)}
+                  placeholder={seedMode === "sitemap" ? "Sitemap URL (found via robots.txt if empty)" : "Feed URL (found on the page if empty)"}
+                  className="bg-input border-border text-foreground"
+                  data-testid="input-seed-source"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    value={seedInclude}
+                    onChange={(e) => setSeedInclude(e.target.value)}
+                    placeholder="Include URLs matching"
+                    className="bg-input border-border text-foreground font-mono text-sm"
+                    data-testid="input-seed-include"
+                  />
+                  <Input
+                    value={seedExclude}
+                    onChange={(e) => setSeedExclude(e.target.value)}
+                    placeholder="Exclude URLs matching"
+                    className="bg-input border-border text-foreground font-mono text-sm"
+                    data-testid="input-seed-exclude"
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="seed-incremental"
+                    checked={seedIncremental}
+                    onCheckedChange={setSeedIncremental}
+                    data-testid="switch-seed-incremental"
+                  />
+                  <Label htmlFor="seed-incremental">Only URLs changed since the last run</Label>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {analysis && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="requires-login"
+                checked={requiresLogin}
+                onCheckedChange={setRequiresLogin}
+                data-testid="switch-requires-login"
+              />
+              <Label htmlFor="requires-login">Log in before scraping</Label>
+            </div>
+            {requiresLogin && (
+              <>
+                <Input
+                  value={loginFormUrl}
+                  onChange={(e) => setLoginFormUrl(e.target.value)}
+                  placeholder="Login page URL"
+                  className="bg-input border-border text-foreground"
+                  data-testid="input-login-form-url"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    value={loginUsernameSelector}
+                    onChange={(e) => setLoginUsernameSelector(e.target.value)}
+                    placeholder="Username field selector"
+                    className="bg-input border-border text-foreground font-mono text-sm"
+                    data-testid="input-login-username-selector"
+                  />
+                  <Input
+                    value={loginPasswordSelector}
+                    onChange={(e) => setLoginPasswordSelector(e.target.value)}
+                    placeholder="Password field selector"
+                    className="bg-input border-border text-foreground font-mono text-sm"
+                    data-testid="input-login-password-selector"
+                  />
+                  <Input
+                    value={loginSubmitSelector}
+                    onChange={(e) => setLoginSubmitSelector(e.target.value)}
+                    placeholder="Submit button selector (Enter if empty)"
+                    className="bg-input border-border text-foreground font-mono text-sm"
+                    data-testid="input-login-submit-selector"
+                  />
+                  <Input
+                    value={loginSuccessSelector}
+                    onChange={(e) => setLoginSuccessSelector(e.target.value)}
+                    placeholder="Shown when logged in, e.g. a logout link"
+                    className="bg-input border-border text-foreground font-mono text-sm"
+                    data-testid="input-login-success-selector"
+                  />
+                  <Input
+                    value={loginUsername}
+                    onChange={(e) => setLoginUsername(e.target.value)}
+                    placeholder="Username"
+                    autoComplete="off"
+                    className="bg-input border-border text-foreground"
+                    data-testid="input-login-username"
+                  />
+                  <Input
+                    type="password"
+                    value={loginPassword}
+                    onChange={(e) => setLoginPassword(e.target.value)}
+                    placeholder="Password"
+                    autoComplete="new-password"
+                    className="bg-input border-border text-foreground"
+                    data-testid="input-login-password"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Credentials and the session they open are stored encrypted and reused by later runs until the site logs the task out.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {analysis && (
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="use-structured-data"
+              checked={useStructuredData}
+              onCheckedChange={setUseStructuredData}
+              data-testid="switch-structured-data"
+            />
+            <Label htmlFor="use-structured-data">Use JSON-LD, microdata and Open Graph items where pages have them</Label>
+          </div>
+        )}
+
+        {analysis && (
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="record-traffic"
+              checked={recordTraffic}
+              onCheckedChange={setRecordTraffic}
+              data-testid="switch-record-traffic"
+            />
+            <Label htmlFor="record-traffic">Record requests and responses so runs can be replayed offline</Label>
+          </div>
+        )}
+
+        {analysis && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="use-table-mode"
+                checked={useTableMode}
+                onCheckedChange={setUseTableMode}
+                data-testid="switch-table-mode"
+              />
+              <Label htmlFor="use-table-mode">Table mode: one record per table row, keyed by column headers</Label>
+            </div>
+            {useTableMode && (
+              <Input
+                value={tableSelector}
+                onChange={(e) => setTableSelector(e.target.value)}
+                placeholder="Table selector (all data tables if empty)"
+                className="bg-input border-border text-foreground font-mono text-sm"
+                data-testid="input-table-selector"
+              />
+            )}
+          </div>
+        )}
+
+        {analysis && seedMode === "url" && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Pagination</Label>
+            <Select value={paginationStrategy} onValueChange={(value) => setPaginationStrategy(value as PaginationStrategy)}>
+              <SelectTrigger data-testid="select-pagination-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGINATION_STRATEGIES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {paginationStrategy === "query-param" && (
+              <Input
+                value={paginationParam}
+                onChange={(e) => setPaginationParam(e.target.value)}
+                placeholder="page or offset"
+                className="bg-input border-border text-foreground"
+                data-testid="input-pagination-param"
+              />
+            )}
+            {paginationStrategy === "url-template" && (
+              <Input
+                value={paginationTemplate}
+                onChange={(e) => setPaginationTemplate(e.target.value)}
+                placeholder="https://example.com/list?page={page}"
+                className="bg-input border-border text-foreground"
+                data-testid="input-pagination-template"
+              />
+            )}
+          </div>
+        )}
+
+        {analysis && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Detail page fields</Label>
+            <Textarea
+              value={detailFields}
+              onChange={(e) => setDetailFields(e.target.value)}
+              placeholder={"sku: .product-sku\nspecs: #specifications"}
+              className="bg-input border-border text-foreground font-mono text-sm"
+              rows={3}
+              data-testid="input-detail-fields"
+            />
+            <p className="text-xs text-muted-foreground">
+              Each item's link is opened and these fields are added to the item. Leave empty to skip detail pages.
+            </p>
+          </div>
+        )}
+
+        {analysis && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Extraction schema (JSON)</Label>
+            <Textarea
+              value={extractionSchema}
+              onChange={(e) => setExtractionSchema(e.target.value)}
+              placeholder={'{"fields": [{"name": "price", "selector": ".price", "type": "number"},\n  {"name": "link", "selector": "//h2/a/@href", "selectorType": "xpath", "type": "url"}]}'}
+              className="bg-input border-border text-foreground font-mono text-sm"
+              rows={4}
+              data-testid="input-extraction-schema"
+            />
+            <p className="text-xs text-muted-foreground">
+              Named fields with CSS or XPath selectors replace the automatic title, price, link and image detection. Leave empty to keep it.
+              Fields take a list of transforms, e.g. {'"transforms": [{"op": "number", "locale": "en-IN"}]'} or {'{"op": "date", "format": "DD/MM/YYYY"}'}.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => previewExtractionMutation.mutate()}
+              disabled={!extractionSchema.trim() || previewExtractionMutation.isPending}
+              data-testid="button-preview-extraction"
+            >
+              {previewExtractionMutation.isPending ? "Previewing..." : "Preview"}
+            </Button>
+            {extractionPreview && (
+              <div className="space-y-1" data-testid="extraction-preview">
+                <p className="text-xs text-muted-foreground">
+                  {extractionPreview.total} items found{extractionPreview.total > extractionPreview.items.length && `, showing the first ${extractionPreview.items.length}`}
+                </p>
+                <pre className="bg-muted rounded p-2 text-xs font-mono overflow-auto max-h-64">
+                  {JSON.stringify(extractionPreview.items, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+
+        {analysis && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">API source</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => captureMutation.mutate()}
+              disabled={captureMutation.isPending}
+              data-testid="button-capture-network"
+            >
+              {captureMutation.isPending ? "Capturing..." : "Capture API calls"}
+            </Button>
+            {capturedEndpoints && capturedEndpoints.length === 0 && (
+              <p className="text-xs text-muted-foreground">The page loaded no JSON data while rendering and scrolling.</p>
+            )}
+            {capturedEndpoints && capturedEndpoints.length > 0 && (
+              <>
+                <Select
+                  value={apiEndpoint ? String(capturedEndpoints.indexOf(apiEndpoint)) : undefined}
+                  onValueChange={(value) => selectEndpoint(capturedEndpoints[Number(value)])}
+                >
+                  <SelectTrigger data-testid="select-api-endpoint">
+                    <SelectValue placeholder="Pick an endpoint" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {capturedEndpoints.map((endpoint, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {endpoint.method} {endpoint.url}
+                        {endpoint.candidates[0] && ` (${endpoint.candidates[0].length} items)`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {apiEndpoint && apiEndpoint.candidates.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {apiEndpoint.candidates.map((candidate) => (
+                      <Badge
+                        key={candidate.path}
+                        variant={candidate.path === apiItemsPath ? "default" : "secondary"}
+                        className="text-xs cursor-pointer font-mono"
+                        title={candidate.fields.join(", ")}
+                        onClick={() => setApiItemsPath(candidate.path)}
+                      >
+                        {candidate.path} ({candidate.length})
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {apiEndpoint && (
+                  <>
+                    <Input
+                      value={apiItemsPath}
+                      onChange={(e) => setApiItemsPath(e.target.value)}
+                      placeholder="JSONPath to the items, e.g. $.data.products"
+                      className="bg-input border-border text-foreground font-mono text-sm"
+                      data-testid="input-api-items-path"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        value={apiNextPath}
+                        onChange={(e) => setApiNextPath(e.target.value)}
+                        placeholder="JSONPath to the next page link or cursor"
+                        className="bg-input border-border text-foreground font-mono text-sm"
+                        data-testid="input-api-next-path"
+                      />
+                      <Input
+                        value={apiCursorParam}
+                        onChange={(e) => setApiCursorParam(e.target.value)}
+                        placeholder="Cursor query parameter"
+                        className="bg-input border-border text-foreground font-mono text-sm"
+                        data-testid="input-api-cursor-param"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Without a next page path, page and offset parameters follow the pagination setting below.
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => previewApiMutation.mutate()}
+                        disabled={!apiItemsPath.trim() || previewApiMutation.isPending}
+                        data-testid="button-preview-api"
+                      >
+                        {previewApiMutation.isPending ? "Previewing..." : "Preview"}
+                      </Button>
+                      <Switch
+                        id="use-api-source"
+                        checked={useApiSource}
+                        onCheckedChange={setUseApiSource}
+                        disabled={!apiItemsPath.trim()}
+                        data-testid="switch-api-source"
+                      />
+                      <Label htmlFor="use-api-source">Scrape this API instead of rendering the page</Label>
+                    </div>
+                  </>
+                )}
+                {apiPreview && (
+                  <div className="space-y-1" data-testid="api-preview">
+                    <p className="text-xs text-muted-foreground">
+                      {apiPreview.total} items found{apiPreview.total > apiPreview.items.length && `, showing the first ${apiPreview.items.length}`}
+                      {apiPreview.nextUrl && `; next page: ${apiPreview.nextUrl}`}
+                    </p>
+                    <pre className="bg-muted rounded p-2 text-xs font-mono overflow-auto max-h-64">
+                      {JSON.stringify(apiPreview.items, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         <Button
           onClick={handleCreateTask}
           disabled={!analysis || createTaskMutation.isPending}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+
+interface RobotsAuditEntry {
+  action: "enabled" | "disabled";
+  reason?: string;
+  userId: string;
+  createdAt: string;
+}
+
+interface RobotsStatus {
+  userAgent: string;
+  allowed: boolean;
+  rule?: string;
+  crawlDelay?: number;
+  override: { reason: string; userId: string; enabledAt: string } | null;
+  audit: RobotsAuditEntry[];
+}
+
+interface RobotsPolicyProps {
+  taskId: string;
+}
+
+export function RobotsPolicy({ taskId }: RobotsPolicyProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const { data: status, isLoading } = useQuery<RobotsStatus>({
+    queryKey: [`/api/tasks/${taskId}/robots`],
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const res = await apiRequest("PUT", `/api/tasks/${taskId}/robots-override`, { enabled, reason: reason.trim() });
+      return res.json();
+    },
+    onSuccess: (_, enabled) => {
+      toast({
+        title: enabled ? "robots.txt override enabled" : "robots.txt override removed",
+        description: enabled
+          ? "This task will scrape pages robots.txt disallows."
+          : "This task follows robots.txt again.",
+      });
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/robots`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update robots.txt override",
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (isLoading || !status) {
+    return <p className="text-sm text-muted-foreground">Checking robots.txt...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2" data-testid="robots-status">
+        {status.allowed ? (
+          <Badge className="bg-green-500"><ShieldCheck className="w-3 h-3 mr-1" />Allowed</Badge>
+        ) : (
+          <Badge className="bg-red-500"><ShieldAlert className="w-3 h-3 mr-1" />Disallowed</Badge>
+        )}
+        <span className="text-sm text-muted-foreground">
+          for <span className="font-mono">{status.userAgent}</span>
+          {status.rule && <> by <span className="font-mono">{status.rule}</span></>}
+          {status.crawlDelay !== undefined && <> · Crawl-delay {status.crawlDelay}s</>}
+        </span>
+      </div>
+
+      {status.override ? (
+        <div className="space-y-2">
+          <p className="text-sm text-foreground">
+            Override active since {new Date(status.override.enabledAt).toLocaleString()}: {status.override.reason}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => overrideMutation.mutate(false)}
+            disabled={overrideMutation.isPending}
+            data-testid="button-disable-robots-override"
+          >
+            Remove override
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="robots-override-reason">Override reason (admins only)</Label>
+            <Input
+              id="robots-override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Written permission from the site owner"
+              data-testid="input-robots-override-reason"
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => overrideMutation.mutate(true)}
+            disabled={overrideMutation.isPending || !reason.trim()}
+            data-testid="button-enable-robots-override"
+          >
+            Override robots.txt
+          </Button>
+        </div>
+      )}
+
+      {status.audit.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">Audit trail</p>
+          <ul className="text-sm space-y-1" data-testid="list-robots-audit">
+            {status.audit.map((entry) => (
+              <li key={entry.createdAt} className="text-muted-foreground">
+                {new Date(entry.createdAt).toLocaleString()} · {entry.userId} {entry.action} the override
+                {entry.reason && <>: {entry.reason}</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save } from "lucide-react";
+
+interface RunDiffSummary {
+  id: string;
+  runId: string;
+  previousRunId: string;
+  identityKey: string;
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  unchangedCount: number;
+  createdAt: string;
+}
+
+interface RunDiffItem {
+  key: string;
+  itemId: string;
+  data: Record<string, any>;
+}
+
+interface RunDiffChange extends RunDiffItem {
+  fields: string[];
+  before: Record<string, any>;
+  after: Record<string, any>;
+}
+
+interface RunDiff {
+  runId: string;
+  previousRunId: string;
+  identityKey: string;
+  added: RunDiffItem[];
+  removed: RunDiffItem[];
+  changed: RunDiffChange[];
+  unchangedCount: number;
+}
+
+interface RunChangesProps {
+  taskId: string;
+  identityKey?: string;
+}
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const itemLabel = (item: RunDiffItem) => item.data.title || item.data.name || item.key;
+
+export function RunChanges({ taskId, identityKey }: RunChangesProps) {
+  const { toast } = useToast();
+  const [keyField, setKeyField] = useState(identityKey || "link");
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+
+  useEffect(() => {
+    setKeyField(identityKey || "link");
+  }, [identityKey]);
+
+  const { data: diffs = [] } = useQuery<RunDiffSummary[]>({
+    queryKey: [`/api/tasks/${taskId}/diffs`],
+    refetchInterval: 10000,
+  });
+
+  const runId = selectedRunId || diffs[0]?.runId;
+  const { data: diff } = useQuery<RunDiff>({
+    queryKey: [`/api/runs/${runId}/diff`],
+    enabled: !!runId,
+  });
+
+  const identityMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/tasks/${taskId}`, { identityKey: keyField.trim() });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Identity key saved",
+        description: "Future runs will match items by this field.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to save identity key",
+        variant: "destructive"
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end gap-2">
+        <div className="space-y-2 flex-1 max-w-xs">
+          <Label htmlFor="identity-key">Identity key</Label>
+          <Input
+            id="identity-key"
+            value={keyField}
+            onChange={(e) => setKeyField(e.target.value)}
+            placeholder="link"
+            className="font-mono"
+            data-testid="input-identity-key"
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => identityMutation.mutate()}
+          disabled={identityMutation.isPending || !keyField.trim() || keyField.trim() === (identityKey || "link")}
+          data-testid="button-save-identity-key"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </div>
+
+      {diffs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Changes appear here once the task has completed at least two runs.
+        </p>
+      ) : (
+        <>
+          <Select value={runId} onValueChange={setSelectedRunId}>
+            <SelectTrigger className="max-w-md" data-testid="select-diff-run">
+              <SelectValue placeholder="Select a run" />
+            </SelectTrigger>
+            <SelectContent>
+              {diffs.map((summary) => (
+                <SelectItem key={summary.runId} value={summary.runId}>
+                  {new Date(summary.createdAt).toLocaleString()} · +{summary.addedCount} −{summary.removedCount} ~{summary.changedCount}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {diff && (
+            <div className="space-y-4" data-testid="run-diff">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-500">{diff.added.length} added</Badge>
+                <Badge className="bg-red-500">{diff.removed.length} removed</Badge>
+                <Badge className="bg-yellow-500">{diff.changed.length} changed</Badge>
+                <Badge variant="secondary">{diff.unchangedCount} unchanged</Badge>
+              </div>
+
+              {diff.changed.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-foreground">Changed</p>
+                  <ul className="space-y-2">
+                    {diff.changed.map((change) => (
+                      <li key={change.key} className="border border-border rounded-md p-3 text-sm">
+                        <p className="font-medium text-foreground truncate">{itemLabel(change)}</p>
+                        {change.fields.map((field) => (
+                          <p key={field} className="text-muted-foreground">
+                            <span className="font-mono">{field}</span>:{" "}
+                            <span className="line-through text-red-500">{formatValue(change.before[field])}</span>{" "}
+                            → <span className="text-green-600">{formatValue(change.after[field])}</span>
+                          </p>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {diff.added.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-foreground">Added</p>
+                  <ul className="text-sm space-y-1">
+                    {diff.added.map((item) => (
+                      <li key={item.key} className="text-green-600 truncate">+ {itemLabel(item)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {diff.removed.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-foreground">Removed</p>
+                  <ul className="text-sm space-y-1">
+                    {diff.removed.map((item) => (
+                      <li key={item.key} className="text-red-500 truncate">− {itemLabel(item)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileCode, Trash2 } from "lucide-react";
+
+interface Snapshot {
+  id: string;
+  runId: string;
+  kind: "page" | "item" | "html" | "action";
+  url: string;
+  contentType: string;
+  size: number;
+  pageNumber?: number;
+  itemIndex?: number;
+  createdAt: string;
+}
+
+interface ScrapedRow {
+  id: string;
+  data: Record<string, any>;
+  snapshotIds?: string[];
+}
+
+interface RunSnapshotsProps {
+  taskId: string;
+}
+
+const contentUrl = (snapshot: Snapshot) => `/api/snapshots/${snapshot.id}/content`;
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.round(bytes / 1024)} KB`
+  : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const rowLabel = (row?: ScrapedRow) => {
+  if (!row) return "No row";
+  const label = row.data.title || row.data.name || Object.values(row.data).find((value) => typeof value === "string" && value);
+  return label ? String(label) : row.id;
+};
+
+export function RunSnapshots({ taskId }: RunSnapshotsProps) {
+  const { toast } = useToast();
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+
+  const { data: snapshots = [] } = useQuery<Snapshot[]>({
+    queryKey: [`/api/tasks/${taskId}/snapshots`],
+    refetchInterval: 10000,
+  });
+
+  // Newest run first
+  const runIds = Array.from(new Set(snapshots.map((snapshot) => snapshot.runId))).reverse();
+  const runId = selectedRunId || runIds[0];
+  const runSnapshots = snapshots.filter((snapshot) => snapshot.runId === runId);
+
+  const { data: rows = [] } = useQuery<ScrapedRow[]>({
+    queryKey: [`/api/tasks/${taskId}/data?runId=${runId}&limit=1000`],
+    enabled: !!runId,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/tasks/${taskId}/snapshots?runId=${id}`);
+      return res.json();
+    },
+    onSuccess: (result: { deleted: number }) => {
+      toast({
+        title: "Snapshots deleted",
+        description: `Removed ${result.deleted} snapshots of the run.`,
+      });
+      setSelectedRunId(undefined);
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/snapshots`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete failed",
+        description: error.message || "Failed to delete snapshots",
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (snapshots.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Runs of advanced tasks with screenshots turned on keep page and item screenshots and the HTML of every page here.
+      </p>
+    );
+  }
+
+  const rowFor = (snapshot: Snapshot) => rows.find((row) => row.snapshotIds?.includes(snapshot.id));
+  const pageNumbers = Array.from(new Set(runSnapshots.flatMap((snapshot) => snapshot.pageNumber ?? [])));
+  const actionFailures = runSnapshots.filter((snapshot) => snapshot.kind === "action");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Select value={runId} onValueChange={setSelectedRunId}>
+          <SelectTrigger className="max-w-md" data-testid="select-snapshot-run">
+            <SelectValue placeholder="Select a run" />
+          </SelectTrigger>
+          <SelectContent>
+            {runIds.map((id) => {
+              const first = snapshots.find((snapshot) => snapshot.runId === id)!;
+              return (
+                <SelectItem key={id} value={id}>
+                  {new Date(first.createdAt).toLocaleString()} · {snapshots.filter((snapshot) => snapshot.runId === id).length} snapshots
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => runId && deleteMutation.mutate(runId)}
+          disabled={!runId || deleteMutation.isPending}
+          data-testid="button-delete-snapshots"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </Button>
+      </div>
+
+      {actionFailures.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">Failed browser actions</p>
+          <div className="flex flex-wrap gap-3">
+            {actionFailures.map((snapshot) => (
+              <a key={snapshot.id} href={contentUrl(snapshot)} target="_blank" rel="noreferrer" data-testid={`link-snapshot-${snapshot.id}`}>
+                <img src={contentUrl(snapshot)} alt="Page when the action failed" className="h-32 rounded-md border border-border" loading="lazy" />
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pageNumbers.map((pageNumber) => {
+        const pageSnapshots = runSnapshots.filter((snapshot) => snapshot.pageNumber === pageNumber);
+        const screenshot = pageSnapshots.find((snapshot) => snapshot.kind === "page");
+        const html = pageSnapshots.find((snapshot) => snapshot.kind === "html");
+        const items = pageSnapshots.filter((snapshot) => snapshot.kind === "item");
+        const url = (screenshot || html || items[0])?.url;
+
+        return (
+          <div key={pageNumber} className="space-y-3 border border-border rounded-md p-3" data-testid={`snapshots-page-${pageNumber}`}>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">Page {pageNumber}</Badge>
+              <span className="text-sm text-muted-foreground truncate">{url}</span>
+              {html && (
+                <a
+                  href={contentUrl(html)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="ml-auto flex items-center text-sm text-primary hover:underline shrink-0"
+                  data-testid={`link-snapshot-html-${html.id}`}
+                >
+                  <FileCode className="w-4 h-4 mr-1" />
+                  HTML ({formatSize(html.size)})
+                </a>
+              )}
+            </div>
+
+            {screenshot && (
+              <a href={contentUrl(screenshot)} target="_blank" rel="noreferrer" data-testid={`link-snapshot-${screenshot.id}`}>
+                <img
+                  src={contentUrl(screenshot)}
+                  alt={`Page ${pageNumber}`}
+                  className="max-h-96 w-full object-cover object-top rounded-md border border-border"
+                  loading="lazy"
+                />
+              </a>
+            )}
+
+            {items.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {items.map((snapshot) => (
+                  <a
+                    key={snapshot.id}
+                    href={contentUrl(snapshot)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="space-y-1"
+                    data-testid={`link-snapshot-${snapshot.id}`}
+                  >
+                    <img
+                      src={contentUrl(snapshot)}
+                      alt={`Item ${(snapshot.itemIndex ?? 0) + 1}`}
+                      className="h-24 w-full object-contain rounded-md border border-border bg-muted"
+                      loading="lazy"
+                    />
+                    <p className="text-xs text-muted-foreground truncate">{rowLabel(rowFor(snapshot))}</p>
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
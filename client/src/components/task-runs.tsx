@@ -0,0 +1,161 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, RotateCcw } from "lucide-react";
+
+interface TaskRun {
+  id: string;
+  taskId: string;
+  trigger: "manual" | "schedule";
+  scraper: "static" | "advanced";
+  status: "running" | "paused" | "completed" | "failed" | "cancelled";
+  itemsScraped: number;
+  pagesVisited: number;
+  errorCount: number;
+  errorMessage?: string;
+  trafficArchive?: { blobKey: string; entries: number };
+  replayOf?: string;
+  cacheStats?: { hits: number; revalidated: number; misses: number; bytesSaved: number };
+  fetchStats?: { requests: number; bytes: number; totalTime: number; slowest: number };
+  startedAt: string;
+  finishedAt?: string;
+}
+
+interface TaskRunsProps {
+  taskId: string;
+}
+
+const getRunStatusColor = (status: string) => {
+  switch (status) {
+    case "running": return "bg-green-500";
+    case "completed": return "bg-blue-500";
+    case "failed": return "bg-red-500";
+    case "paused": return "bg-yellow-500";
+    default: return "bg-gray-500";
+  }
+};
+
+const formatDuration = (run: TaskRun) => {
+  if (!run.finishedAt) return run.status === "paused" ? "Paused" : "In progress";
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export function TaskRuns({ taskId }: TaskRunsProps) {
+  const { toast } = useToast();
+  const { data: runs = [], isLoading } = useQuery<TaskRun[]>({
+    queryKey: [`/api/tasks/${taskId}/runs`],
+    refetchInterval: 10000,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const res = await apiRequest("POST", `/api/runs/${runId}/replay`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Replay started",
+        description: "The task runs again against the recorded responses.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/runs`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay failed",
+        description: error.message || "Failed to replay run",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const exportRun = (runId: string, format: "json" | "csv") => {
+    window.open(`/api/tasks/${taskId}/export?format=${format}&runId=${runId}`, '_blank');
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading runs...</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-muted-foreground">This task has not run yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-border" data-testid="list-task-runs">
+      {runs.map((run) => (
+        <li key={run.id} className="py-3 flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge className={getRunStatusColor(run.status)}>{run.status}</Badge>
+              <Badge variant="outline">{run.trigger}</Badge>
+              {run.replayOf && <Badge variant="secondary">replay</Badge>}
+              <span className="text-sm text-foreground">
+                {new Date(run.startedAt).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {run.itemsScraped} items · {run.pagesVisited} pages · {run.errorCount} errors · {formatDuration(run)}
+              {run.trafficArchive && ` · ${run.trafficArchive.entries} requests recorded`}
+              {run.cacheStats && run.cacheStats.hits + run.cacheStats.revalidated > 0 &&
+                ` · ${run.cacheStats.hits + run.cacheStats.revalidated} pages from cache`}
+              {run.fetchStats && run.fetchStats.requests > 0 &&
+                ` · ${Math.round(run.fetchStats.totalTime / run.fetchStats.requests)} ms per request`}
+            </p>
+            {run.errorMessage && (
+              <p className="text-xs text-destructive">{run.errorMessage}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {run.trafficArchive && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => replayMutation.mutate(run.id)}
+                  disabled={replayMutation.isPending || runs.some((other) => other.status === "running")}
+                  data-testid={`button-replay-run-${run.id}`}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Replay
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(`/api/runs/${run.id}/traffic`, '_blank')}
+                  data-testid={`button-download-har-${run.id}`}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  HAR
+                </Button>
+              </>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportRun(run.id, "json")}
+              disabled={run.itemsScraped === 0}
+              data-testid={`button-export-run-json-${run.id}`}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportRun(run.id, "csv")}
+              disabled={run.itemsScraped === 0}
+              data-testid={`button-export-run-csv-${run.id}`}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
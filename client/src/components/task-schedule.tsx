@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Pause, Play, Save, Trash2 } from "lucide-react";
+
+interface TaskSchedule {
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+}
+
+interface TaskScheduleProps {
+  taskId: string;
+  schedule?: TaskSchedule;
+}
+
+const CRON_PRESETS = [
+  { label: "Hourly", cron: "0 * * * *" },
+  { label: "Daily 9:00", cron: "0 9 * * *" },
+  { label: "Weekdays 9:00", cron: "0 9 * * 1-5" },
+  { label: "Weekly Mon", cron: "0 9 * * 1" },
+];
+
+export function TaskScheduleCard({ taskId, schedule }: TaskScheduleProps) {
+  const { toast } = useToast();
+  const [cron, setCron] = useState(schedule?.cron || "0 9 * * *");
+  const [timezone, setTimezone] = useState(
+    schedule?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+  );
+
+  useEffect(() => {
+    if (schedule) {
+      setCron(schedule.cron);
+      setTimezone(schedule.timezone);
+    }
+  }, [schedule?.cron, schedule?.timezone]);
+
+  const previewUrl = `/api/schedule/preview?cron=${encodeURIComponent(cron)}&timezone=${encodeURIComponent(timezone)}&count=5`;
+  const { data: preview, error: previewError } = useQuery<{ nextRuns: string[] }>({
+    queryKey: [previewUrl],
+    enabled: cron.trim().length > 0 && timezone.trim().length > 0,
+  });
+
+  const onScheduleChanged = (title: string) => {
+    toast({ title });
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
+  };
+
+  const onScheduleError = (error: any) => {
+    toast({
+      title: "Schedule update failed",
+      description: error.message || "Something went wrong",
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/tasks/${taskId}/schedule`, {
+        cron,
+        timezone,
+        enabled: schedule?.enabled ?? true
+      });
+      return res.json();
+    },
+    onSuccess: () => onScheduleChanged("Schedule saved"),
+    onError: onScheduleError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume") => {
+      const res = await apiRequest("POST", `/api/tasks/${taskId}/schedule/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, action) => onScheduleChanged(action === "pause" ? "Schedule paused" : "Schedule resumed"),
+    onError: onScheduleError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/tasks/${taskId}/schedule`);
+      return res.json();
+    },
+    onSuccess: () => onScheduleChanged("Schedule removed"),
+    onError: onScheduleError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="w-4 h-4 text-muted-foreground" />
+        {schedule ? (
+          <Badge className={schedule.enabled ? "bg-green-500" : "bg-yellow-500"}>
+            {schedule.enabled ? "Active" : "Paused"}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Not scheduled</Badge>
+        )}
+        {schedule?.enabled && schedule.nextRunAt && (
+          <span className="text-sm text-muted-foreground">
+            Next run {new Date(schedule.nextRunAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-cron">Cron expression</Label>
+          <Input
+            id="schedule-cron"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            placeholder="0 9 * * *"
+            className="font-mono"
+            data-testid="input-schedule-cron"
+          />
+          <div className="flex flex-wrap gap-2">
+            {CRON_PRESETS.map((preset) => (
+              <Button
+                key={preset.cron}
+                variant="ghost"
+                size="sm"
+                onClick={() => setCron(preset.cron)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-timezone">Timezone</Label>
+          <Input
+            id="schedule-timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder="UTC"
+            data-testid="input-schedule-timezone"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Upcoming runs</p>
+        {previewError ? (
+          <p className="text-sm text-destructive">{(previewError as Error).message}</p>
+        ) : (
+          <ul className="text-sm text-muted-foreground space-y-1" data-testid="list-schedule-preview">
+            {preview?.nextRuns.map((run) => (
+              <li key={run}>{new Date(run).toLocaleString()}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !!previewError}
+          data-testid="button-save-schedule"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save Schedule
+        </Button>
+        {schedule && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => toggleMutation.mutate(schedule.enabled ? "pause" : "resume")}
+              disabled={toggleMutation.isPending}
+              data-testid="button-toggle-schedule"
+            >
+              {schedule.enabled ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+              {schedule.enabled ? "Pause" : "Resume"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+              data-testid="button-remove-schedule"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove
+            </Button>
+          </>
+        )}
+      </div>
+
+    </div>
+  );
+}
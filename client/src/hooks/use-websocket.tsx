@@ -49,6 +49,11 @@ export function useWebSocket() {
                     description: "Scraping task encountered an error.",
                     variant: "destructive",
                   });
+                } else if (message.data.status === 'cancelled') {
+                  toast({
+                    title: "Task Cancelled",
+                    description: `Stopped after ${message.data.scrapedItems} items.`,
+                  });
                 }
                 break;
 
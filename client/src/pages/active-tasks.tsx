@@ -2,15 +2,61 @@ import { Sidebar } from "@/components/sidebar";
 import { LiveTaskMonitor } from "@/components/live-task-monitor";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
-import { Activity, Pause, Square, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Activity, Pause, Square, RefreshCw, RotateCcw, Trash2, AlertTriangle } from "lucide-react";
 
 export default function ActiveTasksPage() {
+  const { toast } = useToast();
   const { data: activeTasks, isLoading, refetch } = useQuery<any[]>({
     queryKey: ["/api/tasks/active"],
     refetchInterval: 2000,
   });
 
+  const { data: deadLetterJobs = [] } = useQuery<any[]>({
+    queryKey: ["/api/jobs/dead-letter"],
+    refetchInterval: 10000,
+  });
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Job re-queued", description: "The task will run again shortly." });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/dead-letter"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/active"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to re-queue job",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const discardJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await apiRequest("DELETE", `/api/jobs/${jobId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Job discarded", description: "The failed job was removed from the dead-letter list." });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/dead-letter"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to discard job",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
   return (
     <div className="flex min-h-screen bg-background">
       <Sidebar />
@@ -124,6 +170,70 @@ export default function ActiveTasksPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Dead-letter list */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Failed Jobs</CardTitle>
+                  <CardDescription>
+                    Jobs that failed permanently after exhausting their retries
+                  </CardDescription>
+                </div>
+                <Badge variant="secondary">{deadLetterJobs.length} dead-lettered</Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {deadLetterJobs.length > 0 ? (
+                <div className="space-y-3">
+                  {deadLetterJobs.map((job) => (
+                    <div
+                      key={job.id}
+                      className="flex items-center justify-between border border-border rounded-lg p-4 bg-muted/30"
+                      data-testid={`dead-letter-${job.id}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground truncate">{job.taskName || job.taskId}</p>
+                        <p className="text-sm text-muted-foreground truncate">{job.data?.url}</p>
+                        <p className="text-sm text-destructive truncate">{job.failedReason || "Unknown error"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {job.attempts} / {job.maxAttempts} attempts
+                          {job.deadLetteredAt && ` · failed ${new Date(job.deadLetteredAt).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => retryJobMutation.mutate(job.id)}
+                          disabled={retryJobMutation.isPending}
+                          data-testid={`button-retry-${job.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Re-queue
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => discardJobMutation.mutate(job.id)}
+                          disabled={discardJobMutation.isPending}
+                          data-testid={`button-discard-${job.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <AlertTriangle className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                  <p className="text-muted-foreground">No failed jobs</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </main>
     </div>
@@ -2,16 +2,24 @@ import { Sidebar } from "@/components/sidebar";
 import { LiveTaskMonitor } from "@/components/live-task-monitor";
 import { GeneratedCode } from "@/components/generated-code";
 import { DataTable } from "@/components/data-table";
+import { TaskScheduleCard } from "@/components/task-schedule";
+import { TaskRuns } from "@/components/task-runs";
+import { RunChanges } from "@/components/run-changes";
+import { RunSnapshots } from "@/components/run-snapshots";
+import { RobotsPolicy } from "@/components/robots-policy";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { useRoute, Link } from "wouter";
 import { ArrowLeft, Play, Pause, Square, Download, Code } from "lucide-react";
 
 export default function TaskDetailPage() {
   const [match, params] = useRoute("/tasks/:taskId");
   const taskId = params?.taskId;
+  const { toast } = useToast();
 
   const { data: task, isLoading } = useQuery<any>({
     queryKey: [`/api/tasks/${taskId}`],
@@ -24,6 +32,30 @@ export default function TaskDetailPage() {
     refetchInterval: 10000,
   });
 
+  const controlMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume" | "stop") => {
+      const res = await apiRequest("POST", `/api/tasks/${taskId}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, action) => {
+      const messages = {
+        pause: { title: "Pausing task", description: "The task will pause after the current page and keep its progress." },
+        resume: { title: "Task resumed", description: "The task continues from where it was paused." },
+        stop: { title: "Task stopped", description: "In-flight requests were cancelled." },
+      };
+      toast(messages[action]);
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/runs`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Action failed",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex min-h-screen bg-background">
@@ -88,15 +120,33 @@ export default function TaskDetailPage() {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => controlMutation.mutate("resume")}
+                disabled={task.status !== "paused" || controlMutation.isPending}
+                data-testid="button-resume-task"
+              >
                 <Play className="w-4 h-4 mr-2" />
                 Resume
               </Button>
-              <Button variant="outline" size="sm">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => controlMutation.mutate("pause")}
+                disabled={task.status !== "running" || controlMutation.isPending}
+                data-testid="button-pause-task"
+              >
                 <Pause className="w-4 h-4 mr-2" />
                 Pause
               </Button>
-              <Button variant="outline" size="sm">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => controlMutation.mutate("stop")}
+                disabled={!["pending", "running", "paused"].includes(task.status) || controlMutation.isPending}
+                data-testid="button-stop-task"
+              >
                 <Square className="w-4 h-4 mr-2" />
                 Stop
               </Button>
@@ -186,6 +236,61 @@ export default function TaskDetailPage() {
             </Card>
           </div>
 
+          {/* Schedule */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Schedule</CardTitle>
+              <CardDescription>Run this task automatically on a recurring cron schedule</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TaskScheduleCard taskId={task.id} schedule={task.schedule} />
+            </CardContent>
+          </Card>
+
+          {/* Runs */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Runs</CardTitle>
+              <CardDescription>Each execution of this task with its own results and stats</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TaskRuns taskId={task.id} />
+            </CardContent>
+          </Card>
+
+          {/* Changes */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes Between Runs</CardTitle>
+              <CardDescription>Items added, removed and changed compared to the previous run</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RunChanges taskId={task.id} identityKey={task.identityKey} />
+            </CardContent>
+          </Card>
+
+          {/* Snapshots */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Snapshots</CardTitle>
+              <CardDescription>Screenshots and HTML of the pages a run scraped, to see why a selector missed</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RunSnapshots taskId={task.id} />
+            </CardContent>
+          </Card>
+
+          {/* robots.txt */}
+          <Card>
+            <CardHeader>
+              <CardTitle>robots.txt</CardTitle>
+              <CardDescription>Pages robots.txt disallows are skipped unless an admin overrides it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RobotsPolicy taskId={task.id} />
+            </CardContent>
+          </Card>
+
           {/* Scraped Data */}
           <Card>
             <CardHeader>
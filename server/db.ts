@@ -18,6 +18,7 @@ export async function connectToDatabase() {
     client = new MongoClient(uri, {
       serverSelectionTimeoutMS: 5000, // 5 second timeout
       connectTimeoutMS: 5000,
+      ignoreUndefined: true, // Optional fields left undefined are omitted, not stored as null the schemas reject
     });
     await client.connect();
     _db = client.db(); // Assign the connected database instance
@@ -5,6 +5,8 @@ import { registerRoutes } from "./routes.ts";
 import { setupVite, serveStatic, log } from "./vite.ts";
 import { connectToDatabase } from "./db.ts"; // Import connectToDatabase
 import { initializeStorage } from "./storage.ts"; // Import storage initializer
+import { startScrapingQueue } from "./services/queue.ts";
+import { startTaskScheduler } from "./services/scheduler.ts";
 
 const app = express();
 app.use(express.json());
@@ -43,6 +45,8 @@ app.use((req, res, next) => {
 (async () => {
   await connectToDatabase(); // Connect to MongoDB before starting the server
   initializeStorage(); // Initialize storage after database connection
+  await startScrapingQueue(); // Resume jobs persisted before the last shutdown
+  startTaskScheduler(); // Enqueue recurring runs for scheduled tasks
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -6,10 +6,30 @@ import { analyzeWebsiteStructure, generateScrapingCode } from "./services/openai
 import { performEnhancedWebsiteAnalysis, generateAdvancedScrapingCode } from "./services/enhanced-ai-analysis";
 import { advancedScraperService } from "./services/advanced-scraper";
 import { testOpenAIKey } from "./services/openai";
-import { addScrapingJob } from "./services/queue";
+import { addScrapingJob, getJobStatus, removeJob, requeueJob, resumeTask, cancelTask, getDeadLetterJobs, getQueueStats, updateQueueSettings } from "./services/queue";
 import { scraperService } from "./services/scraper";
-import { scrapingTaskSchema, scrapedDataSchema, websiteAnalysisSchema, aiProviderKeySchema } from "@shared/schema";
+import { changeDetectionService } from "./services/change-detection";
+import { buildTaskSchedule, getNextRunTimes, ScheduleValidationError } from "./services/scheduler";
+import { buildRetrySettings, RetryValidationError } from "./services/retry";
+import { buildPaginationConfig, PaginationValidationError } from "./services/pagination";
+import { buildDetailCrawlConfig, DetailCrawlValidationError } from "./services/detail-crawler";
+import { buildSeedConfig, SeedValidationError } from "./services/seeds";
+import { buildExtractionSchema, extractItems, ExtractionValidationError } from "./services/extraction";
+import { buildTableConfig, TableValidationError } from "./services/tables";
+import { ActionValidationError, buildBrowserActions } from "./services/browser-actions";
+import { buildCachePolicy, cachedFetch, CacheValidationError, httpCache } from "./services/http-cache";
+import { buildHttpSettings, fetchText, HttpSettingsValidationError } from "./services/http-client";
+import { buildProxyInput, buildProxySettings, proxyPool, ProxyValidationError } from "./services/proxy-pool";
+import { buildCredentials, buildLoginRecipe, getSessionStatus, LoginError, LoginValidationError, saveCredentials } from "./services/auth-session";
+import { apiRequestInit, ApiSourceValidationError, buildApiSource, extractApiItems, nextApiPageUrl, parseApiResponse } from "./services/api-source";
+import { deleteSnapshots, readSnapshot } from "./services/snapshots";
+import { blobStore, BlobNotFoundError } from "./services/blob-store";
+import { ROBOTS_USER_AGENT, robotsService } from "./services/robots";
+import { assertUrlAllowed, getUrlPolicySettings, updateUrlPolicySettings, UrlPolicyError } from "./services/url-policy";
+import { encryptForUser } from "./services/secrets";
+import { scrapingTaskSchema, scrapedDataSchema, websiteAnalysisSchema, aiProviderKeySchema, renderSettingsSchema, type ProxyServer } from "@shared/schema";
 import crypto from "crypto";
+import * as cheerio from 'cheerio';
 import puppeteer from 'puppeteer';
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -32,6 +52,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Users listed in ADMIN_USER_IDS (comma-separated) are admins even without a stored user record
+  const adminUserIds = new Set((process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean));
+
   // Authentication middleware (simplified for demo)
   const authenticateUser = async (req: any, res: any, next: any) => {
     // For demo purposes, create a default user
@@ -41,7 +64,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       email: 'demo@example.com',
       plan: 'pro'
     };
-    req.user = defaultUser;
+    // The role comes from the user's record, so admin-only routes stay closed unless an admin is configured
+    let record;
+    try {
+      record = await storage.getUserByUsername(defaultUser.username);
+    } catch (error) {
+      // Express 4 does not catch rejections of async middleware
+      return next(error);
+    }
+    const role = record?.role === 'admin' || adminUserIds.has(defaultUser.id) ? 'admin' : 'user';
+    req.user = { ...defaultUser, role };
+    next();
+  };
+
+  const requireAdmin = (req: any, res: any, next: any) => {
+    if (req.user?.role !== 'admin') {
+      return res.status(403).json({ message: "Admin access required" });
+    }
     next();
   };
 
@@ -86,6 +125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
+      await assertUrlAllowed(url);
 
       // Check if we have a recent analysis
       const existingAnalysis = await storage.getWebsiteAnalysis(url);
@@ -98,12 +138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Use simple fetch for now since browser dependencies are not available in this environment
       console.log('Fetching website content using HTTP request...');
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      });
-      htmlContent = await response.text();
+      htmlContent = (await fetchText(url, { fetcher: cachedFetch })).text;
 
       // Analyze with OpenAI
       const analysis = await analyzeWebsiteStructure(url, htmlContent, prompt, req.user.id);
@@ -130,32 +165,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
         recommendations: analysis.recommendations
       });
     } catch (error) {
+      if (error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error("Analysis error:", error);
       res.status(500).json({ message: `Failed to analyze website: ${errorMessage}` });
     }
   });
 
+  // Run an extraction schema against a live page so its fields and transforms can be checked before saving
+  app.post("/api/extraction/preview", authenticateUser, async (req: any, res) => {
+    try {
+      const { url, extraction, itemSelector } = req.body;
+
+      if (!url) {
+        return res.status(400).json({ message: "URL is required" });
+      }
+      await assertUrlAllowed(url);
+      const schema = buildExtractionSchema(extraction);
+
+      const page = await fetchText(url, { fetcher: cachedFetch });
+      const items = extractItems(cheerio.load(page.text), schema, itemSelector || undefined, page.url);
+
+      res.json({ total: items.length, items: items.slice(0, 10) });
+    } catch (error) {
+      if (error instanceof ExtractionValidationError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error("Extraction preview error:", error);
+      res.status(500).json({ message: `Failed to preview extraction: ${errorMessage}` });
+    }
+  });
+
+  // Render a page and list the JSON endpoints it loads its data from
+  app.post("/api/capture", authenticateUser, async (req: any, res) => {
+    try {
+      const { url, scrollToBottom, waitForSelector } = req.body;
+
+      if (!url) {
+        return res.status(400).json({ message: "URL is required" });
+      }
+      await assertUrlAllowed(url);
+
+      const endpoints = await advancedScraperService.captureNetwork(url, { scrollToBottom, waitForSelector }, AbortSignal.timeout(90000));
+      res.json({ endpoints });
+    } catch (error) {
+      if (error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error("Network capture error:", error);
+      res.status(500).json({ message: `Failed to capture network requests: ${errorMessage}` });
+    }
+  });
+
+  // Request the first page of an API source so its items path can be checked before saving
+  app.post("/api/capture/preview", authenticateUser, async (req: any, res) => {
+    try {
+      const source = buildApiSource(req.body.apiSource);
+      await assertUrlAllowed(source.endpoint);
+
+      const init = apiRequestInit(source);
+      const response = await fetchText(source.endpoint, { init });
+      const pageUrl = response.url;
+      const document = parseApiResponse(response.text, pageUrl);
+      const items = extractApiItems(document, source);
+
+      res.json({ total: items.length, items: items.slice(0, 10), nextUrl: nextApiPageUrl(document, source, pageUrl) });
+    } catch (error) {
+      if (error instanceof ApiSourceValidationError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error("API source preview error:", error);
+      res.status(500).json({ message: `Failed to preview API source: ${errorMessage}` });
+    }
+  });
+
   // Create new scraping task with dynamic analysis
   app.post("/api/tasks", authenticateUser, async (req: any, res) => {
     try {
-      const { url, name, maxPages = 5, delay = 2000 } = req.body;
+      const { url, name, maxPages = 5, delay = 2000, retryAttempts = 3, jobAttempts, identityKey, pagination, detailCrawl, seed, extraction, table, apiSource, login, credentials, structuredData, recordTraffic, cache, http, proxy } = req.body;
       
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
+      await assertUrlAllowed(url);
+
+      // Validate before the (slow) analysis; the detected next selector is merged in below
+      buildPaginationConfig(pagination);
+      const taskDetailCrawl = detailCrawl ? buildDetailCrawlConfig(detailCrawl) : undefined;
+      const taskSeed = seed ? buildSeedConfig(seed) : undefined;
+      const taskExtraction = extraction ? buildExtractionSchema(extraction) : undefined;
+      const taskTable = table ? buildTableConfig(table) : undefined;
+      const taskApiSource = apiSource ? buildApiSource(apiSource) : undefined;
+      if (taskApiSource) await assertUrlAllowed(taskApiSource.endpoint);
+      const taskLogin = login ? buildLoginRecipe(login) : undefined;
+      const taskCredentials = credentials ? buildCredentials(credentials) : undefined;
+      if (taskCredentials && !taskLogin) {
+        return res.status(400).json({ message: "Credentials need a login recipe" });
+      }
+      const taskCache = cache ? buildCachePolicy(cache) : undefined;
+      const taskHttp = http ? buildHttpSettings(http) : undefined;
+      const taskProxy = proxy ? buildProxySettings(proxy) : undefined;
+      const taskRetry = buildRetrySettings({ attempts: retryAttempts, jobAttempts });
 
       console.log(`Creating dynamic scraping task for: ${url}`);
 
       // Step 1: Analyze website structure first
       let htmlContent = '';
       try {
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-          }
-        });
-        htmlContent = await response.text();
+        htmlContent = (await fetchText(url, { settings: taskHttp, fetcher: cachedFetch })).text;
       } catch (fetchError) {
         console.error('Failed to fetch website for analysis:', fetchError);
         return res.status(500).json({ message: "Failed to fetch website content for analysis" });
@@ -173,6 +295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           : analysis.selectors.fallback,
         itemContainer: analysis.patterns.itemContainer
       };
+      const taskPagination = buildPaginationConfig(pagination, analysis.patterns.nextSelector);
 
       // Step 4: Create scraping task with analyzed selectors
       const validatedData = scrapingTaskSchema.parse({
@@ -180,6 +303,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         url,
         selectors: taskSelectors,
         strategy: analysis.strategy,
+        identityKey: identityKey || undefined,
+        pagination: taskPagination,
+        detailCrawl: taskDetailCrawl,
+        seed: taskSeed,
+        extraction: taskExtraction,
+        table: taskTable,
+        apiSource: taskApiSource,
+        login: taskLogin,
+        structuredData: structuredData === true || undefined,
+        recordTraffic: recordTraffic === true || undefined,
+        cache: taskCache,
+        http: taskHttp,
+        proxy: taskProxy,
+        retry: taskRetry,
         userId: req.user.id,
         status: 'pending',
         progress: 0,
@@ -190,6 +327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const task = await storage.createScrapingTask(validatedData);
+      if (taskCredentials) await saveCredentials(task, taskCredentials);
 
       // Step 5: Generate scraping code based on analysis
       const generatedCode = await generateScrapingCode(
@@ -203,7 +341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.updateScrapingTask(task.id!, { generatedCode });
 
       // Step 6: Start scraping with dynamic selectors
-      await addScrapingJob({
+      const job = await addScrapingJob({
         taskId: task.id!,
         url: task.url,
         selectors: {
@@ -213,12 +351,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         strategy: analysis.strategy,
         maxPages: parseInt(maxPages),
-        delay: parseInt(delay)
+        delay: parseInt(delay),
+        retry: { attempts: taskRetry.attempts },
+        pagination: taskPagination,
+        detailCrawl: taskDetailCrawl,
+        seed: taskSeed,
+        extraction: taskExtraction,
+        table: taskTable,
+        apiSource: taskApiSource,
+        structuredData: structuredData === true,
+        recordTraffic: recordTraffic === true,
+        cache: taskCache,
+        http: taskHttp,
+        proxy: taskProxy
+      }, {
+        maxAttempts: taskRetry.jobAttempts
       });
 
       res.json({ 
         ...task, 
         generatedCode,
+        jobId: job.id,
         analysis: {
           confidence: analysis.confidence,
           strategy: analysis.strategy,
@@ -227,19 +380,536 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
+      if (error instanceof PaginationValidationError || error instanceof DetailCrawlValidationError
+        || error instanceof SeedValidationError || error instanceof ExtractionValidationError || error instanceof TableValidationError
+        || error instanceof ApiSourceValidationError || error instanceof LoginValidationError || error instanceof CacheValidationError
+        || error instanceof HttpSettingsValidationError || error instanceof ProxyValidationError || error instanceof RetryValidationError
+        || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error("Create dynamic task error:", error);
       res.status(500).json({ message: `Failed to create dynamic scraping task: ${errorMessage}` });
     }
   });
 
+  // Get a single scraping task
+  app.get("/api/tasks/:taskId", authenticateUser, async (req: any, res) => {
+    try {
+      const { taskId } = req.params;
+      const task = await storage.getScrapingTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      res.json(task);
+    } catch (error) {
+      console.error("Get task error:", error);
+      res.status(500).json({ message: "Failed to fetch task" });
+    }
+  });
+
+  // Preview upcoming run times for a cron expression
+  app.get("/api/schedule/preview", authenticateUser, async (req: any, res) => {
+    try {
+      const { cron, timezone = 'UTC', count = 5 } = req.query;
+      if (!cron) {
+        return res.status(400).json({ message: "Cron expression is required" });
+      }
+
+      const runs = getNextRunTimes(String(cron), String(timezone), Math.min(20, Math.max(1, parseInt(count) || 5)));
+      res.json({ cron, timezone, nextRuns: runs });
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Schedule preview error:", error);
+      res.status(500).json({ message: "Failed to preview schedule" });
+    }
+  });
+
+  // Create or replace a task's recurring schedule
+  app.put("/api/tasks/:taskId/schedule", authenticateUser, async (req: any, res) => {
+    try {
+      const { taskId } = req.params;
+      const { cron, timezone, enabled, maxPages, delay } = req.body;
+
+      if (!cron) {
+        return res.status(400).json({ message: "Cron expression is required" });
+      }
+
+      const task = await storage.getScrapingTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const schedule = buildTaskSchedule({
+        cron: String(cron).trim(),
+        timezone,
+        enabled,
+        maxPages: maxPages !== undefined ? Number(maxPages) : undefined,
+        delay: delay !== undefined ? Number(delay) : undefined
+      }, task.schedule);
+
+      const updatedTask = await storage.updateScrapingTask(taskId, { schedule });
+      res.json(updatedTask);
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update schedule error:", error);
+      res.status(500).json({ message: "Failed to update task schedule" });
+    }
+  });
+
+  // Pause or resume a task's schedule
+  app.post("/api/tasks/:taskId/schedule/:action(pause|resume)", authenticateUser, async (req: any, res) => {
+    try {
+      const { taskId, action } = req.params;
+      const task = await storage.getScrapingTask(taskId);
+      if (!task?.schedule) {
+        return res.status(404).json({ message: "Task schedule not found" });
+      }
+
+      const schedule = buildTaskSchedule({ ...task.schedule, enabled: action === 'resume' }, task.schedule);
+      const updatedTask = await storage.updateScrapingTask(taskId, { schedule });
+      res.json(updatedTask);
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Toggle schedule error:", error);
+      res.status(500).json({ message: "Failed to update task schedule" });
+    }
+  });
+
+  // Remove a task's schedule
+  app.delete("/api/tasks/:taskId/schedule", authenticateUser, async (req: any, res) => {
+    try {
+      const { taskId } = req.params;
+      const updatedTask = await storage.updateScrapingTask(taskId, { schedule: undefined });
+      res.json(updatedTask);
+    } catch (error) {
+      console.error("Delete schedule error:", error);
+      res.status(500).json({ message: "Failed to remove task schedule" });
+    }
+  });
+
+  // Get run history for a task
+  app.get("/api/tasks/:taskId/runs", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const runs = await storage.getTaskRuns(task.id!);
+      res.json(runs);
+    } catch (error) {
+      console.error("Get task runs error:", error);
+      res.status(500).json({ message: "Failed to fetch task runs" });
+    }
+  });
+
+  // Get a single task run
+  app.get("/api/runs/:runId", authenticateUser, async (req: any, res) => {
+    try {
+      const run = await storage.getTaskRun(req.params.runId);
+      const task = run && await storage.getScrapingTask(run.taskId);
+      if (!run || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Get run error:", error);
+      res.status(500).json({ message: "Failed to fetch run" });
+    }
+  });
+
+  // Download the requests and responses a run recorded, as a HAR file
+  app.get("/api/runs/:runId/traffic", authenticateUser, async (req: any, res) => {
+    try {
+      const run = await storage.getTaskRun(req.params.runId);
+      const task = run && await storage.getScrapingTask(run.taskId);
+      if (!run || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      if (!run.trafficArchive) {
+        return res.status(404).json({ message: "This run did not record its traffic" });
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="run-${run.id}.har"`);
+      res.send(await blobStore.get(run.trafficArchive.blobKey));
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "The recorded traffic is no longer stored" });
+      }
+      console.error("Get run traffic error:", error);
+      res.status(500).json({ message: "Failed to fetch run traffic" });
+    }
+  });
+
+  // Run the task again against a run's recorded traffic, with the task's current selectors and settings
+  app.post("/api/runs/:runId/replay", authenticateUser, async (req: any, res) => {
+    try {
+      const run = await storage.getTaskRun(req.params.runId);
+      const task = run && await storage.getScrapingTask(run.taskId);
+      if (!run || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      if (!run.trafficArchive) {
+        return res.status(400).json({ message: "This run did not record its traffic" });
+      }
+      if (task.status === 'running') {
+        return res.status(409).json({ message: "The task is already running" });
+      }
+
+      // Enough pages to cover the recorded run; pages past it are not in the archive anyway
+      const maxPages = Math.max(run.pagesVisited, 1);
+      if (run.scraper === 'advanced') {
+        advancedScraperService.startAdvancedScraping(task.id!, {
+          url: task.url,
+          selectors: {},
+          strategy: task.strategy || 'Advanced dynamic scraping',
+          maxPages,
+          waitForNetworkIdle: true,
+          pagination: task.pagination,
+          extraction: task.extraction,
+          table: task.table,
+          structuredData: task.structuredData,
+          actions: task.actions,
+          captureScreenshots: task.captureScreenshots,
+          replayRunId: run.id
+        }).catch(error => {
+          console.error('Background replay error:', error);
+        });
+        return res.json({ message: "Replay started" });
+      }
+
+      const job = await addScrapingJob({
+        taskId: task.id!,
+        url: task.url,
+        selectors: task.selectors || {},
+        strategy: task.strategy || 'Standard web scraping',
+        maxPages,
+        pagination: task.pagination,
+        detailCrawl: task.detailCrawl,
+        seed: task.seed,
+        extraction: task.extraction,
+        table: task.table,
+        apiSource: task.apiSource,
+        structuredData: task.structuredData,
+        replayRunId: run.id
+      }, { maxAttempts: 1 });
+      res.json({ message: "Replay queued", jobId: job.id });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error("Replay run error:", error);
+      res.status(500).json({ message: `Failed to replay run: ${errorMessage}` });
+    }
+  });
+
+  // Get change summaries between consecutive runs of a task
+  app.get("/api/tasks/:taskId/diffs", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const diffs = await storage.getRunDiffs(task.id!);
+      res.json(diffs.map(({ added, removed, changed, ...diff }) => ({
+        ...diff,
+        addedCount: added.length,
+        removedCount: removed.length,
+        changedCount: changed.length
+      })));
+    } catch (error) {
+      console.error("Get task diffs error:", error);
+      res.status(500).json({ message: "Failed to fetch task diffs" });
+    }
+  });
+
+  // Get the items added, removed and changed by a run
+  app.get("/api/runs/:runId/diff", authenticateUser, async (req: any, res) => {
+    try {
+      const diff = await storage.getRunDiffByRunId(req.params.runId);
+      const task = diff && await storage.getScrapingTask(diff.taskId);
+      if (!diff || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "No diff found for this run" });
+      }
+      res.json(await changeDetectionService.expandRunDiff(diff));
+    } catch (error) {
+      console.error("Get run diff error:", error);
+      res.status(500).json({ message: "Failed to fetch run diff" });
+    }
+  });
+
+  // Get queue jobs for a task
+  app.get("/api/tasks/:taskId/jobs", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const jobs = await storage.getScrapingJobs({ taskId: task.id! });
+      res.json(jobs);
+    } catch (error) {
+      console.error("Get task jobs error:", error);
+      res.status(500).json({ message: "Failed to fetch task jobs" });
+    }
+  });
+
+  // Get worker pool load and concurrency settings
+  app.get("/api/queue", authenticateUser, async (req: any, res) => {
+    try {
+      const queued = await storage.getScrapingJobs({ states: ['queued'] });
+      res.json({ ...getQueueStats(), queued: queued.length });
+    } catch (error) {
+      console.error("Queue stats error:", error);
+      res.status(500).json({ message: "Failed to fetch queue stats" });
+    }
+  });
+
+  // Update worker concurrency and per-domain politeness limits; they are shared by every user's jobs (admins only)
+  app.put("/api/queue/settings", authenticateUser, requireAdmin, async (req: any, res) => {
+    try {
+      const { concurrency, domainConcurrency, domainDelay, jobAttempts, retryDelay } = req.body;
+      const toInt = (value: any) => value === undefined ? undefined : parseInt(value);
+
+      const updates = {
+        concurrency: toInt(concurrency),
+        domainConcurrency: toInt(domainConcurrency),
+        domainDelay: toInt(domainDelay),
+        jobAttempts: toInt(jobAttempts),
+        retryDelay: toInt(retryDelay)
+      };
+      if (Object.values(updates).some(value => value !== undefined && (isNaN(value) || value < 0))) {
+        return res.status(400).json({ message: "Queue settings must be non-negative integers" });
+      }
+
+      res.json(updateQueueSettings(updates));
+    } catch (error) {
+      console.error("Update queue settings error:", error);
+      res.status(500).json({ message: "Failed to update queue settings" });
+    }
+  });
+
+  // HTTP cache hits since the server started, with the number and size of stored responses
+  app.get("/api/cache/stats", authenticateUser, async (req: any, res) => {
+    try {
+      res.json(await httpCache.stats());
+    } catch (error) {
+      console.error("Cache stats error:", error);
+      res.status(500).json({ message: "Failed to fetch cache stats" });
+    }
+  });
+
+  // Drop every stored response; the cache is shared by all users (admins only)
+  app.delete("/api/cache", authenticateUser, requireAdmin, async (req: any, res) => {
+    try {
+      const removed = await httpCache.clear();
+      console.log(`HTTP cache cleared by ${req.user.id}: ${removed} entries`);
+      res.json({ removed });
+    } catch (error) {
+      console.error("Clear cache error:", error);
+      res.status(500).json({ message: "Failed to clear cache" });
+    }
+  });
+
+  // Proxy servers the user's tasks can route their requests through; passwords never leave the server
+  const safeProxy = ({ password, ...proxy }: ProxyServer) => ({ ...proxy, hasPassword: !!password });
+
+  app.get("/api/proxies", authenticateUser, async (req: any, res) => {
+    try {
+      const proxies = await storage.getProxies(req.user.id);
+      res.json(proxies.map(proxy => ({ ...safeProxy(proxy), health: proxyPool.health(proxy) })));
+    } catch (error) {
+      console.error("Get proxies error:", error);
+      res.status(500).json({ message: "Failed to fetch proxies" });
+    }
+  });
+
+  app.post("/api/proxies", authenticateUser, async (req: any, res) => {
+    try {
+      const { password, ...input } = buildProxyInput(req.body);
+      await assertUrlAllowed(`http://${input.host}:${input.port}/`);
+      const proxy = await storage.createProxy({
+        ...input,
+        ...(password && { password: encryptForUser(req.user.id, password) }),
+        userId: req.user.id,
+        health: { score: 100, successes: 0, failures: 0, bans: 0 },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      res.json(safeProxy(proxy));
+    } catch (error) {
+      if (error instanceof ProxyValidationError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create proxy error:", error);
+      res.status(500).json({ message: "Failed to create proxy" });
+    }
+  });
+
+  // Fields left out keep their value; null clears the username or password
+  app.put("/api/proxies/:id", authenticateUser, async (req: any, res) => {
+    try {
+      const proxy = await storage.getProxy(req.params.id);
+      if (!proxy || proxy.userId !== req.user.id) {
+        return res.status(404).json({ message: "Proxy not found" });
+      }
+
+      const changes = Object.fromEntries(Object.entries(req.body ?? {}).map(([key, value]) => [key, value ?? undefined]));
+      const { name, protocol, host, port, username, enabled } = proxy;
+      const input = buildProxyInput({ name, protocol, host, port, username, enabled, ...changes });
+      await assertUrlAllowed(`http://${input.host}:${input.port}/`);
+      const password = 'password' in changes
+        ? input.password && encryptForUser(req.user.id, input.password)
+        : proxy.password;
+
+      const updated = await storage.updateProxy(proxy.id!, { ...input, password, updatedAt: new Date() });
+      proxyPool.forget(proxy.id!);
+      res.json(safeProxy(updated));
+    } catch (error) {
+      if (error instanceof ProxyValidationError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update proxy error:", error);
+      res.status(500).json({ message: "Failed to update proxy" });
+    }
+  });
+
+  // Start a proxy's health over, e.g. after its provider replaced a banned address
+  app.post("/api/proxies/:id/reset-health", authenticateUser, async (req: any, res) => {
+    try {
+      const proxy = await storage.getProxy(req.params.id);
+      if (!proxy || proxy.userId !== req.user.id) {
+        return res.status(404).json({ message: "Proxy not found" });
+      }
+      const updated = await storage.updateProxy(proxy.id!, { health: { score: 100, successes: 0, failures: 0, bans: 0 } });
+      proxyPool.forget(proxy.id!);
+      res.json(safeProxy(updated));
+    } catch (error) {
+      console.error("Reset proxy health error:", error);
+      res.status(500).json({ message: "Failed to reset proxy health" });
+    }
+  });
+
+  app.delete("/api/proxies/:id", authenticateUser, async (req: any, res) => {
+    try {
+      const proxy = await storage.getProxy(req.params.id);
+      if (!proxy || proxy.userId !== req.user.id) {
+        return res.status(404).json({ message: "Proxy not found" });
+      }
+      await storage.deleteProxy(proxy.id!);
+      proxyPool.forget(proxy.id!);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete proxy error:", error);
+      res.status(500).json({ message: "Failed to delete proxy" });
+    }
+  });
+
+  // Which URLs may be scraped: domain allowlist/denylist and private network access (admins only)
+  app.get("/api/url-policy", authenticateUser, requireAdmin, async (req: any, res) => {
+    res.json(getUrlPolicySettings());
+  });
+
+  app.put("/api/url-policy", authenticateUser, requireAdmin, async (req: any, res) => {
+    try {
+      const { allowedDomains, deniedDomains, allowPrivateNetworks } = req.body;
+      const isDomainList = (value: any) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+      if (!isDomainList(allowedDomains) || !isDomainList(deniedDomains)) {
+        return res.status(400).json({ message: "Domain lists must be arrays of domain names" });
+      }
+      if (allowPrivateNetworks !== undefined && typeof allowPrivateNetworks !== 'boolean') {
+        return res.status(400).json({ message: "allowPrivateNetworks must be true or false" });
+      }
+
+      const settings = updateUrlPolicySettings({ allowedDomains, deniedDomains, allowPrivateNetworks });
+      console.log(`URL policy updated by ${req.user.id}: ${settings.allowedDomains.length} allowed and ${settings.deniedDomains.length} denied domains, private networks ${settings.allowPrivateNetworks ? 'allowed' : 'blocked'}`);
+      res.json(settings);
+    } catch (error) {
+      console.error("Update URL policy error:", error);
+      res.status(500).json({ message: "Failed to update URL policy" });
+    }
+  });
+
+  // List permanently failed jobs for the user's tasks
+  app.get("/api/jobs/dead-letter", authenticateUser, async (req: any, res) => {
+    try {
+      const tasks = await storage.getScrapingTasks(req.user.id);
+      const taskNames = new Map(tasks.map(task => [task.id!, task.name]));
+      const jobs = await getDeadLetterJobs(Array.from(taskNames.keys()));
+      res.json(jobs.map(job => ({ ...job, taskName: taskNames.get(job.taskId) })));
+    } catch (error) {
+      console.error("Dead letter jobs error:", error);
+      res.status(500).json({ message: "Failed to fetch dead-letter jobs" });
+    }
+  });
+
+  // Re-queue a dead-lettered job with a fresh attempt budget
+  app.post("/api/jobs/:jobId/retry", authenticateUser, async (req: any, res) => {
+    try {
+      const job = await storage.getScrapingJob(req.params.jobId);
+      const task = job && await storage.getScrapingTask(job.taskId);
+      if (!job || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const requeued = await requeueJob(job.id!);
+      if (!requeued) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(requeued);
+    } catch (error) {
+      console.error("Retry job error:", error);
+      res.status(500).json({ message: "Failed to re-queue job" });
+    }
+  });
+
+  // Get queue job status
+  app.get("/api/jobs/:jobId", authenticateUser, async (req: any, res) => {
+    try {
+      const job = await storage.getScrapingJob(req.params.jobId);
+      const task = job && await storage.getScrapingTask(job.taskId);
+      if (!job || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const status = await getJobStatus(job.id!);
+      if (!status) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(status);
+    } catch (error) {
+      console.error("Get job status error:", error);
+      res.status(500).json({ message: "Failed to fetch job status" });
+    }
+  });
+
+  // Cancel a pending/running job or remove a finished one
+  app.delete("/api/jobs/:jobId", authenticateUser, async (req: any, res) => {
+    try {
+      const job = await storage.getScrapingJob(req.params.jobId);
+      const task = job && await storage.getScrapingTask(job.taskId);
+      if (!job || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const removed = await removeJob(job.id!);
+      if (!removed) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Remove job error:", error);
+      res.status(500).json({ message: "Failed to remove job" });
+    }
+  });
+
   // Get scraped data for a task
   app.get("/api/tasks/:taskId/data", authenticateUser, async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      const { limit = 50, offset = 0 } = req.query;
+      const { limit = 50, offset = 0, runId } = req.query;
       
-      const data = await storage.getScrapedData(taskId, parseInt(limit), parseInt(offset));
+      const data = await storage.getScrapedData(taskId, parseInt(limit), parseInt(offset), runId || undefined);
       res.json(data);
     } catch (error) {
       console.error("Get data error:", error);
@@ -277,7 +947,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/tasks/:taskId", authenticateUser, async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      const updates = req.body;
+      // The robots.txt override is only changed through its own admin route, which keeps the audit trail
+      const { robotsOverride, robotsAudit, ...updates } = req.body;
+      if ('identityKey' in updates) {
+        // null or an empty string goes back to matching items by link
+        if (updates.identityKey != null && typeof updates.identityKey !== 'string') {
+          return res.status(400).json({ message: "identityKey must be a data field name" });
+        }
+        updates.identityKey = updates.identityKey?.trim() || undefined;
+      }
+      if ('pagination' in updates) {
+        // null goes back to detecting the next page automatically
+        updates.pagination = updates.pagination ? buildPaginationConfig(updates.pagination) : undefined;
+      }
+      if ('detailCrawl' in updates) {
+        // null stops following item links to their detail pages
+        updates.detailCrawl = updates.detailCrawl ? buildDetailCrawlConfig(updates.detailCrawl) : undefined;
+      }
+      if ('seed' in updates) {
+        // null goes back to crawling from the task URL
+        updates.seed = updates.seed ? buildSeedConfig(updates.seed) : undefined;
+      }
+      if ('extraction' in updates) {
+        // null removes the schema and brings back heuristic extraction
+        updates.extraction = updates.extraction ? buildExtractionSchema(updates.extraction) : undefined;
+      }
+      if ('table' in updates) {
+        // null turns table mode off
+        updates.table = updates.table ? buildTableConfig(updates.table) : undefined;
+      }
+      if ('apiSource' in updates) {
+        // null goes back to scraping the rendered page
+        updates.apiSource = updates.apiSource ? buildApiSource(updates.apiSource) : undefined;
+        if (updates.apiSource) await assertUrlAllowed(updates.apiSource.endpoint);
+      }
+      if ('login' in updates) {
+        // null goes back to scraping without logging in
+        updates.login = updates.login ? buildLoginRecipe(updates.login) : undefined;
+      }
+      if ('actions' in updates) {
+        // null or an empty list removes the action script
+        updates.actions = updates.actions?.length ? buildBrowserActions(updates.actions) : undefined;
+      }
+      if ('cache' in updates) {
+        // null goes back to the default policy
+        updates.cache = updates.cache ? buildCachePolicy(updates.cache) : undefined;
+      }
+      if ('http' in updates) {
+        // null goes back to the default user agent, headers and limits
+        updates.http = updates.http ? buildHttpSettings(updates.http) : undefined;
+      }
+      if ('proxy' in updates) {
+        // null sends the task's requests from the server's own address again
+        updates.proxy = updates.proxy ? buildProxySettings(updates.proxy) : undefined;
+      }
       
       const updatedTask = await storage.updateScrapingTask(taskId, {
         ...updates,
@@ -285,6 +1008,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       res.json(updatedTask);
     } catch (error) {
+      if (error instanceof PaginationValidationError || error instanceof DetailCrawlValidationError || error instanceof SeedValidationError
+        || error instanceof ExtractionValidationError || error instanceof TableValidationError || error instanceof ApiSourceValidationError
+        || error instanceof LoginValidationError || error instanceof ActionValidationError || error instanceof CacheValidationError
+        || error instanceof HttpSettingsValidationError || error instanceof ProxyValidationError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Update task error:", error);
       res.status(500).json({ message: "Failed to update task" });
     }
@@ -294,8 +1023,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/tasks/:taskId/export", authenticateUser, async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      const { format = 'json' } = req.query;
-      const data = await storage.getScrapedData(taskId, 10000, 0);
+      const { format = 'json', runId } = req.query;
+      const data = await storage.getScrapedData(taskId, 10000, 0, runId || undefined);
+      const fileBase = runId ? `scraped-data-${taskId}-run-${runId}` : `scraped-data-${taskId}`;
       
       if (data.length === 0) {
         return res.status(404).json({ message: "No data found to export" });
@@ -306,7 +1036,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       switch (format) {
         case 'json':
           res.setHeader('Content-Type', 'application/json');
-          res.setHeader('Content-Disposition', `attachment; filename=scraped-data-${taskId}.json`);
+          res.setHeader('Content-Disposition', `attachment; filename=${fileBase}.json`);
           res.send(JSON.stringify(exportData, null, 2));
           break;
 
@@ -322,7 +1052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             )
           ];
           res.setHeader('Content-Type', 'text/csv');
-          res.setHeader('Content-Disposition', `attachment; filename=scraped-data-${taskId}.csv`);
+          res.setHeader('Content-Disposition', `attachment; filename=${fileBase}.csv`);
           res.send(csvRows.join('\n'));
           break;
 
@@ -345,7 +1075,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }));
 
           res.setHeader('Content-Type', 'text/plain');
-          res.setHeader('Content-Disposition', `attachment; filename=scraped-data-${taskId}.sql`);
+          res.setHeader('Content-Disposition', `attachment; filename=${fileBase}.sql`);
           res.send(sqlStatements.join('\n'));
           break;
 
@@ -501,13 +1231,13 @@ filtered_data = process_data(data)`;
   app.post("/api/tasks/:taskId/export-filtered", authenticateUser, async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      const { format = 'json', pythonScript } = req.body;
+      const { format = 'json', pythonScript, runId } = req.body;
       
       if (!pythonScript) {
         return res.status(400).json({ message: "Python script is required" });
       }
 
-      const data = await storage.getScrapedData(taskId, 10000, 0);
+      const data = await storage.getScrapedData(taskId, 10000, 0, runId || undefined);
       
       if (data.length === 0) {
         return res.status(404).json({ message: "No data found to export" });
@@ -616,7 +1346,10 @@ filtered_data = process_data(data)`;
   app.post("/api/tasks/:taskId/pause", authenticateUser, async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      await scraperService.pauseTask(taskId);
+      const pausing = await scraperService.pauseTask(taskId);
+      if (!pausing) {
+        return res.status(409).json({ message: "Task is not running" });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Pause task error:", error);
@@ -624,11 +1357,31 @@ filtered_data = process_data(data)`;
     }
   });
 
+  app.post("/api/tasks/:taskId/resume", authenticateUser, async (req: any, res) => {
+    try {
+      const { taskId } = req.params;
+      const job = await resumeTask(taskId);
+      if (!job) {
+        return res.status(409).json({ message: "Task has no paused run to resume" });
+      }
+      res.json({ success: true, jobId: job.id });
+    } catch (error) {
+      console.error("Resume task error:", error);
+      res.status(500).json({ message: "Failed to resume task" });
+    }
+  });
+
   // Stop task
   app.post("/api/tasks/:taskId/stop", authenticateUser, async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      await scraperService.stopTask(taskId);
+      const [stoppedQueued, stoppedAdvanced] = await Promise.all([
+        cancelTask(taskId),
+        advancedScraperService.stopTask(taskId)
+      ]);
+      if (!stoppedQueued && !stoppedAdvanced) {
+        return res.status(409).json({ message: "Task is not running" });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Stop task error:", error);
@@ -636,6 +1389,196 @@ filtered_data = process_data(data)`;
     }
   });
 
+  // robots.txt verdict for the task URL, with the task's override and its audit trail
+  app.get("/api/tasks/:taskId/robots", authenticateUser, async (req: any, res) => {
+    try {
+      const { taskId } = req.params;
+      const task = await storage.getScrapingTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const decision = await robotsService.check(task.url);
+      res.json({
+        userAgent: ROBOTS_USER_AGENT,
+        ...decision,
+        override: task.robotsOverride ?? null,
+        audit: [...(task.robotsAudit ?? [])].reverse()
+      });
+    } catch (error) {
+      console.error("Get robots status error:", error);
+      res.status(500).json({ message: "Failed to check robots.txt" });
+    }
+  });
+
+  // Whether a task behind a login has credentials and a saved session; the secrets themselves are never returned
+  app.get("/api/tasks/:taskId/session", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      res.json({ login: task.login ?? null, ...(await getSessionStatus(task)) });
+    } catch (error) {
+      console.error("Get task session error:", error);
+      res.status(500).json({ message: "Failed to get task session" });
+    }
+  });
+
+  // Replace a task's login credentials; the next run logs in with them
+  app.put("/api/tasks/:taskId/credentials", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!task.login) {
+        return res.status(400).json({ message: "Credentials need a login recipe" });
+      }
+
+      await saveCredentials(task, buildCredentials(req.body));
+      res.json(await getSessionStatus(task));
+    } catch (error) {
+      if (error instanceof LoginValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update task credentials error:", error);
+      res.status(500).json({ message: "Failed to update task credentials" });
+    }
+  });
+
+  // Log in now, to check a login recipe and credentials before the task runs
+  app.post("/api/tasks/:taskId/login", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      await advancedScraperService.login(task, AbortSignal.timeout(90000));
+      res.json(await getSessionStatus(task));
+    } catch (error) {
+      if (error instanceof LoginError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error("Task login error:", error);
+      res.status(500).json({ message: `Failed to log in: ${errorMessage}` });
+    }
+  });
+
+  // Forget a task's credentials and session
+  app.delete("/api/tasks/:taskId/session", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      await storage.deleteTaskSession(task.id!);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete task session error:", error);
+      res.status(500).json({ message: "Failed to delete task session" });
+    }
+  });
+
+  // Screenshots and HTML saved by a task's runs, oldest first; ?runId= narrows to one run
+  app.get("/api/tasks/:taskId/snapshots", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const runId = typeof req.query.runId === 'string' ? req.query.runId : undefined;
+      res.json(await storage.getSnapshots(task.id!, runId));
+    } catch (error) {
+      console.error("Get snapshots error:", error);
+      res.status(500).json({ message: "Failed to fetch snapshots" });
+    }
+  });
+
+  // Delete the snapshots of a task's runs and their stored content; ?runId= narrows to one run
+  app.delete("/api/tasks/:taskId/snapshots", authenticateUser, async (req: any, res) => {
+    try {
+      const task = await storage.getScrapingTask(req.params.taskId);
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const runId = typeof req.query.runId === 'string' ? req.query.runId : undefined;
+      const snapshots = await storage.getSnapshots(task.id!, runId);
+      await deleteSnapshots(snapshots);
+      res.json({ deleted: snapshots.length });
+    } catch (error) {
+      console.error("Delete snapshots error:", error);
+      res.status(500).json({ message: "Failed to delete snapshots" });
+    }
+  });
+
+  // The snapshot's image or HTML. HTML is sent as plain text so the scraped page's scripts never run on this origin
+  app.get("/api/snapshots/:id/content", authenticateUser, async (req: any, res) => {
+    try {
+      const snapshot = await storage.getSnapshot(req.params.id);
+      const task = snapshot && await storage.getScrapingTask(snapshot.taskId);
+      if (!snapshot || !task || task.userId !== req.user.id) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      const content = await readSnapshot(snapshot);
+      res.setHeader('Content-Type', snapshot.contentType === 'text/html' ? 'text/plain; charset=utf-8' : snapshot.contentType);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.send(content);
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "Snapshot content is no longer stored" });
+      }
+      console.error("Get snapshot content error:", error);
+      res.status(500).json({ message: "Failed to fetch snapshot" });
+    }
+  });
+
+  // Let a task scrape URLs robots.txt disallows (admins only, every change is audited)
+  app.put("/api/tasks/:taskId/robots-override", authenticateUser, requireAdmin, async (req: any, res) => {
+    try {
+      const { taskId } = req.params;
+      const { enabled, reason } = req.body;
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ message: "enabled must be true or false" });
+      }
+      const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+      if (enabled && !trimmedReason) {
+        return res.status(400).json({ message: "A reason is required to override robots.txt" });
+      }
+
+      const task = await storage.getScrapingTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const now = new Date();
+      const updatedTask = await storage.updateScrapingTask(taskId, {
+        robotsOverride: enabled ? { reason: trimmedReason, userId: req.user.id, enabledAt: now } : undefined,
+        robotsAudit: [
+          ...(task.robotsAudit ?? []),
+          { action: enabled ? 'enabled' : 'disabled', reason: trimmedReason || undefined, userId: req.user.id, createdAt: now }
+        ],
+        updatedAt: now
+      });
+      await storage.createTaskLog({
+        taskId,
+        level: 'warning',
+        message: enabled ? 'robots.txt override enabled' : 'robots.txt override disabled',
+        metadata: { userId: req.user.id, reason: trimmedReason || undefined },
+        createdAt: now
+      });
+
+      res.json(updatedTask);
+    } catch (error) {
+      console.error("Update robots override error:", error);
+      res.status(500).json({ message: "Failed to update robots.txt override" });
+    }
+  });
+
   // Dynamic analytics routes for real-time website analysis
   app.post("/api/analytics/auto-analyze", authenticateUser, async (req: any, res) => {
     try {
@@ -644,10 +1587,9 @@ filtered_data = process_data(data)`;
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
+      await assertUrlAllowed(url);
 
       // Perform automatic analysis with enhanced capabilities
-      const startTime = Date.now();
-      
       // Fetch website content with multiple strategies
       let htmlContent = '';
       let metrics = {
@@ -661,18 +1603,10 @@ filtered_data = process_data(data)`;
 
       try {
         console.log('Auto-analyzing website with dynamic fetching...');
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Cache-Control': 'no-cache'
-          }
-        });
-        
-        htmlContent = await response.text();
-        metrics.loadTime = Date.now() - startTime;
-        metrics.contentSize = htmlContent.length;
+        const page = await fetchText(url, { init: { headers: { 'Cache-Control': 'no-cache' } }, fetcher: cachedFetch });
+        htmlContent = page.text;
+        metrics.loadTime = page.timing.total;
+        metrics.contentSize = page.bytes;
 
         // Extract basic website metrics
         const titleMatch = htmlContent.match(/<title[^>]*>([^<]+)<\/title>/i);
@@ -755,6 +1689,9 @@ filtered_data = process_data(data)`;
       });
 
     } catch (error) {
+      if (error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error("Auto-analysis error:", error);
       res.status(500).json({ message: `Auto-analysis failed: ${errorMessage}` });
@@ -821,13 +1758,7 @@ filtered_data = process_data(data)`;
       for (const url of urls) {
         try {
           // Quick analysis for bulk processing
-          const response = await fetch(url, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            }
-          });
-          
-          const htmlContent = await response.text();
+          const { text: htmlContent } = await fetchText(url, { fetcher: cachedFetch });
           const analysis = await analyzeWebsiteStructure(url, htmlContent, 
             "Quick analysis for bulk processing - focus on main content extraction patterns");
           
@@ -1206,22 +2137,21 @@ filtered_data = process_data(data)`;
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
+      await assertUrlAllowed(url);
 
       console.log('Performing enhanced website analysis...');
       
       // Fetch website content
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-        }
-      });
-      const htmlContent = await response.text();
+      const { text: htmlContent } = await fetchText(url, { fetcher: cachedFetch });
 
       // Perform enhanced analysis
       const analysis = await performEnhancedWebsiteAnalysis(url, htmlContent, prompt, req.user.id);
       
       res.json(analysis);
     } catch (error) {
+      if (error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error("Enhanced analysis error:", error);
       res.status(500).json({ message: `Failed to perform enhanced analysis: ${errorMessage}` });
@@ -1231,11 +2161,31 @@ filtered_data = process_data(data)`;
   // Advanced scraping task creation endpoint
   app.post("/api/tasks/advanced", authenticateUser, async (req: any, res) => {
     try {
-      const { url, renderMode, browserType, maxPages, delay, waitForSelector, scrollToBottom } = req.body;
+      const { url, renderMode, browserType, maxPages, delay, waitForSelector, scrollToBottom, actions, captureScreenshots, identityKey, pagination, extraction, table, login, credentials, structuredData, recordTraffic, cache, http, proxy } = req.body;
       
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
+      await assertUrlAllowed(url);
+
+      const taskPagination = buildPaginationConfig(pagination);
+      const taskExtraction = extraction ? buildExtractionSchema(extraction) : undefined;
+      const taskTable = table ? buildTableConfig(table) : undefined;
+      const taskLogin = login ? buildLoginRecipe(login) : undefined;
+      const taskCredentials = credentials ? buildCredentials(credentials) : undefined;
+      if (taskCredentials && !taskLogin) {
+        return res.status(400).json({ message: "Credentials need a login recipe" });
+      }
+      const taskActions = actions?.length ? buildBrowserActions(actions) : undefined;
+      const taskCache = cache ? buildCachePolicy(cache) : undefined;
+      const taskHttp = http ? buildHttpSettings(http) : undefined;
+      const taskProxy = proxy ? buildProxySettings(proxy) : undefined;
+      const parsedRender = renderSettingsSchema.safeParse({ renderMode, browserType, waitForSelector: waitForSelector || undefined, scrollToBottom });
+      if (!parsedRender.success) {
+        const issue = parsedRender.error.issues[0];
+        return res.status(400).json({ message: `Invalid render setting ${issue.path.join('.')}: ${issue.message}` });
+      }
+      const taskRender = parsedRender.data;
 
       // Create scraping task
       const taskData = {
@@ -1246,10 +2196,24 @@ filtered_data = process_data(data)`;
         createdAt: new Date(),
         updatedAt: new Date(),
         selectors: {}, // Will be generated dynamically
-        strategy: `Advanced ${renderMode || 'dynamic'} scraping`
+        strategy: `Advanced ${taskRender.renderMode} scraping`,
+        identityKey: identityKey || undefined,
+        pagination: taskPagination,
+        extraction: taskExtraction,
+        table: taskTable,
+        login: taskLogin,
+        actions: taskActions,
+        captureScreenshots: captureScreenshots === true || undefined,
+        structuredData: structuredData === true || undefined,
+        recordTraffic: recordTraffic === true || undefined,
+        cache: taskCache,
+        http: taskHttp,
+        proxy: taskProxy,
+        render: taskRender
       };
 
       const task = await storage.createScrapingTask(taskData as any);
+      if (taskCredentials) await saveCredentials(task, taskCredentials);
 
       // Start advanced scraping
       const options = {
@@ -1258,12 +2222,18 @@ filtered_data = process_data(data)`;
         strategy: taskData.strategy,
         maxPages: maxPages || 3,
         delay: delay || 2000,
-        renderMode: renderMode || 'dynamic',
-        browserType: browserType || 'chromium',
-        waitForSelector,
+        ...taskRender,
         waitForNetworkIdle: true,
-        scrollToBottom,
-        captureScreenshots: false
+        actions: taskActions,
+        captureScreenshots: captureScreenshots === true,
+        pagination: taskPagination,
+        extraction: taskExtraction,
+        table: taskTable,
+        structuredData: structuredData === true,
+        recordTraffic: recordTraffic === true,
+        cache: taskCache,
+        http: taskHttp,
+        proxy: taskProxy
       };
 
       // Start scraping in background
@@ -1273,6 +2243,11 @@ filtered_data = process_data(data)`;
 
       res.json(task);
     } catch (error) {
+      if (error instanceof PaginationValidationError || error instanceof ExtractionValidationError || error instanceof TableValidationError
+        || error instanceof LoginValidationError || error instanceof ActionValidationError || error instanceof CacheValidationError
+        || error instanceof HttpSettingsValidationError || error instanceof ProxyValidationError || error instanceof UrlPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error("Create advanced task error:", error);
       res.status(500).json({ message: `Failed to create advanced scraping task: ${errorMessage}` });
@@ -3,6 +3,24 @@ import puppeteer from 'puppeteer-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 import * as cheerio from 'cheerio';
 import { storage } from '../storage';
+import { changeDetectionService } from './change-detection';
+import { closeOnAbort, delay, throwIfCancelled } from './cancellation';
+import { findNextPageUrl, fingerprintPage, getFirstPageUrl, normalizePageUrl } from './pagination';
+import { RobotsGate } from './robots';
+import { extractItems } from './extraction';
+import { extractStructuredItems } from './structured-data';
+import { extractTableRecords } from './tables';
+import { NetworkCapture } from './network-capture';
+import { cookieHeader, loadCredentials, loadStorageState, LoginError, looksLoggedOut, saveStorageState, type StorageState } from './auth-session';
+import { playwrightDriver, puppeteerDriver, runBrowserActions, type ActionDriver } from './browser-actions';
+import { capturePage, htmlSource, playwrightSource, puppeteerSource, pruneSnapshots, saveSnapshot, type SnapshotSource } from './snapshots';
+import { createHarFile, loadTrafficArchive, offlineRobotsGate, saveTrafficArchive } from './traffic-archive';
+import { emptyCacheStats, httpCache } from './http-cache';
+import { browserCookies, countFetch, DEFAULT_USER_AGENT, emptyFetchStats, fetchText } from './http-client';
+import { playwrightProxy, ProxyBannedError, proxyOutcome, proxyPool, puppeteerProxyArg, puppeteerProxyCredentials, type ProxyRotation } from './proxy-pool';
+import { guardPlaywright, guardPuppeteer, safeFetch } from './url-policy';
+import { testPattern } from './patterns';
+import type { BrowserAction, CachePolicy, CacheStats, CapturedEndpoint, ExtractionSchema, FetchStats, HttpSettings, LoginRecipe, PaginationConfig, ProxyServer, ProxySettings, ScrapingTask, TableConfig } from '@shared/schema';
 import { WebSocketServer } from 'ws';
 
 // Add stealth plugin to puppeteer
@@ -19,7 +37,34 @@ interface AdvancedScrapingOptions {
   waitForSelector?: string;
   waitForNetworkIdle?: boolean;
   scrollToBottom?: boolean;
-  captureScreenshots?: boolean;
+  actions?: BrowserAction[]; // Run in order on every page, after the waits above and before scrolling
+  captureScreenshots?: boolean; // Keep page and item screenshots and the HTML of every page, linked to the rows
+  pagination?: PaginationConfig;
+  extraction?: ExtractionSchema;
+  table?: TableConfig;
+  structuredData?: boolean;
+  recordTraffic?: boolean;
+  replayRunId?: string; // Serve the pages from this run's recorded traffic instead of the network
+  trigger?: 'manual' | 'schedule';
+  cache?: CachePolicy; // For the static render mode; browsers keep their own cache
+  http?: HttpSettings; // User agent, headers and cookies apply to browsers too
+  proxy?: ProxySettings;
+}
+
+// Counters for the task run in progress, updated by the render-mode specific scrapers
+interface RunContext {
+  runId: string;
+  pagesVisited: number;
+  signal: AbortSignal; // Fires when the task is stopped
+  robots: Pick<RobotsGate, 'allow'>;
+  replayHar?: string; // HAR file that answers the browser's requests in a replay
+  task?: ScrapingTask;
+  session?: StorageState; // State of the task's login, for tasks with a login recipe
+  reloggedIn: boolean; // A run logs in again at most once, so rejected credentials fail it instead of looping
+  cacheStats?: CacheStats; // Set by the static render mode, the only one fetching through the HTTP cache
+  fetchStats?: FetchStats; // Likewise
+  proxies?: ProxyRotation; // The static render mode picks a proxy for every request
+  browserProxy?: ProxyServer; // Browsers keep one proxy for the whole run, login included
 }
 
 interface WebsiteStructure {
@@ -64,14 +109,19 @@ export class AdvancedScraperService {
   /**
    * Analyze website structure and determine optimal scraping strategy
    */
-  async analyzeWebsiteStructure(url: string): Promise<WebsiteStructure> {
+  async analyzeWebsiteStructure(url: string, signal?: AbortSignal, session?: StorageState, replayHar?: string, proxy?: ProxyServer): Promise<WebsiteStructure> {
     console.log(`Analyzing website structure for: ${url}`);
     
     try {
       const browser = await chromium.launch({ headless: true });
+      const detachAbort = closeOnAbort(signal, browser);
       const context = await browser.newContext({
-        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+        userAgent: DEFAULT_USER_AGENT,
+        storageState: session,
+        proxy: proxy && playwrightProxy(proxy)
       });
+      await guardPlaywright(context);
+      if (replayHar) await context.routeFromHAR(replayHar, { notFound: 'abort' });
       const page = await context.newPage();
       
       await page.goto(url, { waitUntil: 'networkidle' });
@@ -179,6 +229,7 @@ export class AdvancedScraperService {
         };
       });
 
+      detachAbort();
       await browser.close();
       return structure;
       
@@ -205,12 +256,15 @@ export class AdvancedScraperService {
   /**
    * Generate intelligent selectors based on page structure
    */
-  async generateIntelligentSelectors(url: string): Promise<any> {
+  async generateIntelligentSelectors(url: string, signal?: AbortSignal, session?: StorageState, replayHar?: string, proxy?: ProxyServer): Promise<any> {
     console.log('Generating intelligent selectors...');
     
     try {
       const browser = await chromium.launch({ headless: true });
-      const page = await browser.newPage();
+      const detachAbort = closeOnAbort(signal, browser);
+      const page = await browser.newPage({ storageState: session, proxy: proxy && playwrightProxy(proxy) });
+      await guardPlaywright(page);
+      if (replayHar) await page.routeFromHAR(replayHar, { notFound: 'abort' });
       await page.goto(url, { waitUntil: 'networkidle' });
 
       const selectors = await page.evaluate(() => {
@@ -302,6 +356,7 @@ export class AdvancedScraperService {
         };
       });
 
+      detachAbort();
       await browser.close();
       return selectors;
       
@@ -321,16 +376,267 @@ export class AdvancedScraperService {
     }
   }
 
+  /**
+   * Log in with the task's login recipe and saved credentials, and save the
+   * resulting cookies and local storage for later runs of any render mode
+   */
+  async login(task: ScrapingTask, signal?: AbortSignal, proxy?: ProxyServer): Promise<StorageState> {
+    const recipe = task.login;
+    if (!recipe) throw new LoginError('The task has no login recipe');
+    const credentials = await loadCredentials(task);
+    if (!credentials) throw new LoginError('The task has a login recipe but no saved credentials');
+
+    const browser = await chromium.launch({ headless: true });
+    const detachAbort = closeOnAbort(signal, browser);
+    try {
+      const context = await browser.newContext({
+        userAgent: task.http?.userAgent ?? DEFAULT_USER_AGENT,
+        extraHTTPHeaders: task.http?.headers,
+        proxy: proxy && playwrightProxy(proxy)
+      });
+      await guardPlaywright(context);
+      const page = await context.newPage();
+
+      await page.goto(recipe.formUrl, { waitUntil: 'networkidle', timeout: 30000 });
+      await page.fill(recipe.usernameSelector, credentials.username);
+      await page.fill(recipe.passwordSelector, credentials.password);
+      for (const [selector, value] of Object.entries(recipe.extraFields)) {
+        await page.fill(selector, value);
+      }
+      if (recipe.submitSelector) {
+        await page.click(recipe.submitSelector);
+      } else {
+        await page.press(recipe.passwordSelector, 'Enter');
+      }
+      await this.waitForLogin(page, recipe);
+
+      const state = await context.storageState();
+      await saveStorageState(task, state);
+      await storage.createTaskLog({
+        taskId: task.id!,
+        level: 'info',
+        message: 'Logged in',
+        metadata: { formUrl: recipe.formUrl, url: page.url() },
+        createdAt: new Date()
+      });
+      return state;
+    } finally {
+      detachAbort();
+      if (!signal?.aborted) await browser.close();
+    }
+  }
+
+  // Success is the recipe's success marker or URL; without either, the password field going away
+  private async waitForLogin(page: Page, recipe: LoginRecipe): Promise<void> {
+    const timeout = 15000;
+    const outcomes: Promise<'success' | 'failure'>[] = [];
+    if (recipe.successSelector) {
+      outcomes.push(page.waitForSelector(recipe.successSelector, { timeout }).then(() => 'success' as const));
+    }
+    if (recipe.successUrlPattern) {
+      const successUrlPattern = recipe.successUrlPattern;
+      outcomes.push(page.waitForURL(url => testPattern(successUrlPattern, url.href), { timeout }).then(() => 'success' as const));
+    }
+    if (!recipe.successSelector && !recipe.successUrlPattern) {
+      outcomes.push(page.waitForSelector(recipe.passwordSelector, { state: 'hidden', timeout }).then(() => 'success' as const));
+    }
+    if (recipe.failureSelector) {
+      outcomes.push(page.waitForSelector(recipe.failureSelector, { timeout }).then(() => 'failure' as const));
+    }
+
+    let outcome: 'success' | 'failure';
+    try {
+      outcome = await Promise.any(outcomes);
+    } catch {
+      throw new LoginError(`Login did not succeed within ${timeout / 1000} seconds`);
+    }
+    if (outcome === 'failure') {
+      const message = (await page.textContent(recipe.failureSelector!))?.trim();
+      throw new LoginError(`Login rejected${message ? `: ${message}` : ''}`);
+    }
+    await page.waitForLoadState('networkidle').catch(() => {
+      // Pages that keep polling never go idle; the login itself already succeeded
+    });
+  }
+
+  // Log in again after the site served its login form instead of the page
+  private async renewSession(taskId: string, runContext: RunContext): Promise<StorageState> {
+    if (runContext.reloggedIn) {
+      throw new LoginError('The site still shows its login form after logging in again');
+    }
+    runContext.reloggedIn = true;
+    await storage.createTaskLog({
+      taskId,
+      level: 'warning',
+      message: 'Session expired, logging in again',
+      metadata: { runId: runContext.runId },
+      createdAt: new Date()
+    });
+    runContext.session = await this.login(runContext.task!, runContext.signal, runContext.browserProxy);
+    return runContext.session;
+  }
+
+  // Score the run's browser proxy on a page it loaded; a blocked proxy fails the run, as the browser cannot switch to another
+  private async checkBrowserProxy(runContext: RunContext, status: number | undefined, html: string): Promise<void> {
+    const proxy = runContext.browserProxy;
+    if (!proxy) return;
+    const outcome = proxyOutcome(status, html);
+    await proxyPool.report(proxy, outcome);
+    if (outcome === 'banned') throw new ProxyBannedError(proxy);
+  }
+
+  // Run the task's action script on the current page; failed steps are logged with a screenshot of the page
+  private async runActions(taskId: string, driver: ActionDriver, actions: BrowserAction[], url: string, runContext: RunContext): Promise<void> {
+    await runBrowserActions(driver, actions, {
+      signal: runContext.signal,
+      onFailure: async ({ index, action, error, screenshot }) => {
+        const snapshot = screenshot
+          ? await saveSnapshot({ taskId, runId: runContext.runId, kind: 'action', url, contentType: 'image/jpeg' }, screenshot)
+          : undefined;
+        await storage.createTaskLog({
+          taskId,
+          level: action.optional ? 'warning' : 'error',
+          message: `Browser action ${index + 1} (${action.type}) failed${action.optional ? ', skipping it' : ''}: ${error.message}`,
+          metadata: { runId: runContext.runId, step: index + 1, action, snapshotIds: snapshot && [snapshot.id] },
+          createdAt: new Date()
+        });
+      }
+    });
+  }
+
+  /**
+   * Snapshot a scraped page for tasks that capture screenshots, and return the
+   * snapshot ids to link to each item's row. Items are matched to the element
+   * they were read from where that is known: heuristic items keep their
+   * container index, schema items only when no container was dropped as empty.
+   */
+  private async snapshotPage(
+    taskId: string,
+    source: SnapshotSource,
+    url: string,
+    pageNumber: number,
+    pageData: any[],
+    fromMarkup: boolean,
+    options: AdvancedScrapingOptions,
+    selectors: any,
+    runContext: RunContext
+  ): Promise<string[][] | undefined> {
+    if (!options.captureScreenshots) return undefined;
+    try {
+      let items: { selector: string; positions: number[] } | undefined;
+      const extraction = options.extraction;
+      if (!fromMarkup) {
+        items = { selector: selectors.primary, positions: pageData.map(item => item.id) };
+      } else if (extraction && source.countElements && !(extraction.itemSelector && extraction.itemSelectorType === 'xpath')) {
+        const selector = extraction.itemSelector ?? selectors.primary;
+        // Selectors only cheerio understands fail in the browser; those items go without screenshots
+        const count = await source.countElements(selector).catch(() => -1);
+        if (count === pageData.length) items = { selector, positions: pageData.map((_, index) => index) };
+      }
+
+      const { pageIds, itemIds } = await capturePage(source, { taskId, runId: runContext.runId, url, pageNumber }, items);
+      await storage.createTaskLog({
+        taskId,
+        level: 'info',
+        message: `Saved snapshots of page ${pageNumber}`,
+        metadata: { runId: runContext.runId, url, pageNumber, snapshotIds: pageIds, itemScreenshots: itemIds.filter(Boolean).length },
+        createdAt: new Date()
+      });
+      return pageData.map((_, index) => itemIds[index] ? [...pageIds, itemIds[index]!] : pageIds);
+    } catch (error) {
+      // Snapshots are there for debugging, so failing to take them does not fail the run
+      console.error(`Snapshot error for task ${taskId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Render a page and list the JSON responses its scripts fetched during
+   * loading and (optionally) scrolling
+   */
+  async captureNetwork(url: string, options: { scrollToBottom?: boolean; waitForSelector?: string } = {}, signal?: AbortSignal): Promise<CapturedEndpoint[]> {
+    const browser = await chromium.launch({ headless: true });
+    const detachAbort = closeOnAbort(signal, browser);
+    try {
+      const context = await browser.newContext({
+        userAgent: DEFAULT_USER_AGENT
+      });
+      await guardPlaywright(context);
+      const page = await context.newPage();
+      const capture = new NetworkCapture();
+      capture.attach(page);
+
+      await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+      if (options.waitForSelector) {
+        await page.waitForSelector(options.waitForSelector, { timeout: 10000 });
+      }
+      if (options.scrollToBottom) {
+        await this.autoScroll(page);
+        await page.waitForLoadState('networkidle');
+      }
+      return await capture.endpoints();
+    } finally {
+      detachAbort();
+      if (!signal?.aborted) await browser.close();
+    }
+  }
+
   /**
    * Enhanced scraping with dynamic content support
    */
   async startAdvancedScraping(taskId: string, options: AdvancedScrapingOptions): Promise<void> {
+    const run = await storage.createTaskRun({
+      taskId,
+      trigger: options.trigger ?? 'manual',
+      scraper: 'advanced',
+      status: 'running',
+      replayOf: options.replayRunId,
+      itemsScraped: 0,
+      pagesVisited: 0,
+      errorCount: 0,
+      startedAt: new Date()
+    });
+    const controller = new AbortController();
+    const task = await storage.getScrapingTask(taskId);
+    // Replays make no requests to the site and never log in; the archive holds the pages as the recorded run saw them
+    const replaying = !!options.replayRunId;
+    const runContext: RunContext = {
+      runId: run.id!,
+      pagesVisited: 0,
+      signal: controller.signal,
+      robots: replaying ? offlineRobotsGate : new RobotsGate(taskId, task?.robotsOverride, controller.signal),
+      task: replaying && task ? { ...task, login: undefined } : task,
+      reloggedIn: false
+    };
+    this.activeTasks.set(taskId, { controller });
+    let replayFile: Awaited<ReturnType<typeof createHarFile>> | undefined;
+
     try {
       await storage.updateScrapingTask(taskId, { status: 'running' });
+      if (replaying) {
+        replayFile = await createHarFile(await loadTrafficArchive(await storage.getTaskRun(options.replayRunId!)));
+        runContext.replayHar = replayFile.path;
+      } else if (task) {
+        runContext.proxies = await proxyPool.rotation(task.userId, options.proxy);
+        runContext.browserProxy = runContext.proxies?.pick(options.url, { browser: true });
+      }
+
+      // Analysis loads the task URL itself, so a disallowed task URL cannot be skipped
+      if (!(await runContext.robots.allow(options.url))) {
+        throw new Error('The task URL is disallowed by robots.txt');
+      }
+
+      // Tasks behind a login reuse the session an earlier run saved, logging in when there is none
+      if (runContext.task?.login) {
+        runContext.session = (await loadStorageState(runContext.task)) ?? await this.login(runContext.task, controller.signal, runContext.browserProxy);
+      }
       
-      // Analyze website structure first
-      const structure = await this.analyzeWebsiteStructure(options.url);
-      const intelligentSelectors = await this.generateIntelligentSelectors(options.url);
+      // Analyze website structure first (both fall back to defaults on error, so check for a stop afterwards)
+      const structure = await this.analyzeWebsiteStructure(options.url, controller.signal, runContext.session, runContext.replayHar, runContext.browserProxy);
+      throwIfCancelled(controller.signal);
+      await runContext.robots.allow(options.url); // Allowed above; this waits out any Crawl-delay
+      const intelligentSelectors = await this.generateIntelligentSelectors(options.url, controller.signal, runContext.session, runContext.replayHar, runContext.browserProxy);
+      throwIfCancelled(controller.signal);
       
       this.broadcastProgress({
         taskId,
@@ -345,9 +651,13 @@ export class AdvancedScraperService {
 
       // Choose scraping method based on analysis
       let renderMode = options.renderMode || 'dynamic';
-      if (structure.antiDetection.hasCloudflare || structure.antiDetection.hasRecaptcha) {
+      if (options.recordTraffic || replaying) {
+        // Only the Playwright path records and replays traffic
+        renderMode = 'dynamic';
+      } else if (structure.antiDetection.hasCloudflare || structure.antiDetection.hasRecaptcha) {
         renderMode = 'stealth';
-      } else if (!structure.antiDetection.requiresJavaScript) {
+      } else if (!structure.antiDetection.requiresJavaScript && !options.actions?.length && !options.captureScreenshots) {
+        // Action scripts and screenshots need a browser, even on pages that render without JavaScript
         renderMode = 'static';
       }
 
@@ -356,15 +666,29 @@ export class AdvancedScraperService {
       let scrapedData;
       switch (renderMode) {
         case 'stealth':
-          scrapedData = await this.scrapeWithStealth(taskId, options, intelligentSelectors);
+          scrapedData = await this.scrapeWithStealth(taskId, options, intelligentSelectors, runContext);
           break;
         case 'dynamic':
-          scrapedData = await this.scrapeWithPlaywright(taskId, options, intelligentSelectors, structure);
+          scrapedData = await this.scrapeWithPlaywright(taskId, options, intelligentSelectors, structure, runContext);
           break;
         default:
-          scrapedData = await this.scrapeStatic(taskId, options, intelligentSelectors);
+          scrapedData = await this.scrapeStatic(taskId, options, intelligentSelectors, runContext);
       }
 
+      await storage.updateTaskRun(run.id!, {
+        status: 'completed',
+        itemsScraped: scrapedData.length,
+        pagesVisited: runContext.pagesVisited,
+        cacheStats: runContext.cacheStats,
+        fetchStats: runContext.fetchStats,
+        finishedAt: new Date()
+      });
+
+      // A failed comparison should not fail the run itself
+      await changeDetectionService.recordRunDiff(taskId, run.id!).catch(error => {
+        console.error(`Change detection error for task ${taskId}:`, error);
+      });
+
       await storage.updateScrapingTask(taskId, { 
         status: 'completed',
         scrapedItems: scrapedData.length,
@@ -381,8 +705,42 @@ export class AdvancedScraperService {
       });
 
     } catch (error) {
+      if (controller.signal.aborted) {
+        await storage.updateTaskRun(run.id!, {
+          status: 'cancelled',
+          pagesVisited: runContext.pagesVisited,
+          finishedAt: new Date()
+        });
+        await storage.updateScrapingTask(taskId, { status: 'cancelled' });
+        await storage.createTaskLog({
+          taskId,
+          level: 'info',
+          message: 'Task cancelled by user',
+          metadata: { runId: run.id },
+          createdAt: new Date()
+        });
+
+        this.broadcastProgress({
+          taskId,
+          status: 'cancelled',
+          progress: 0,
+          message: 'Scraping cancelled'
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`Advanced scraping error for task ${taskId}:`, error);
+
+      await storage.updateTaskRun(run.id!, {
+        status: 'failed',
+        pagesVisited: runContext.pagesVisited,
+        errorCount: 1,
+        errorMessage,
+        cacheStats: runContext.cacheStats,
+        fetchStats: runContext.fetchStats,
+        finishedAt: new Date()
+      });
       
       await storage.updateScrapingTask(taskId, { 
         status: 'failed',
@@ -395,6 +753,12 @@ export class AdvancedScraperService {
         progress: 0,
         message: `Scraping failed: ${errorMessage}`
       });
+    } finally {
+      this.activeTasks.delete(taskId);
+      await replayFile?.remove();
+      await pruneSnapshots(taskId).catch(error => {
+        console.error(`Snapshot cleanup error for task ${taskId}:`, error);
+      });
     }
   }
 
@@ -405,7 +769,8 @@ export class AdvancedScraperService {
     taskId: string, 
     options: AdvancedScrapingOptions, 
     selectors: any,
-    structure: WebsiteStructure
+    structure: WebsiteStructure,
+    runContext: RunContext
   ): Promise<any[]> {
     console.log('Scraping with Playwright for dynamic content...');
     
@@ -426,25 +791,55 @@ export class AdvancedScraperService {
         });
     }
 
+    const detachAbort = closeOnAbort(runContext.signal, browser);
+    const recording = options.recordTraffic ? await createHarFile() : undefined;
+
     const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      viewport: { width: 1920, height: 1080 }
+      userAgent: options.http?.userAgent ?? DEFAULT_USER_AGENT,
+      extraHTTPHeaders: options.http?.headers,
+      viewport: { width: 1920, height: 1080 },
+      storageState: runContext.session,
+      recordHar: recording && { path: recording.path, content: 'embed' },
+      proxy: runContext.browserProxy && playwrightProxy(runContext.browserProxy)
     });
+    await context.addCookies(browserCookies(options.http, options.url));
+    await guardPlaywright(context);
+    if (runContext.replayHar) await context.routeFromHAR(runContext.replayHar, { notFound: 'abort' });
 
     const page = await context.newPage();
+    const capture = new NetworkCapture();
+    capture.attach(page);
     const allData: any[] = [];
     let currentPage = 1;
     const maxPages = options.maxPages || 3;
+    let nextUrl: string | undefined = getFirstPageUrl(options.url, options.pagination);
+    const visited = new Set<string>();
+    let lastPageHash: string | undefined;
 
     try {
-      while (currentPage <= maxPages) {
-        const currentUrl = options.url + (currentPage > 1 ? `/page/${currentPage}/` : '');
+      while (nextUrl && currentPage <= maxPages) {
+        throwIfCancelled(runContext.signal);
+        const currentUrl: string = nextUrl;
+        visited.add(normalizePageUrl(currentUrl));
+        if (!(await runContext.robots.allow(currentUrl))) break;
         console.log(`Scraping page ${currentPage}: ${currentUrl}`);
         
-        await page.goto(currentUrl, { 
+        const response = await page.goto(currentUrl, { 
           waitUntil: 'networkidle',
           timeout: 30000
         });
+        runContext.pagesVisited++;
+        await this.checkBrowserProxy(runContext, response?.status(), await page.content());
+
+        const login = runContext.task?.login;
+        if (login && looksLoggedOut(await page.content(), login, page.url())) {
+          const session = await this.renewSession(taskId, runContext);
+          await context.addCookies(session.cookies);
+          await page.goto(currentUrl, { waitUntil: 'networkidle', timeout: 30000 });
+          if (looksLoggedOut(await page.content(), login, page.url())) {
+            throw new LoginError('The site still shows its login form after logging in again');
+          }
+        }
 
         // Wait for content to load
         if (options.waitForSelector) {
@@ -455,13 +850,20 @@ export class AdvancedScraperService {
           await page.waitForLoadState('networkidle');
         }
 
+        if (options.actions?.length) {
+          await this.runActions(taskId, playwrightDriver(page), options.actions, currentUrl, runContext);
+        }
+
         // Scroll to bottom if needed for infinite scroll
         if (options.scrollToBottom || structure.hasInfiniteScroll) {
           await this.autoScroll(page);
         }
 
-        // Extract data
-        const pageData = await page.evaluate((sels) => {
+        // Extract data; schemas, tables and structured data are read from the rendered markup with the same code as static runs
+        const markupItems = options.extraction || options.table || options.structuredData
+          ? this.extractFromMarkup(options, cheerio.load(await page.content()), selectors.primary, page.url())
+          : undefined;
+        const pageData: any[] = markupItems ?? await page.evaluate((sels) => {
           const extractText = (element: Element | null, selectors: string[]) => {
             if (!element) return '';
             for (const selector of selectors) {
@@ -500,12 +902,12 @@ export class AdvancedScraperService {
 
             // Only add items with meaningful content
             if (item.title || item.price || item.description) {
-              // Fix relative URLs
-              if (item.link && item.link.startsWith('/')) {
-                item.link = new URL(item.link, window.location.origin).href;
+              // Fix relative URLs (baseURI honours <base href>)
+              if (item.link) {
+                item.link = new URL(item.link, document.baseURI).href;
               }
-              if (item.image && item.image.startsWith('/')) {
-                item.image = new URL(item.image, window.location.origin).href;
+              if (item.image) {
+                item.image = new URL(item.image, document.baseURI).href;
               }
               data.push(item);
             }
@@ -514,12 +916,24 @@ export class AdvancedScraperService {
           return data;
         }, selectors);
 
+        // Taken before the checks below, so a page where the selectors found nothing is kept too
+        const snapshotIds = await this.snapshotPage(taskId, playwrightSource(page), currentUrl, currentPage, pageData, !!markupItems, options, selectors, runContext);
+
+        // Stop on empty results or when the site serves the same page again
+        const pageHash = fingerprintPage(pageData.map(item => markupItems
+          ? JSON.stringify(item)
+          : `${item.title}|${item.link}|${item.price}`));
+        if (pageData.length === 0 || pageHash === lastPageHash) break;
+        lastPageHash = pageHash;
+
         // Store scraped data
-        for (const item of pageData) {
+        for (let index = 0; index < pageData.length; index++) {
           await storage.createScrapedData({
             taskId,
-            data: item,
+            runId: runContext.runId,
+            data: pageData[index],
             url: currentUrl,
+            ...(snapshotIds && { snapshotIds: snapshotIds[index] }),
             scrapedAt: new Date()
           });
         }
@@ -536,20 +950,38 @@ export class AdvancedScraperService {
           message: `Page ${currentPage}: Found ${pageData.length} items`
         });
 
-        // Check for next page
-        const hasNextPage = await page.evaluate(() => {
-          const nextLinks = document.querySelectorAll('.next, .pagination .next, [class*="next"]');
-          return nextLinks.length > 0;
-        });
-
-        if (!hasNextPage) break;
+        // Find the next page in the rendered markup
+        nextUrl = findNextPageUrl(
+          cheerio.load(await page.content()),
+          { url: page.url(), pageNumber: currentPage, itemCount: pageData.length },
+          options.pagination
+        );
+        if (!nextUrl || visited.has(normalizePageUrl(nextUrl))) break;
         
         currentPage++;
-        await page.waitForTimeout(options.delay || 2000);
+        await page.waitForTimeout(runContext.replayHar ? 0 : options.delay || 2000);
       }
 
+      // Offered to the user as API sources that skip rendering on later runs
+      const endpoints = await capture.endpoints();
+      if (endpoints.length > 0) {
+        await storage.updateScrapingTask(taskId, { capturedEndpoints: endpoints });
+      }
     } finally {
-      await browser.close();
+      detachAbort();
+      // A stopped task's browser is already being closed
+      if (!runContext.signal.aborted) {
+        await context.close(); // Writes the recording
+        await browser.close();
+        // Failed runs keep their recording too; they are the ones worth replaying
+        if (recording) {
+          await recording.read()
+            .then(har => saveTrafficArchive(taskId, runContext.runId, har))
+            .then(trafficArchive => storage.updateTaskRun(runContext.runId, { trafficArchive }))
+            .catch(error => console.error(`Traffic archive error for task ${taskId}:`, error));
+        }
+      }
+      await recording?.remove();
     }
 
     return allData;
@@ -558,7 +990,7 @@ export class AdvancedScraperService {
   /**
    * Scrape with stealth mode using Puppeteer
    */
-  private async scrapeWithStealth(taskId: string, options: AdvancedScrapingOptions, selectors: any): Promise<any[]> {
+  private async scrapeWithStealth(taskId: string, options: AdvancedScrapingOptions, selectors: any, runContext: RunContext): Promise<any[]> {
     console.log('Scraping with stealth mode...');
     
     const browser = await puppeteer.launch({
@@ -569,10 +1001,12 @@ export class AdvancedScraperService {
         '--disable-accelerated-2d-canvas',
         '--no-first-run',
         '--no-zygote',
-        '--disable-gpu'
+        '--disable-gpu',
+        ...(runContext.browserProxy ? [puppeteerProxyArg(runContext.browserProxy)] : [])
       ],
       headless: true
     });
+    const detachAbort = closeOnAbort(runContext.signal, browser);
 
     const page = await browser.newPage();
     const allData: any[] = [];
@@ -580,7 +1014,10 @@ export class AdvancedScraperService {
     try {
       // Set realistic viewport and user agent
       await page.setViewport({ width: 1366, height: 768 });
-      await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+      await page.setUserAgent(options.http?.userAgent ?? DEFAULT_USER_AGENT);
+      if (runContext.browserProxy) await page.authenticate(puppeteerProxyCredentials(runContext.browserProxy));
+      await guardPuppeteer(page);
+      await runContext.robots.allow(options.url);
 
       // Add realistic headers
       await page.setExtraHTTPHeaders({
@@ -589,18 +1026,43 @@ export class AdvancedScraperService {
         'Accept-Encoding': 'gzip, deflate, br',
         'Connection': 'keep-alive',
         'Upgrade-Insecure-Requests': '1',
+        ...options.http?.headers,
       });
 
-      await page.goto(options.url, { 
+      await page.setCookie(...browserCookies(options.http, options.url));
+      if (runContext.session) {
+        await page.setCookie(...runContext.session.cookies);
+      }
+
+      const response = await page.goto(options.url, { 
         waitUntil: 'networkidle2',
         timeout: 30000
       });
+      runContext.pagesVisited++;
+      await this.checkBrowserProxy(runContext, response?.status(), await page.content());
+
+      const login = runContext.task?.login;
+      if (login && looksLoggedOut(await page.content(), login, page.url())) {
+        const session = await this.renewSession(taskId, runContext);
+        await page.setCookie(...session.cookies);
+        await page.goto(options.url, { waitUntil: 'networkidle2', timeout: 30000 });
+        if (looksLoggedOut(await page.content(), login, page.url())) {
+          throw new LoginError('The site still shows its login form after logging in again');
+        }
+      }
+
+      if (options.actions?.length) {
+        await this.runActions(taskId, puppeteerDriver(page), options.actions, options.url, runContext);
+      }
 
       // Human-like delay
-      await new Promise(resolve => setTimeout(resolve, Math.random() * 3000 + 2000));
+      await delay(Math.random() * 3000 + 2000, runContext.signal);
 
       // Extract data using the same logic but with Puppeteer
-      const pageData = await page.evaluate((sels) => {
+      const markupItems = options.extraction || options.table || options.structuredData
+        ? this.extractFromMarkup(options, cheerio.load(await page.content()), selectors.primary, page.url())
+        : undefined;
+      const pageData: any[] = markupItems ?? await page.evaluate((sels) => {
         // Same extraction logic as Playwright version
         const extractText = (element: Element | null, selectors: string[]) => {
           if (!element) return '';
@@ -639,11 +1101,11 @@ export class AdvancedScraperService {
           };
 
           if (item.title || item.price || item.description) {
-            if (item.link && item.link.startsWith('/')) {
-              item.link = new URL(item.link, window.location.origin).href;
+            if (item.link) {
+              item.link = new URL(item.link, document.baseURI).href;
             }
-            if (item.image && item.image.startsWith('/')) {
-              item.image = new URL(item.image, window.location.origin).href;
+            if (item.image) {
+              item.image = new URL(item.image, document.baseURI).href;
             }
             data.push(item);
           }
@@ -652,12 +1114,16 @@ export class AdvancedScraperService {
         return data;
       }, selectors);
 
+      const snapshotIds = await this.snapshotPage(taskId, puppeteerSource(page), options.url, 1, pageData, !!markupItems, options, selectors, runContext);
+
       // Store data
-      for (const item of pageData) {
+      for (let index = 0; index < pageData.length; index++) {
         await storage.createScrapedData({
           taskId,
-          data: item,
+          runId: runContext.runId,
+          data: pageData[index],
           url: options.url,
+          ...(snapshotIds && { snapshotIds: snapshotIds[index] }),
           scrapedAt: new Date()
         });
       }
@@ -665,7 +1131,8 @@ export class AdvancedScraperService {
       allData.push(...pageData);
 
     } finally {
-      await browser.close();
+      detachAbort();
+      if (!runContext.signal.aborted) await browser.close();
     }
 
     return allData;
@@ -674,45 +1141,75 @@ export class AdvancedScraperService {
   /**
    * Static scraping fallback
    */
-  private async scrapeStatic(taskId: string, options: AdvancedScrapingOptions, selectors: any): Promise<any[]> {
+  private async scrapeStatic(taskId: string, options: AdvancedScrapingOptions, selectors: any, runContext: RunContext): Promise<any[]> {
     console.log('Using static scraping method...');
+    await runContext.robots.allow(options.url);
+    runContext.cacheStats = emptyCacheStats();
+    runContext.fetchStats = emptyFetchStats();
+    const fetcher = httpCache.fetcher(
+      options.cache,
+      runContext.cacheStats,
+      runContext.proxies ? proxyPool.fetcher(runContext.proxies) : safeFetch,
+      options.http?.maxBodySize
+    );
     
-    const response = await fetch(options.url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Connection': 'keep-alive',
+    const fetchHtml = async () => {
+      const cookies = runContext.session && cookieHeader(runContext.session, options.url);
+      const page = await fetchText(options.url, {
+        settings: options.http,
+        sessionCookies: cookies || undefined,
+        init: { signal: runContext.signal },
+        fetcher
+      });
+      runContext.pagesVisited++;
+      countFetch(runContext.fetchStats!, page.bytes, page.timing.total);
+      return { html: page.text, url: page.url };
+    };
+
+    let { html, url } = await fetchHtml();
+    const login = runContext.task?.login;
+    if (login && looksLoggedOut(html, login, url)) {
+      await this.renewSession(taskId, runContext);
+      ({ html, url } = await fetchHtml());
+      if (looksLoggedOut(html, login, url)) {
+        throw new LoginError('The site still shows its login form after logging in again');
       }
-    });
-
-    const html = await response.text();
+    }
     const $ = cheerio.load(html);
-    const allData: any[] = [];
+    let allData: any[] = [];
+
+    const markupItems = this.extractFromMarkup(options, $, selectors.primary, options.url);
+    if (markupItems) {
+      allData = markupItems;
+    } else {
+      $(selectors.primary).each((index, element) => {
+        const $el = $(element);
+        const item: any = {
+          id: index,
+          title: this.extractFieldData($, $el, selectors.fields.title),
+          price: this.extractFieldData($, $el, selectors.fields.price),
+          description: this.extractFieldData($, $el, selectors.fields.description),
+          link: this.extractFieldAttribute($, $el, selectors.fields.link, 'href'),
+          image: this.extractFieldAttribute($, $el, selectors.fields.image, 'src'),
+          scrapedAt: new Date().toISOString()
+        };
 
-    $(selectors.primary).each((index, element) => {
-      const $el = $(element);
-      const item: any = {
-        id: index,
-        title: this.extractFieldData($, $el, selectors.fields.title),
-        price: this.extractFieldData($, $el, selectors.fields.price),
-        description: this.extractFieldData($, $el, selectors.fields.description),
-        link: this.extractFieldAttribute($, $el, selectors.fields.link, 'href'),
-        image: this.extractFieldAttribute($, $el, selectors.fields.image, 'src'),
-        scrapedAt: new Date().toISOString()
-      };
+        if (item.title || item.price || item.description) {
+          allData.push(item);
+        }
+      });
+    }
 
-      if (item.title || item.price || item.description) {
-        allData.push(item);
-      }
-    });
+    const snapshotIds = await this.snapshotPage(taskId, htmlSource(html), options.url, 1, allData, !!markupItems, options, selectors, runContext);
 
     // Store data
-    for (const item of allData) {
+    for (let index = 0; index < allData.length; index++) {
       await storage.createScrapedData({
         taskId,
-        data: item,
+        runId: runContext.runId,
+        data: allData[index],
         url: options.url,
+        ...(snapshotIds && { snapshotIds: snapshotIds[index] }),
         scrapedAt: new Date()
       });
     }
@@ -720,6 +1217,17 @@ export class AdvancedScraperService {
     return allData;
   }
 
+  // Items from the task's extraction schema, its table rows, or structured data on pages that have it; undefined leaves it to the heuristics
+  private extractFromMarkup(options: AdvancedScrapingOptions, $: cheerio.CheerioAPI, itemSelector: string, pageUrl: string): any[] | undefined {
+    if (options.extraction) return extractItems($, options.extraction, itemSelector, pageUrl);
+    if (options.table) return extractTableRecords($, options.table);
+    if (options.structuredData) {
+      const items = extractStructuredItems($, pageUrl);
+      if (items.length > 0) return items;
+    }
+    return undefined;
+  }
+
   private extractFieldData($: cheerio.CheerioAPI, $element: cheerio.Cheerio<any>, selectors: string[]): string {
     for (const selector of selectors) {
       const text = $element.find(selector).first().text().trim();
@@ -762,15 +1270,20 @@ export class AdvancedScraperService {
     });
   }
 
-  async stopTask(taskId: string): Promise<void> {
+  /**
+   * Abort a running task, closing its browser. The task records its own
+   * cancellation. Returns false when the task is not running.
+   */
+  isRunning(taskId: string): boolean {
+    return this.activeTasks.has(taskId);
+  }
+
+  async stopTask(taskId: string): Promise<boolean> {
     const task = this.activeTasks.get(taskId);
-    if (task) {
-      this.activeTasks.delete(taskId);
-      await storage.updateScrapingTask(taskId, { 
-        status: 'failed', 
-        errorMessage: 'Task stopped by user' 
-      });
-    }
+    if (!task) return false;
+
+    task.controller.abort();
+    return true;
   }
 }
 
@@ -0,0 +1,85 @@
+import { apiSourceSchema, type ApiSource } from '@shared/schema';
+import { compileJsonPath, evaluateJsonPath, JsonPathSyntaxError } from './jsonpath';
+import { resolveUrl } from './transforms';
+
+export class ApiSourceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiSourceValidationError';
+  }
+}
+
+function checkPath(path: string, label: string) {
+  try {
+    compileJsonPath(path);
+  } catch (error) {
+    const reason = error instanceof JsonPathSyntaxError ? error.message : path;
+    throw new ApiSourceValidationError(`Invalid JSONPath for ${label}: ${reason}`);
+  }
+}
+
+// Validate a user-supplied API source
+export function buildApiSource(input: unknown): ApiSource {
+  const parsed = apiSourceSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ApiSourceValidationError(`Invalid API source setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const source = parsed.data;
+  checkPath(source.itemsPath, 'the items');
+  if (source.nextPath) checkPath(source.nextPath, 'the next page');
+  if (source.cursorParam && !source.nextPath) {
+    throw new ApiSourceValidationError('A cursor parameter needs a nextPath to read the cursor from');
+  }
+  if (source.body !== undefined && source.method !== 'POST') {
+    throw new ApiSourceValidationError('A request body can only be sent with the POST method');
+  }
+  return source;
+}
+
+// Headers and body for requesting a page of the API
+export function apiRequestInit(source: ApiSource): RequestInit {
+  return {
+    method: source.method,
+    headers: { Accept: 'application/json', ...source.headers },
+    body: source.method === 'POST' ? source.body : undefined,
+  };
+}
+
+export function parseApiResponse(content: string, url: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`The API response from ${url} is not JSON`);
+  }
+}
+
+/**
+ * The items at the source's items path. A path ending at an array yields its
+ * elements, and values that are not objects are wrapped as { value }.
+ */
+export function extractApiItems(document: unknown, source: ApiSource): Record<string, unknown>[] {
+  const matches = evaluateJsonPath(source.itemsPath, document);
+  const items = matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+  return items
+    .filter(item => item !== null && item !== undefined)
+    .map(item => typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : { value: item });
+}
+
+/**
+ * Next page from the response's next link or cursor, or undefined on the last
+ * page (a missing, null or empty value).
+ */
+export function nextApiPageUrl(document: unknown, source: ApiSource, currentUrl: string): string | undefined {
+  if (!source.nextPath) return undefined;
+  const value = evaluateJsonPath(source.nextPath, document)[0];
+  if (value === undefined || value === null || value === '' || value === false) return undefined;
+
+  if (source.cursorParam) {
+    const url = new URL(currentUrl);
+    url.searchParams.set(source.cursorParam, String(value));
+    return url.href;
+  }
+  return typeof value === 'string' ? resolveUrl(value, currentUrl) : undefined;
+}
@@ -0,0 +1,150 @@
+import * as cheerio from 'cheerio';
+import type { BrowserContext } from 'playwright';
+import { loginRecipeSchema, type LoginRecipe, type ScrapingTask } from '@shared/schema';
+import { storage } from '../storage';
+import { decryptForUser, encryptForUser, SecretDecryptionError } from './secrets';
+import { isValidPattern } from './patterns';
+
+export class LoginValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoginValidationError';
+  }
+}
+
+// A login that could not be completed, or a site that still asks for one after logging in
+export class LoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoginError';
+  }
+}
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+// Cookies and local storage of a logged-in browser, as Playwright saves them
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+const RECIPE_SELECTORS = ['usernameSelector', 'passwordSelector', 'submitSelector', 'successSelector', 'failureSelector', 'loggedOutSelector'] as const;
+
+function checkSelector(selector: string, label: string) {
+  try {
+    cheerio.load('')(selector);
+  } catch {
+    throw new LoginValidationError(`Invalid CSS selector for ${label}: ${selector}`);
+  }
+}
+
+// Validate a user-supplied login recipe
+export function buildLoginRecipe(input: unknown): LoginRecipe {
+  const parsed = loginRecipeSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new LoginValidationError(`Invalid login setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const recipe = parsed.data;
+  for (const key of RECIPE_SELECTORS) {
+    if (recipe[key]) checkSelector(recipe[key]!, key);
+  }
+  for (const selector of Object.keys(recipe.extraFields)) checkSelector(selector, 'extraFields');
+  if (recipe.successUrlPattern && !isValidPattern(recipe.successUrlPattern)) {
+    throw new LoginValidationError(`Invalid regex for successUrlPattern: ${recipe.successUrlPattern}`);
+  }
+  return recipe;
+}
+
+export function buildCredentials(input: any): LoginCredentials {
+  if (typeof input?.username !== 'string' || typeof input?.password !== 'string' || !input.username || !input.password) {
+    throw new LoginValidationError('Login credentials need a username and a password');
+  }
+  return { username: input.username, password: input.password };
+}
+
+// New credentials belong to a (possibly) different account, so the saved browser state is dropped
+export async function saveCredentials(task: ScrapingTask, credentials: LoginCredentials): Promise<void> {
+  await storage.saveTaskSession({
+    taskId: task.id!,
+    userId: task.userId,
+    credentials: encryptForUser(task.userId, JSON.stringify(credentials)),
+    updatedAt: new Date()
+  });
+}
+
+export async function loadCredentials(task: ScrapingTask): Promise<LoginCredentials | undefined> {
+  const session = await storage.getTaskSession(task.id!);
+  if (!session?.credentials) return undefined;
+  try {
+    return JSON.parse(decryptForUser(task.userId, session.credentials));
+  } catch (error) {
+    if (error instanceof SecretDecryptionError) throw new LoginError(`Saved credentials are unreadable: ${error.message}`);
+    throw error;
+  }
+}
+
+// The state of the task's last login; an unreadable one counts as none, which leads to a fresh login
+export async function loadStorageState(task: ScrapingTask): Promise<StorageState | undefined> {
+  const session = await storage.getTaskSession(task.id!);
+  if (!session?.storageState) return undefined;
+  try {
+    return JSON.parse(decryptForUser(task.userId, session.storageState));
+  } catch (error) {
+    console.warn(`Discarding the saved session of task ${task.id}:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+export async function saveStorageState(task: ScrapingTask, state: StorageState): Promise<void> {
+  const session = await storage.getTaskSession(task.id!);
+  await storage.saveTaskSession({
+    ...session,
+    taskId: task.id!,
+    userId: task.userId,
+    storageState: encryptForUser(task.userId, JSON.stringify(state)),
+    loggedInAt: new Date(),
+    updatedAt: new Date()
+  });
+}
+
+// What is saved for a task, without any of the secrets
+export async function getSessionStatus(task: ScrapingTask) {
+  const session = await storage.getTaskSession(task.id!);
+  return {
+    hasCredentials: !!session?.credentials,
+    hasSession: !!session?.storageState,
+    loggedInAt: session?.loggedInAt ?? null
+  };
+}
+
+// Cookie header a browser with this state would send to the URL
+export function cookieHeader(state: StorageState, url: string): string | undefined {
+  const target = new URL(url);
+  const now = Date.now() / 1000;
+  const cookies = state.cookies.filter(cookie => {
+    const domain = cookie.domain.replace(/^\./, '');
+    const domainMatches = cookie.domain.startsWith('.')
+      ? target.hostname === domain || target.hostname.endsWith(`.${domain}`)
+      : target.hostname === domain;
+    return domainMatches
+      && target.pathname.startsWith(cookie.path || '/')
+      && (!cookie.secure || target.protocol === 'https:' || target.hostname === 'localhost')
+      && (cookie.expires === -1 || cookie.expires > now);
+  });
+  return cookies.length > 0 ? cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+}
+
+/**
+ * Whether a page was served to a logged-out visitor: it is the login form
+ * itself, or it shows the recipe's logged-out marker (the password field by default).
+ */
+export function looksLoggedOut(html: string, recipe: LoginRecipe, pageUrl?: string): boolean {
+  if (pageUrl) {
+    const page = new URL(pageUrl);
+    const form = new URL(recipe.formUrl);
+    if (page.origin === form.origin && page.pathname === form.pathname) return true;
+  }
+  return cheerio.load(html)(recipe.loggedOutSelector ?? recipe.passwordSelector).length > 0;
+}
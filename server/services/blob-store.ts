@@ -0,0 +1,49 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Keys are slash-separated names such as "<taskId>/<runId>/<file>"
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/;
+
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob ${key} not found`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+/**
+ * Files on the local disk under BLOB_STORE_DIR (./data/blobs by default), for
+ * content too large to keep in the database such as screenshots and page HTML.
+ */
+export class LocalBlobStore {
+  constructor(private readonly root = path.resolve(process.env.BLOB_STORE_DIR || path.join('data', 'blobs'))) {}
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key) || key.split('/').some(part => part === '..' || part === '.')) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, data: Buffer | string): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  // Remove a blob, or every blob under a key prefix such as "<taskId>"
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { recursive: true, force: true });
+  }
+}
+
+export const blobStore = new LocalBlobStore();
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import type { Page as PlaywrightPage } from 'playwright';
+import type { KeyInput, Page as PuppeteerPage } from 'puppeteer';
+import { browserActionSchema, type BrowserAction } from '@shared/schema';
+import { delay, throwIfCancelled } from './cancellation';
+
+const DEFAULT_TIMEOUT = 10000;
+
+export class ActionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActionValidationError';
+  }
+}
+
+// A required step that failed; the run stops with it
+export class BrowserActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrowserActionError';
+  }
+}
+
+// Validate a user-supplied action list
+export function buildBrowserActions(input: unknown): BrowserAction[] {
+  const parsed = z.array(browserActionSchema).max(50).safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ActionValidationError(`Invalid browser action setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+type WaitState = 'visible' | 'attached' | 'hidden' | 'detached';
+
+// What the actions need from a page, so Playwright and Puppeteer pages run the same script
+export interface ActionDriver {
+  click(selector: string, timeout: number): Promise<void>;
+  fill(selector: string, value: string, timeout: number): Promise<void>;
+  select(selector: string, value: string, timeout: number): Promise<void>;
+  press(key: string, selector: string | undefined, timeout: number): Promise<void>;
+  waitFor(selector: string, state: WaitState, timeout: number): Promise<void>;
+  waitForNetworkIdle(timeout: number): Promise<void>;
+  evaluate<T>(fn: () => T): Promise<T>;
+  screenshot(): Promise<Buffer>;
+}
+
+export function playwrightDriver(page: PlaywrightPage): ActionDriver {
+  return {
+    click: async (selector, timeout) => { await page.click(selector, { timeout }); },
+    fill: async (selector, value, timeout) => { await page.fill(selector, value, { timeout }); },
+    // Plain strings match an option's value or its label
+    select: async (selector, value, timeout) => { await page.selectOption(selector, value, { timeout }); },
+    press: async (key, selector, timeout) => {
+      if (selector) await page.press(selector, key, { timeout });
+      else await page.keyboard.press(key);
+    },
+    waitFor: async (selector, state, timeout) => { await page.waitForSelector(selector, { state, timeout }); },
+    waitForNetworkIdle: async (timeout) => { await page.waitForLoadState('networkidle', { timeout }); },
+    evaluate: (fn) => page.evaluate(fn),
+    screenshot: () => page.screenshot({ type: 'jpeg', quality: 60 }),
+  };
+}
+
+export function puppeteerDriver(page: PuppeteerPage): ActionDriver {
+  return {
+    click: async (selector, timeout) => {
+      await page.waitForSelector(selector, { visible: true, timeout });
+      await page.click(selector);
+    },
+    fill: async (selector, value, timeout) => {
+      await page.waitForSelector(selector, { visible: true, timeout });
+      await page.$eval(selector, element => { (element as HTMLInputElement).value = ''; });
+      await page.type(selector, value);
+    },
+    select: async (selector, value, timeout) => {
+      await page.waitForSelector(selector, { timeout });
+      // page.select() only matches values, so a label is turned into its option's value first
+      const optionValue = await page.$eval(selector, (element, wanted) => {
+        const options = Array.from((element as HTMLSelectElement).options);
+        return (options.find(option => option.value === wanted) ?? options.find(option => option.label.trim() === wanted))?.value;
+      }, value);
+      if (optionValue === undefined) throw new Error(`No option "${value}" in ${selector}`);
+      await page.select(selector, optionValue);
+    },
+    press: async (key, selector, timeout) => {
+      if (selector) {
+        await page.waitForSelector(selector, { timeout });
+        await page.focus(selector);
+      }
+      await page.keyboard.press(key as KeyInput);
+    },
+    waitFor: async (selector, state, timeout) => {
+      await page.waitForSelector(selector, {
+        timeout,
+        visible: state === 'visible',
+        hidden: state === 'hidden' || state === 'detached',
+      });
+    },
+    waitForNetworkIdle: async (timeout) => { await page.waitForNetworkIdle({ timeout }); },
+    evaluate: (fn) => page.evaluate(fn) as Promise<any>,
+    screenshot: async () => Buffer.from(await page.screenshot({ type: 'jpeg', quality: 60 })),
+  };
+}
+
+/**
+ * Clicks the accept button of common consent managers, or a button reading
+ * "Accept", "Agree" or the like inside an element named after cookies or consent.
+ * Runs in the page; false when no banner was found.
+ */
+function acceptCookieBanner(): boolean {
+  const KNOWN_BUTTONS = [
+    '#onetrust-accept-btn-handler',
+    '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+    '#CybotCookiebotDialogBodyButtonAccept',
+    '.qc-cmp2-summary-buttons button[mode="primary"]',
+    '#didomi-notice-agree-button',
+    '.cc-allow',
+    '.cc-dismiss',
+    '[data-testid="cookie-accept"]',
+  ];
+  const ACCEPT_TEXT = /^(accept|accept all|accept cookies|accept all cookies|allow all|allow cookies|agree|i agree|got it|ok|okay)$/i;
+  const visible = (element: Element) => (element as HTMLElement).offsetParent !== null;
+
+  for (const selector of KNOWN_BUTTONS) {
+    const button = document.querySelector(selector);
+    if (button && visible(button)) {
+      (button as HTMLElement).click();
+      return true;
+    }
+  }
+
+  const banners = document.querySelectorAll('[id*="cookie" i], [class*="cookie" i], [id*="consent" i], [class*="consent" i], [id*="gdpr" i], [class*="gdpr" i]');
+  for (const banner of Array.from(banners)) {
+    const button = Array.from(banner.querySelectorAll('button, a, [role="button"], input[type="button"], input[type="submit"]'))
+      .find(element => visible(element) && ACCEPT_TEXT.test((element.textContent || (element as HTMLInputElement).value || '').trim()));
+    if (button) {
+      (button as HTMLElement).click();
+      return true;
+    }
+  }
+  return false;
+}
+
+async function runAction(driver: ActionDriver, action: BrowserAction, signal?: AbortSignal): Promise<void> {
+  const timeout = action.timeout ?? DEFAULT_TIMEOUT;
+  switch (action.type) {
+    case 'click': return driver.click(action.selector, timeout);
+    case 'fill': return driver.fill(action.selector, action.value, timeout);
+    case 'select': return driver.select(action.selector, action.value, timeout);
+    case 'press': return driver.press(action.key, action.selector, timeout);
+    case 'waitForSelector': return driver.waitFor(action.selector, action.state, timeout);
+    case 'waitForNetworkIdle': return driver.waitForNetworkIdle(timeout);
+    case 'wait': return delay(action.ms, signal);
+    case 'scroll':
+      for (let i = 0; i < action.times; i++) {
+        await driver.evaluate(() => window.scrollBy(0, window.innerHeight));
+        await delay(action.delay, signal);
+      }
+      return;
+    case 'dismissCookieBanner':
+      // A banner that is not shown (e.g. consent already given) is not a failure
+      await driver.evaluate(acceptCookieBanner);
+      return;
+  }
+}
+
+export interface ActionFailure {
+  index: number; // 0-based position in the script
+  action: BrowserAction;
+  error: Error;
+  screenshot?: Buffer; // The page as the step left it
+}
+
+/**
+ * Run an action script in order. A failing step is reported with a screenshot;
+ * optional steps are then skipped, any other step stops the script with a BrowserActionError.
+ */
+export async function runBrowserActions(
+  driver: ActionDriver,
+  actions: BrowserAction[],
+  options: { signal?: AbortSignal; onFailure?: (failure: ActionFailure) => Promise<void> } = {}
+): Promise<void> {
+  for (let index = 0; index < actions.length; index++) {
+    const action = actions[index];
+    throwIfCancelled(options.signal);
+    try {
+      await runAction(driver, action, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const failure: ActionFailure = {
+        index,
+        action,
+        error: error instanceof Error ? error : new Error(String(error)),
+        screenshot: await driver.screenshot().catch(() => undefined),
+      };
+      await options.onFailure?.(failure);
+      if (!action.optional) {
+        throw new BrowserActionError(`Browser action ${index + 1} (${action.type}) failed: ${failure.error.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+export class TaskCancelledError extends Error {
+  constructor(message = 'Task cancelled by user') {
+    super(message);
+    this.name = 'TaskCancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new TaskCancelledError();
+}
+
+// setTimeout as a promise that rejects with TaskCancelledError as soon as the signal fires
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TaskCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TaskCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Close a browser when the signal fires. Navigations, waits and in-page scripts
+ * running against it reject straight away. Returns a function that detaches the listener.
+ */
+export function closeOnAbort(signal: AbortSignal | undefined, browser: { close(): Promise<void> }): () => void {
+  if (!signal) return () => {};
+
+  const onAbort = () => {
+    browser.close().catch(error => console.error('Error closing browser on cancel:', error));
+  };
+  if (signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import type { RunDiff, ScrapedData } from '@shared/schema';
+
+export const DEFAULT_IDENTITY_KEY = 'link';
+
+// Upper bound on rows loaded per run when diffing, matching the export limit
+const MAX_DIFF_ITEMS = 10000;
+
+// Fields that change on every run and would otherwise mark every item as changed
+const IGNORED_FIELDS = new Set(['scrapedAt']);
+
+type ItemData = Record<string, any>;
+
+type WithData<T> = T & { data: ItemData };
+
+export type ExpandedRunDiff = Omit<RunDiff, 'added' | 'removed' | 'changed'> & {
+  added: WithData<RunDiff['added'][number]>[];
+  removed: WithData<RunDiff['removed'][number]>[];
+  changed: WithData<RunDiff['changed'][number]>[];
+};
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function comparableFields(data: ItemData): string[] {
+  return Object.keys(data).filter(field => !IGNORED_FIELDS.has(field));
+}
+
+function pickFields(data: ItemData, fields: string[]): ItemData {
+  return Object.fromEntries(fields.filter(field => field in data).map(field => [field, data[field]]));
+}
+
+/**
+ * Key items by their identity field. Items without one fall back to a hash of
+ * their content, and repeated keys get an occurrence suffix so no item is dropped.
+ */
+function indexItems(items: ScrapedData[], identityKey: string): Map<string, ScrapedData> {
+  const index = new Map<string, ScrapedData>();
+  const occurrences = new Map<string, number>();
+
+  for (const item of items) {
+    const identity = item.data[identityKey];
+    const baseKey = identity !== undefined && identity !== null && identity !== ''
+      ? String(identity)
+      : createHash('sha256').update(stableStringify(pickFields(item.data, comparableFields(item.data)))).digest('hex');
+
+    const count = (occurrences.get(baseKey) || 0) + 1;
+    occurrences.set(baseKey, count);
+    index.set(count === 1 ? baseKey : `${baseKey}#${count}`, item);
+  }
+
+  return index;
+}
+
+/**
+ * Compare the items of two runs, matching them by identity key. Changes keep
+ * only the fields that differ; everything else is read from the runs' rows.
+ */
+export function computeRunDiff(
+  previous: ScrapedData[],
+  current: ScrapedData[],
+  identityKey: string = DEFAULT_IDENTITY_KEY
+): Pick<RunDiff, 'added' | 'removed' | 'changed' | 'unchangedCount'> {
+  const before = indexItems(previous, identityKey);
+  const after = indexItems(current, identityKey);
+
+  const added: RunDiff['added'] = [];
+  const removed: RunDiff['removed'] = [];
+  const changed: RunDiff['changed'] = [];
+  let unchangedCount = 0;
+
+  after.forEach((item, key) => {
+    const oldItem = before.get(key);
+    if (!oldItem) {
+      added.push({ key, itemId: item.id! });
+      return;
+    }
+
+    const old = oldItem.data;
+    const fields = Array.from(new Set([...comparableFields(old), ...comparableFields(item.data)]))
+      .filter(field => stableStringify(old[field]) !== stableStringify(item.data[field]));
+
+    if (fields.length > 0) {
+      changed.push({ key, itemId: item.id!, fields, before: pickFields(old, fields), after: pickFields(item.data, fields) });
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  before.forEach((item, key) => {
+    if (!after.has(key)) {
+      removed.push({ key, itemId: item.id! });
+    }
+  });
+
+  return { added, removed, changed, unchangedCount };
+}
+
+export class ChangeDetectionService {
+  /**
+   * Diff a finished run against the previous completed run of the same task
+   * and store the result. Returns undefined for a task's first run and for replays.
+   */
+  async recordRunDiff(taskId: string, runId: string): Promise<RunDiff | undefined> {
+    const [task, runs] = await Promise.all([
+      storage.getScrapingTask(taskId),
+      storage.getTaskRuns(taskId)
+    ]);
+
+    // Replays show the site as an earlier run saw it, so they are neither diffed nor a baseline for live runs
+    const currentIndex = runs.findIndex(run => run.id === runId);
+    if (currentIndex === -1 || runs[currentIndex].replayOf) return undefined;
+
+    // Runs are sorted newest first, so earlier runs follow the current one
+    const previousRun = runs.slice(currentIndex + 1).find(run => run.status === 'completed' && !run.replayOf);
+    if (!previousRun) return undefined;
+
+    const identityKey = task?.identityKey || DEFAULT_IDENTITY_KEY;
+    const [previousItems, currentItems] = await Promise.all([
+      storage.getScrapedData(taskId, MAX_DIFF_ITEMS, 0, previousRun.id),
+      storage.getScrapedData(taskId, MAX_DIFF_ITEMS, 0, runId)
+    ]);
+
+    const diff = computeRunDiff(previousItems, currentItems, identityKey);
+
+    const runDiff = await storage.createRunDiff({
+      taskId,
+      runId,
+      previousRunId: previousRun.id!,
+      identityKey,
+      ...diff,
+      createdAt: new Date()
+    });
+
+    await storage.createTaskLog({
+      taskId,
+      level: 'info',
+      message: `Changes since previous run: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`,
+      metadata: { runId, previousRunId: previousRun.id, identityKey },
+      createdAt: new Date()
+    });
+
+    return runDiff;
+  }
+
+  /**
+   * A stored diff with the data of each listed item, read back from the rows
+   * of the two runs it compares.
+   */
+  async expandRunDiff(diff: RunDiff): Promise<ExpandedRunDiff> {
+    const [previousItems, currentItems] = await Promise.all([
+      storage.getScrapedData(diff.taskId, MAX_DIFF_ITEMS, 0, diff.previousRunId),
+      storage.getScrapedData(diff.taskId, MAX_DIFF_ITEMS, 0, diff.runId)
+    ]);
+    const rows = new Map([...previousItems, ...currentItems].map(item => [item.id!, item.data]));
+    const withData = <T extends { itemId: string }>(entry: T) => ({ ...entry, data: rows.get(entry.itemId) ?? {} });
+
+    return {
+      ...diff,
+      added: diff.added.map(withData),
+      removed: diff.removed.map(withData),
+      changed: diff.changed.map(withData)
+    };
+  }
+}
+
+export const changeDetectionService = new ChangeDetectionService();
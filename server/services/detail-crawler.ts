@@ -0,0 +1,144 @@
+import * as cheerio from 'cheerio';
+import { detailCrawlSchema, type DetailCrawlConfig } from '@shared/schema';
+import { normalizePageUrl } from './pagination';
+
+export class DetailCrawlValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DetailCrawlValidationError';
+  }
+}
+
+// Validate user-supplied detail crawl settings
+export function buildDetailCrawlConfig(input: unknown): DetailCrawlConfig {
+  const parsed = detailCrawlSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new DetailCrawlValidationError(`Invalid detail crawl setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const config = parsed.data;
+  const fields = Object.keys(config.selectors).filter(field => field !== config.linkField);
+  if (fields.length === 0) {
+    throw new DetailCrawlValidationError('Detail crawl needs at least one field selector');
+  }
+  for (const field of Object.keys(config.selectors)) {
+    const { selector } = splitSelector(config.selectors[field]);
+    try {
+      cheerio.load('')(selector);
+    } catch {
+      throw new DetailCrawlValidationError(`Invalid selector for detail field ${field}: ${selector}`);
+    }
+  }
+
+  return config;
+}
+
+// "img.hero@src" reads the src attribute, a plain selector reads the text
+function splitSelector(value: string): { selector: string; attribute?: string } {
+  const at = value.lastIndexOf('@');
+  if (at <= 0) return { selector: value.trim() };
+  return { selector: value.slice(0, at).trim(), attribute: value.slice(at + 1).trim() };
+}
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'srcset', 'data-src', 'action', 'poster']);
+
+/**
+ * Read the configured fields from a detail page. Fields whose selector
+ * matches nothing are left out so they do not overwrite listing values.
+ */
+export function extractDetailFields(
+  $: cheerio.CheerioAPI,
+  selectors: Record<string, string>,
+  pageUrl: string
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  for (const [field, value] of Object.entries(selectors)) {
+    const { selector, attribute } = splitSelector(value);
+    const element = $(selector).first();
+    if (element.length === 0) continue;
+
+    let extracted = attribute ? element.attr(attribute) : element.text();
+    extracted = extracted?.replace(/\s+/g, ' ').trim();
+    if (!extracted) continue;
+
+    if (attribute && URL_ATTRIBUTES.has(attribute)) {
+      try {
+        extracted = new URL(extracted, pageUrl).href;
+      } catch {
+        // Keep the raw value when it is not a URL
+      }
+    }
+    fields[field] = extracted;
+  }
+
+  return fields;
+}
+
+// www.example.com and example.com are the same site
+function siteOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+export function isSameSite(url: string, baseUrl: string): boolean {
+  const site = siteOf(url);
+  return site !== undefined && site === siteOf(baseUrl);
+}
+
+/**
+ * Follows item links into detail pages for a single run. A selector for the
+ * link field picks the link on a detail page that leads one level deeper, up to maxDepth.
+ * Pages already crawled in this run are answered from memory, and the number
+ * of fetched pages is capped by maxRequests.
+ */
+export class DetailCrawler {
+  private results = new Map<string, Record<string, string>>();
+  private requests = 0;
+
+  constructor(
+    private config: DetailCrawlConfig,
+    private baseUrl: string,
+    private fetchPage: (url: string) => Promise<string | undefined> // undefined when the page may not be fetched
+  ) {}
+
+  get exhausted(): boolean {
+    return this.requests >= this.config.maxRequests;
+  }
+
+  // Whether a link is worth crawling at all
+  accepts(link: unknown): link is string {
+    if (typeof link !== 'string' || !/^https?:\/\//i.test(link)) return false;
+    return !this.config.sameDomain || isSameSite(link, this.baseUrl);
+  }
+
+  /**
+   * Fields found on the item's detail page and the levels below it, deeper
+   * levels filling in fields the shallower ones lack.
+   */
+  async crawl(link: string, depth = 1): Promise<Record<string, string>> {
+    const url = normalizePageUrl(link);
+    const cached = this.results.get(url);
+    if (cached) return cached;
+    if (this.exhausted) return {};
+
+    const html = await this.fetchPage(url);
+    if (html === undefined) return {};
+    this.requests++;
+    const $ = cheerio.load(html);
+    // The link field only leads deeper; the item keeps its own link, which is often its identity key
+    const { [this.config.linkField]: next, ...fields } = extractDetailFields($, this.config.selectors, url);
+
+    let merged = fields;
+    if (depth < this.config.maxDepth && this.accepts(next) && normalizePageUrl(next) !== url) {
+      merged = { ...(await this.crawl(next, depth + 1)), ...fields };
+    }
+
+    this.results.set(url, merged);
+    return merged;
+  }
+}
@@ -0,0 +1,155 @@
+import * as cheerio from 'cheerio';
+import { extractionSchema, type ExtractionField, type ExtractionSchema } from '@shared/schema';
+import { compileXPath, evaluateXPath, isElement, stringValue, XPathSyntaxError, type XPathNode } from './xpath';
+import { isValidPattern, matchPattern } from './patterns';
+import { applyTransforms, documentBaseUrl, parseDate, parseNumber, resolveUrl, validateTransform, type FieldValue } from './transforms';
+
+export class ExtractionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionValidationError';
+  }
+}
+
+function checkSelector(selector: string, type: 'css' | 'xpath', label: string) {
+  try {
+    if (type === 'xpath') compileXPath(selector);
+    else cheerio.load('')(selector);
+  } catch (error) {
+    const reason = error instanceof XPathSyntaxError ? error.message : selector;
+    throw new ExtractionValidationError(`Invalid ${type === 'xpath' ? 'XPath' : 'CSS'} selector for ${label}: ${reason}`);
+  }
+}
+
+// Validate a user-supplied extraction schema
+export function buildExtractionSchema(input: unknown): ExtractionSchema {
+  const parsed = extractionSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ExtractionValidationError(`Invalid extraction setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const schema = parsed.data;
+  if (schema.itemSelector) checkSelector(schema.itemSelector, schema.itemSelectorType, 'the item container');
+
+  const names = new Set<string>();
+  for (const field of schema.fields) {
+    if (names.has(field.name)) {
+      throw new ExtractionValidationError(`Extraction field ${field.name} is defined more than once`);
+    }
+    names.add(field.name);
+
+    if (field.source === 'attribute' && !field.attribute) {
+      throw new ExtractionValidationError(`Extraction field ${field.name} reads an attribute but names none`);
+    }
+    if (field.selector) checkSelector(field.selector, field.selectorType, `field ${field.name}`);
+    if (field.regex && !isValidPattern(field.regex)) {
+      throw new ExtractionValidationError(`Invalid regex for field ${field.name}: ${field.regex}`);
+    }
+    for (const transform of field.transforms) {
+      const problem = validateTransform(transform);
+      if (problem) throw new ExtractionValidationError(`Invalid ${transform.op} transform for field ${field.name}: ${problem}`);
+    }
+  }
+
+  return schema;
+}
+
+// The item containers on a page; the schema's own item selector wins over the detected one
+export function selectItems($: cheerio.CheerioAPI, schema: ExtractionSchema, fallbackSelector?: string): cheerio.Cheerio<any> {
+  const selector = schema.itemSelector ?? fallbackSelector;
+  if (!selector) return $([]);
+  if (schema.itemSelector && schema.itemSelectorType === 'xpath') {
+    return $(evaluateXPath(selector, $.root().get(0)!).filter(isElement));
+  }
+  return $(selector);
+}
+
+function matchNodes(item: cheerio.Cheerio<any>, field: ExtractionField): XPathNode[] {
+  if (!field.selector) return item.toArray();
+  if (field.selectorType === 'xpath') return evaluateXPath(field.selector, item.get(0));
+  return item.find(field.selector).toArray();
+}
+
+function readNode($: cheerio.CheerioAPI, node: XPathNode, field: ExtractionField): string | undefined {
+  // Attribute and text nodes selected by XPath carry their own value
+  if (!isElement(node)) return stringValue(node).replace(/\s+/g, ' ').trim();
+
+  const element = $(node);
+  switch (field.source) {
+    case 'attribute': return element.attr(field.attribute!)?.trim();
+    case 'html': return element.html()?.trim();
+    default: return element.text().replace(/\s+/g, ' ').trim();
+  }
+}
+
+const FALSE_VALUES = /^(false|no|n|0|off|none|out of stock|unavailable|sold out)$/i;
+
+// Values transforms already turned into the field's type are kept as they are
+function coerce(value: FieldValue, type: ExtractionField['type'], baseUrl: string): FieldValue | undefined {
+  if (typeof value === 'number' && type === 'number') return value;
+  if (typeof value === 'boolean' && type === 'boolean') return value;
+  const text = String(value);
+
+  switch (type) {
+    case 'number': return parseNumber(text);
+    case 'boolean': return text === '' ? undefined : !FALSE_VALUES.test(text);
+    case 'date': return parseDate(text);
+    case 'url': return resolveUrl(text, baseUrl);
+    default: return text;
+  }
+}
+
+function extractField($: cheerio.CheerioAPI, item: cheerio.Cheerio<any>, field: ExtractionField, baseUrl: string): unknown {
+  const raw: string[] = [];
+
+  for (const node of matchNodes(item, field)) {
+    let value = readNode($, node, field);
+    if (value && field.regex) value = matchPattern(field.regex, value);
+    if (!value) continue;
+    raw.push(value);
+    if (!field.multiple) break;
+  }
+  if (raw.length === 0) return field.default;
+
+  // A split turns a single value into a list, a join a list into a single value
+  const transformed = applyTransforms(field.multiple ? raw : raw[0], field.transforms, baseUrl);
+  if (transformed === undefined) return field.default;
+
+  const values = (Array.isArray(transformed) ? transformed : [transformed])
+    .map(value => coerce(value, field.type, baseUrl))
+    .filter((value): value is FieldValue => value !== undefined);
+  if (values.length === 0) return field.default;
+  return Array.isArray(transformed) ? values : values[0];
+}
+
+/**
+ * Read every schema field from one item. Fields that find nothing take their
+ * default, or are left out when they have none.
+ */
+export function extractFields(
+  $: cheerio.CheerioAPI,
+  item: cheerio.Cheerio<any>,
+  schema: ExtractionSchema,
+  pageUrl: string
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const baseUrl = documentBaseUrl($, pageUrl);
+  for (const field of schema.fields) {
+    const value = extractField($, item, field, baseUrl);
+    if (value !== undefined) data[field.name] = value;
+  }
+  return data;
+}
+
+// Every item on a page that yields at least one field
+export function extractItems(
+  $: cheerio.CheerioAPI,
+  schema: ExtractionSchema,
+  fallbackSelector: string | undefined,
+  pageUrl: string
+): Record<string, unknown>[] {
+  return selectItems($, schema, fallbackSelector).toArray()
+    .map(element => extractFields($, $(element), schema, pageUrl))
+    .filter(data => Object.keys(data).length > 0);
+}
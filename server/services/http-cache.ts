@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { cachePolicySchema, type CachePolicy, type CacheStats, type HttpCacheEntry } from '@shared/schema';
+import { storage } from '../storage';
+import { blobStore, BlobNotFoundError } from './blob-store';
+import { DEFAULT_HTTP_SETTINGS, readBody, ResponseTooLargeError } from './http-client';
+import { safeFetch } from './url-policy';
+import type { Fetcher } from './retry';
+
+const BLOB_PREFIX = 'http-cache';
+const MAX_CACHED_BYTES = 10 * 1024 * 1024;
+// The cache is shared by every user's tasks, so only requests sending nothing beyond these defaults use it.
+// Any other header (cookies, Authorization, a task's own API key headers) may make the response personal
+const SHARED_REQUEST_HEADERS = new Set(['user-agent', 'accept', 'accept-language', 'accept-encoding', 'cache-control']);
+// Bodies are stored decoded, so these no longer describe them
+const STALE_HEADERS = /^(content-encoding|content-length|transfer-encoding|set-cookie)$/i;
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = { enabled: true, maxAge: 0 };
+
+export class CacheValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CacheValidationError';
+  }
+}
+
+// Validate a user-supplied cache policy
+export function buildCachePolicy(input: unknown): CachePolicy {
+  const parsed = cachePolicySchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new CacheValidationError(`Invalid cache setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+export function emptyCacheStats(): CacheStats {
+  return { hits: 0, revalidated: 0, misses: 0, bytesSaved: 0 };
+}
+
+function cacheControl(headers: Headers): Set<string> {
+  return new Set((headers.get('cache-control') || '').toLowerCase().split(',').map(directive => directive.trim().split('=')[0]));
+}
+
+function varyNames(headers: Headers): string[] {
+  return (headers.get('vary') || '').toLowerCase().split(',').map(name => name.trim()).filter(Boolean).sort();
+}
+
+function varyKey(names: string[], request: Headers): string {
+  return names.map(name => `${name}=${request.get(name) ?? ''}`).join('\n');
+}
+
+function cacheUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+function toResponse(entry: HttpCacheEntry, body: Buffer): Response {
+  const response = new Response(body, {
+    status: entry.status,
+    headers: Object.entries(entry.headers).filter(([name]) => !STALE_HEADERS.test(name)),
+  });
+  // Callers resolve relative links against response.url, which constructed responses leave empty
+  Object.defineProperty(response, 'url', { value: entry.responseUrl ?? entry.url });
+  return response;
+}
+
+/**
+ * Responses to GET requests kept across runs and tasks, keyed by URL and the
+ * request headers the response varies on. An entry younger than the policy's
+ * maxAge is served as is; an older one is revalidated with If-None-Match or
+ * If-Modified-Since, and a 304 answer serves the stored body.
+ */
+export class HttpCache {
+  private totals = emptyCacheStats(); // Since the server started
+
+  fetcher(
+    policy: CachePolicy = DEFAULT_CACHE_POLICY,
+    stats?: CacheStats,
+    base: Fetcher = safeFetch,
+    maxBodySize = DEFAULT_HTTP_SETTINGS.maxBodySize
+  ): Fetcher {
+    if (!policy.enabled) return base;
+    const count = (field: keyof CacheStats, amount = 1) => {
+      this.totals[field] += amount;
+      if (stats) stats[field] += amount;
+    };
+
+    return async (url, init = {}) => {
+      const request = new Headers(init.headers);
+      const method = (init.method || 'GET').toUpperCase();
+      if (method !== 'GET' || Array.from(request.keys()).some(name => !SHARED_REQUEST_HEADERS.has(name))) return base(url, init);
+
+      const key = cacheUrl(url);
+      const entry = await this.lookup(key, request);
+      const body = entry && await blobStore.get(entry.blobKey).catch(error => {
+        if (error instanceof BlobNotFoundError) return undefined;
+        throw error;
+      });
+
+      if (entry && body) {
+        const age = Date.now() - new Date(entry.storedAt).getTime();
+        const noCache = cacheControl(request).has('no-cache');
+        if (!noCache && age < policy.maxAge * 1000) {
+          count('hits');
+          count('bytesSaved', entry.size);
+          return toResponse(entry, body);
+        }
+
+        if (entry.etag) request.set('if-none-match', entry.etag);
+        if (entry.lastModified) request.set('if-modified-since', entry.lastModified);
+      }
+
+      const response = await base(url, { ...init, headers: request });
+      if (response.status === 304 && entry && body) {
+        await response.body?.cancel();
+        const etag = response.headers.get('etag');
+        await storage.saveHttpCacheEntry({ ...entry, ...(etag && { etag }), storedAt: new Date() });
+        count('revalidated');
+        count('bytesSaved', entry.size);
+        return toResponse(entry, body);
+      }
+
+      count('misses');
+      return this.store(key, request, response, Math.min(maxBodySize, MAX_CACHED_BYTES));
+    };
+  }
+
+  private async lookup(url: string, request: Headers): Promise<HttpCacheEntry | undefined> {
+    const entries = await storage.getHttpCacheEntries(url);
+    return entries.find(entry => entry.varyKey === varyKey(entry.vary, request));
+  }
+
+  // Keep a 200 response the site allows shared caches to store, if its body is at most maxBytes
+  private async store(url: string, request: Headers, response: Response, maxBytes: number): Promise<Response> {
+    const vary = varyNames(response.headers);
+    const length = Number(response.headers.get('content-length'));
+    const directives = cacheControl(response.headers);
+    if (
+      response.status !== 200 ||
+      directives.has('no-store') ||
+      directives.has('private') ||
+      vary.includes('*') ||
+      length > maxBytes
+    ) {
+      return response;
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBody(response.clone(), maxBytes);
+    } catch (error) {
+      // Left to the caller, whose own read of the body enforces the task's limit
+      if (error instanceof ResponseTooLargeError) return response;
+      throw error;
+    }
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!STALE_HEADERS.test(name)) headers[name] = value;
+    });
+    const key = varyKey(vary, request);
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    // Optional fields are left out rather than set to undefined, which MongoDB would store as null
+    const entry: HttpCacheEntry = {
+      url,
+      ...(response.url && response.url !== url && { responseUrl: response.url }),
+      vary,
+      varyKey: key,
+      status: response.status,
+      headers,
+      ...(etag && { etag }),
+      ...(lastModified && { lastModified }),
+      blobKey: `${BLOB_PREFIX}/${createHash('sha256').update(`${url}\n${key}`).digest('hex')}`,
+      size: body.length,
+      storedAt: new Date(),
+    };
+
+    await blobStore.put(entry.blobKey, body);
+    await storage.saveHttpCacheEntry(entry);
+    return response;
+  }
+
+  // Counters since the server started, with the size of the cache
+  async stats(): Promise<CacheStats & { entries: number; size: number }> {
+    return { ...this.totals, ...(await storage.getHttpCacheSummary()) };
+  }
+
+  async clear(): Promise<number> {
+    const removed = await storage.clearHttpCache();
+    await blobStore.delete(BLOB_PREFIX);
+    return removed;
+  }
+}
+
+export const httpCache = new HttpCache();
+
+// For one-off requests such as website analysis, with the default policy
+export const cachedFetch: Fetcher = httpCache.fetcher();
@@ -0,0 +1,209 @@
+import { httpSettingsSchema, type FetchStats, type HttpSettings } from '@shared/schema';
+import { safeFetch } from './url-policy';
+import type { Fetcher } from './retry';
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+export const DEFAULT_HTTP_SETTINGS: HttpSettings = httpSettingsSchema.parse({});
+// Set by fetch() itself, or by the fetcher from other settings
+const RESERVED_HEADERS = /^(host|content-length|transfer-encoding|connection|accept-encoding|cookie|user-agent)$/i;
+// The HTML spec looks for a meta charset in the first 1024 bytes; pages with long heads put it later
+const SNIFF_BYTES = 4096;
+
+export class HttpSettingsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpSettingsValidationError';
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Response body is larger than ${limit} bytes`);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+// Validate user-supplied request settings
+export function buildHttpSettings(input: unknown): HttpSettings {
+  const parsed = httpSettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new HttpSettingsValidationError(`Invalid HTTP setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  const reserved = Object.keys(parsed.data.headers).find(name => RESERVED_HEADERS.test(name));
+  if (reserved) {
+    throw new HttpSettingsValidationError(`Invalid HTTP setting headers.${reserved}: set by the fetcher, use userAgent or cookies instead`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Headers for a request of a task: browser-like defaults, then the task's own
+ * headers, then its cookies joined with any session cookies.
+ */
+export function requestHeaders(settings: HttpSettings = DEFAULT_HTTP_SETTINGS, sessionCookies?: string): Record<string, string> {
+  const cookie = [settings.cookies, sessionCookies].filter(Boolean).join('; ');
+  return {
+    'User-Agent': settings.userAgent ?? DEFAULT_USER_AGENT,
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept-Encoding': 'gzip, deflate, br', // fetch() decompresses all three
+    ...settings.headers,
+    ...(cookie && { 'Cookie': cookie }),
+  };
+}
+
+// The task's cookies as browsers take them, scoped to the URL's site
+export function browserCookies(settings: HttpSettings | undefined, url: string): { name: string; value: string; url: string }[] {
+  if (!settings?.cookies) return [];
+  return settings.cookies.split(';').flatMap(pair => {
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim();
+    return separator > 0 && name ? [{ name, value: pair.slice(separator + 1).trim(), url: new URL('/', url).href }] : [];
+  });
+}
+
+// A deadline for each request on top of the caller's signal; it covers reading the body too
+export function withTimeout(fetcher: Fetcher, timeout: number): Fetcher {
+  return (url, init = {}) => {
+    const deadline = AbortSignal.timeout(timeout);
+    return fetcher(url, { ...init, signal: init.signal ? AbortSignal.any([init.signal, deadline]) : deadline });
+  };
+}
+
+// Read the (already decompressed) body, giving up once it passes maxBodySize
+export async function readBody(response: Response, maxBodySize = DEFAULT_HTTP_SETTINGS.maxBodySize): Promise<Buffer> {
+  // A compressed body is only smaller than its content, so a declared length over the limit settles it early
+  if (Number(response.headers.get('content-length')) > maxBodySize) {
+    response.body?.cancel().catch(() => undefined);
+    throw new ResponseTooLargeError(maxBodySize);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBodySize) {
+      // Not awaited: cancelling a clone's body only settles once the original is cancelled too
+      reader.cancel().catch(() => undefined);
+      throw new ResponseTooLargeError(maxBodySize);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+// The first maxBytes of the body; the rest is never downloaded
+export async function readBodyStart(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    chunks.push(Buffer.from(value));
+    size += value.length;
+  }
+  reader.cancel().catch(() => undefined);
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
+
+// The WHATWG name of a charset label, or undefined for labels TextDecoder does not know
+function normalizeCharset(label: string | undefined): string | undefined {
+  if (!label) return undefined;
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The charset of a body, in the order browsers settle it: a byte order mark,
+ * the Content-Type header, then a meta tag or XML declaration near the start.
+ * Bodies that declare nothing are read as UTF-8.
+ */
+export function detectCharset(body: Buffer, contentType?: string | null): string {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) return 'utf-8';
+  if (body[0] === 0xfe && body[1] === 0xff) return 'utf-16be';
+  if (body[0] === 0xff && body[1] === 0xfe) return 'utf-16le';
+
+  const fromHeader = normalizeCharset(contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1]);
+  if (fromHeader) return fromHeader;
+
+  // Declarations are ASCII in every charset a page can declare this way
+  const head = body.subarray(0, SNIFF_BYTES).toString('latin1');
+  const declared = normalizeCharset(
+    head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1] ??
+    head.match(/^\s*<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)/i)?.[1]
+  );
+  // A document readable as ASCII to find the tag cannot be UTF-16, whatever the tag says
+  return declared && !declared.startsWith('utf-16') ? declared : 'utf-8';
+}
+
+export function decodeBody(body: Buffer, contentType?: string | null): { text: string; charset: string } {
+  const charset = detectCharset(body, contentType);
+  return { text: new TextDecoder(charset).decode(body), charset };
+}
+
+export async function readText(response: Response, settings: HttpSettings = DEFAULT_HTTP_SETTINGS): Promise<{ text: string; charset: string; bytes: number }> {
+  const body = await readBody(response, settings.maxBodySize);
+  return { ...decodeBody(body, response.headers.get('content-type')), bytes: body.length };
+}
+
+export interface FetchedText {
+  text: string;
+  url: string; // After redirects
+  status: number;
+  headers: Headers;
+  charset: string;
+  bytes: number;
+  timing: { headers: number; total: number }; // Milliseconds from the request to its response headers and to the last body byte
+}
+
+/**
+ * Fetch a page as text with a task's request settings: its headers and user
+ * agent, a timeout and a body size limit, and decoded in the charset the page
+ * declares. Error statuses are returned, not thrown.
+ */
+export async function fetchText(
+  url: string,
+  options: { settings?: HttpSettings; init?: RequestInit; sessionCookies?: string; fetcher?: Fetcher } = {}
+): Promise<FetchedText> {
+  const settings = options.settings ?? DEFAULT_HTTP_SETTINGS;
+  const init = options.init ?? {};
+  const started = performance.now();
+  const response = await withTimeout(options.fetcher ?? safeFetch, settings.timeout)(url, {
+    ...init,
+    headers: { ...requestHeaders(settings, options.sessionCookies), ...(init.headers as Record<string, string> | undefined) },
+  });
+  const headersAt = performance.now();
+  const { text, charset, bytes } = await readText(response, settings);
+
+  return {
+    text,
+    url: response.url || url,
+    status: response.status,
+    headers: response.headers,
+    charset,
+    bytes,
+    timing: { headers: Math.round(headersAt - started), total: Math.round(performance.now() - started) },
+  };
+}
+
+export function emptyFetchStats(): FetchStats {
+  return { requests: 0, bytes: 0, totalTime: 0, slowest: 0 };
+}
+
+export function countFetch(stats: FetchStats, bytes: number, time: number): void {
+  stats.requests++;
+  stats.bytes += bytes;
+  stats.totalTime += Math.round(time);
+  stats.slowest = Math.max(stats.slowest, Math.round(time));
+}
@@ -0,0 +1,182 @@
+/**
+ * A small JSONPath evaluator for picking items out of API responses. It covers
+ * member access ($.a.b, $['a']), wildcards, array indexes and slices, unions
+ * and recursive descent ($..items); filter expressions are not supported.
+ */
+
+export class JsonPathSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPathSyntaxError';
+  }
+}
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number; step: number };
+
+interface Segment {
+  recursive: boolean; // ".." descends into every nested value first
+  selectors: Selector[];
+}
+
+export type JsonPath = Segment[];
+
+const NAME = /^[^.[\]\s'"]+/;
+const INDEX = /^-?\d+$/;
+const SLICE = /^(-?\d+)?:(-?\d+)?(?::(-?\d+))?$/;
+
+function parseBracketSelector(text: string, path: string): Selector {
+  const selector = text.trim();
+  if (selector === '*') return { kind: 'wildcard' };
+  if (/^'.*'$|^".*"$/.test(selector)) return { kind: 'name', name: selector.slice(1, -1) };
+  if (INDEX.test(selector)) return { kind: 'index', index: parseInt(selector, 10) };
+
+  const slice = SLICE.exec(selector);
+  if (slice) {
+    const step = slice[3] !== undefined ? parseInt(slice[3], 10) : 1;
+    if (step === 0) throw new JsonPathSyntaxError(`Slice step cannot be 0 in ${path}`);
+    return {
+      kind: 'slice',
+      start: slice[1] !== undefined ? parseInt(slice[1], 10) : undefined,
+      end: slice[2] !== undefined ? parseInt(slice[2], 10) : undefined,
+      step,
+    };
+  }
+  if (selector.startsWith('?')) throw new JsonPathSyntaxError(`Filter expressions are not supported: ${path}`);
+  throw new JsonPathSyntaxError(`Invalid selector [${selector}] in ${path}`);
+}
+
+// Split a bracket's contents on commas outside quotes
+function splitUnion(text: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === ',') {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// Index of the "]" closing the bracket opened at start, skipping quoted names
+function closingBracket(text: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a JSONPath. The leading "$" may be left out, so "data.items" is the
+ * same as "$.data.items".
+ */
+export function compileJsonPath(path: string): JsonPath {
+  let rest = path.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) rest = `.${rest}`;
+
+  const segments: Segment[] = [];
+  while (rest.length > 0) {
+    let recursive = false;
+    if (rest.startsWith('..')) {
+      recursive = true;
+      rest = rest.slice(2);
+    } else if (rest.startsWith('.')) {
+      rest = rest.slice(1);
+    } else if (!rest.startsWith('[')) {
+      throw new JsonPathSyntaxError(`Unexpected "${rest[0]}" in ${path}`);
+    }
+
+    if (rest.startsWith('[')) {
+      const end = closingBracket(rest, 0);
+      if (end === -1) throw new JsonPathSyntaxError(`Unclosed bracket in ${path}`);
+      const selectors = splitUnion(rest.slice(1, end)).map(part => parseBracketSelector(part, path));
+      segments.push({ recursive, selectors });
+      rest = rest.slice(end + 1);
+    } else if (rest.startsWith('*')) {
+      segments.push({ recursive, selectors: [{ kind: 'wildcard' }] });
+      rest = rest.slice(1);
+    } else {
+      const name = NAME.exec(rest);
+      if (!name) throw new JsonPathSyntaxError(`Expected a member name in ${path}`);
+      segments.push({ recursive, selectors: [{ kind: 'name', name: name[0] }] });
+      rest = rest.slice(name[0].length);
+    }
+  }
+  return segments;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sliceArray(array: unknown[], selector: Extract<Selector, { kind: 'slice' }>): unknown[] {
+  const { length } = array;
+  const bound = (value: number) => value < 0 ? Math.max(length + value, 0) : Math.min(value, length);
+  const result: unknown[] = [];
+  if (selector.step > 0) {
+    const end = selector.end !== undefined ? bound(selector.end) : length;
+    for (let i = selector.start !== undefined ? bound(selector.start) : 0; i < end; i += selector.step) result.push(array[i]);
+  } else {
+    const end = selector.end !== undefined ? bound(selector.end) : -1;
+    for (let i = selector.start !== undefined ? Math.min(bound(selector.start), length - 1) : length - 1; i > end; i += selector.step) result.push(array[i]);
+  }
+  return result;
+}
+
+function select(value: unknown, selector: Selector): unknown[] {
+  switch (selector.kind) {
+    case 'name':
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name) ? [value[selector.name]] : [];
+    case 'wildcard':
+      return Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'slice':
+      return Array.isArray(value) ? sliceArray(value, selector) : [];
+  }
+}
+
+// The value followed by everything nested in it, in document order
+function descendantsOrSelf(value: unknown): unknown[] {
+  const nested = Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+  return [value, ...nested.flatMap(descendantsOrSelf)];
+}
+
+// Every value the path matches in the document
+export function evaluateJsonPath(path: string | JsonPath, document: unknown): unknown[] {
+  const segments = typeof path === 'string' ? compileJsonPath(path) : path;
+  let current: unknown[] = [document];
+  for (const segment of segments) {
+    const sources = segment.recursive ? current.flatMap(descendantsOrSelf) : current;
+    current = sources.flatMap(value => segment.selectors.flatMap(selector => select(value, selector)));
+  }
+  return current;
+}
+
+// Path segment for a member name, bracketed when the name would not parse after a dot
+export function memberPath(name: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(name) ? `.${name}` : `['${name.replace(/'/g, '')}']`;
+}
@@ -0,0 +1,96 @@
+import type { Page, Response } from 'playwright';
+import type { CapturedEndpoint, ItemArrayCandidate } from '@shared/schema';
+import { memberPath } from './jsonpath';
+
+const MAX_ENDPOINTS = 50;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_DEPTH = 6;
+
+// Request headers a replayed API call should not carry over
+const PRIVATE_HEADERS = /^(cookie|authorization|proxy-authorization|host|content-length|connection|:.*)$/i;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Arrays of objects in a JSON document, largest first. Arrays inside items
+ * (such as a product's images) are not descended into.
+ */
+export function findItemArrays(document: unknown, path = '$', depth = 0): ItemArrayCandidate[] {
+  if (Array.isArray(document)) {
+    const objects = document.filter(isObject);
+    if (objects.length === 0 || objects.length < document.length / 2) return [];
+    return [{ path, length: document.length, fields: Object.keys(objects[0]).slice(0, 12) }];
+  }
+  if (!isObject(document) || depth >= MAX_DEPTH) return [];
+
+  return Object.entries(document)
+    .flatMap(([key, value]) => findItemArrays(value, `${path}${memberPath(key)}`, depth + 1))
+    .sort((a, b) => b.length - a.length)
+    .slice(0, 5);
+}
+
+/**
+ * Records the JSON responses a page's scripts fetch (XHR and fetch() calls)
+ * while it is navigated and scrolled, so the API behind it can be scraped directly.
+ */
+export class NetworkCapture {
+  private captured = new Map<string, CapturedEndpoint>();
+  private pending = new Set<Promise<void>>();
+
+  attach(page: Page) {
+    page.on('response', response => {
+      const recording: Promise<void> = this.record(response)
+        .catch(() => {
+          // Bodies of responses the page navigated away from cannot be read
+        })
+        .finally(() => this.pending.delete(recording));
+      this.pending.add(recording);
+    });
+  }
+
+  private async record(response: Response) {
+    const request = response.request();
+    if (!['xhr', 'fetch'].includes(request.resourceType())) return;
+
+    const headers = response.headers();
+    const contentType = headers['content-type'] || '';
+    if (!/json/i.test(contentType) || response.status() < 200 || response.status() >= 300) return;
+
+    const key = `${request.method()} ${response.url()}`;
+    if (this.captured.has(key) || this.captured.size >= MAX_ENDPOINTS) return;
+    if (Number(headers['content-length']) > MAX_BODY_BYTES) return;
+
+    const body = await response.body();
+    if (body.length > MAX_BODY_BYTES) return;
+    let document: unknown;
+    try {
+      document = JSON.parse(body.toString('utf8'));
+    } catch {
+      return;
+    }
+
+    const requestHeaders = Object.fromEntries(
+      Object.entries(await request.allHeaders()).filter(([name]) => !PRIVATE_HEADERS.test(name))
+    );
+    const requestBody = request.postData();
+    this.captured.set(key, {
+      url: response.url(),
+      method: request.method(),
+      status: response.status(),
+      contentType,
+      size: body.length,
+      requestHeaders,
+      ...(requestBody !== null && { requestBody }),
+      candidates: findItemArrays(document),
+    });
+  }
+
+  // Everything captured so far, endpoints with the largest item arrays first
+  async endpoints(): Promise<CapturedEndpoint[]> {
+    await Promise.allSettled(Array.from(this.pending));
+    const largest = (endpoint: CapturedEndpoint) => endpoint.candidates[0]?.length ?? 0;
+    return Array.from(this.captured.values()).sort((a, b) => largest(b) - largest(a));
+  }
+}
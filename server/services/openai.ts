@@ -1,6 +1,9 @@
 import OpenAI from "openai";
 import { storage } from "../storage";
 import * as cheerio from "cheerio";
+import { detectNextSelector } from "./pagination";
+import { collectStructuredData, summarizeStructuredData, type StructuredDataSummary } from "./structured-data";
+import { findDataTables } from "./tables";
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
 const defaultOpenAI = new OpenAI({ 
@@ -69,6 +72,9 @@ interface WebsiteAnalysisResult {
     pagination: boolean;
     infiniteScroll: boolean;
     ajaxLoading: boolean;
+    nextSelector?: string; // Selector of the "next page" link, when one was found
+    structuredData?: StructuredDataSummary; // JSON-LD, microdata, RDFa and Open Graph found on the page
+    dataTables?: number; // Tables holding data rather than layout, readable with table mode
   };
   strategy: string;
   confidence: number;
@@ -104,7 +110,8 @@ Return JSON in this exact format:
     "itemContainer": "container selector for individual items",
     "pagination": true/false,
     "infiniteScroll": true/false,
-    "ajaxLoading": true/false
+    "ajaxLoading": true/false,
+    "nextSelector": "CSS selector of the next-page link, or null if there is none"
   },
   "strategy": "recommended scraping approach description",
   "confidence": number between 0-100,
@@ -127,8 +134,14 @@ Return JSON in this exact format:
       max_tokens: 1500,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    return result as WebsiteAnalysisResult;
+    const result = JSON.parse(response.choices[0].message.content || "{}") as WebsiteAnalysisResult;
+    if (result.patterns) {
+      const $ = cheerio.load(htmlContent);
+      result.patterns.nextSelector ||= detectNextSelector($, url);
+      result.patterns.structuredData = summarizeStructuredData(collectStructuredData($, url));
+      result.patterns.dataTables = findDataTables($).length;
+    }
+    return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error("OpenAI analysis error:", error);
@@ -267,7 +280,12 @@ async function performDynamicAnalysis(url: string, htmlContent: string): Promise
   const $ = cheerio.load(htmlContent);
   const analysis = {
     selectors: { primary: '', fallback: [] as string[] },
-    patterns: { itemContainer: '', pagination: false, infiniteScroll: false, ajaxLoading: false },
+    patterns: {
+      itemContainer: '', pagination: false, infiniteScroll: false, ajaxLoading: false,
+      nextSelector: undefined as string | undefined,
+      structuredData: undefined as StructuredDataSummary | undefined,
+      dataTables: 0
+    },
     strategy: '',
     confidence: 0,
     recommendations: [] as string[]
@@ -343,7 +361,9 @@ async function performDynamicAnalysis(url: string, htmlContent: string): Promise
   const paginationElements = paginationKeywords.some(keyword => 
     $(`[class*="${keyword}"], [id*="${keyword}"], a[href*="${keyword}"]`).length > 0
   );
-  analysis.patterns.pagination = paginationElements;
+  const nextSelector = detectNextSelector($, url);
+  analysis.patterns.pagination = paginationElements || !!nextSelector;
+  analysis.patterns.nextSelector = nextSelector;
 
   // Detect infinite scroll indicators
   const infiniteScrollKeywords = ['infinite', 'load-more', 'loadmore', 'endless'];
@@ -360,6 +380,11 @@ async function performDynamicAnalysis(url: string, htmlContent: string): Promise
   );
   analysis.patterns.ajaxLoading = hasAjax;
 
+  // Detect schema.org and Open Graph data, which beats any selector guess
+  const structuredData = summarizeStructuredData(collectStructuredData($, url));
+  analysis.patterns.structuredData = structuredData;
+  analysis.patterns.dataTables = findDataTables($).length;
+
   // Generate strategy based on detected patterns
   const domain = new URL(url).hostname;
   let strategy = `Dynamic content extraction for ${domain}. `;
@@ -368,6 +393,8 @@ async function performDynamicAnalysis(url: string, htmlContent: string): Promise
   if (analysis.patterns.infiniteScroll) strategy += 'Support infinite scroll loading. ';
   if (analysis.patterns.ajaxLoading) strategy += 'Wait for AJAX content to load. ';
   
+  if (structuredData.types.length > 0) strategy += `Read the embedded ${structuredData.types.slice(0, 3).join(', ')} structured data. `;
+  if (analysis.patterns.dataTables > 0) strategy += 'Read table rows as records keyed by their column headers. ';
   strategy += 'Focus on semantic content containers and structured data extraction.';
   analysis.strategy = strategy;
 
@@ -377,6 +404,12 @@ async function performDynamicAnalysis(url: string, htmlContent: string): Promise
     'Extract data from the most semantic containers found',
     analysis.patterns.pagination ? 'Navigate through pagination systematically' : 'Single page extraction strategy',
     analysis.patterns.ajaxLoading ? 'Allow time for dynamic content to load' : 'Static content extraction',
+    ...(structuredData.types.length > 0
+      ? [`Enable structured data extraction: the page describes ${structuredData.types.join(', ')} in JSON-LD, microdata or RDFa`]
+      : structuredData.openGraph ? ['Open Graph tags are available for page-level title, image and price'] : []),
+    ...(analysis.patterns.dataTables > 0
+      ? [`Enable table mode: the page has ${analysis.patterns.dataTables} data table${analysis.patterns.dataTables === 1 ? '' : 's'}`]
+      : []),
     `Confidence level: ${analysis.confidence}% based on structural analysis`
   ];
 
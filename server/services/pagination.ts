@@ -0,0 +1,191 @@
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { paginationSchema, type PaginationConfig } from '@shared/schema';
+
+// Common markup for "next page" links, tried in order when no selector is configured
+const NEXT_LINK_SELECTORS = [
+  'a[rel~="next"]',
+  '.pagination .next a',
+  '.pagination a.next',
+  '.pager .next a',
+  'li.next a',
+  'a.next',
+  'a[class*="next"]',
+  'a[aria-label*="Next"]',
+  'a[aria-label*="next"]',
+];
+
+const NEXT_LINK_TEXT = /^(next(\s+page)?|older posts|›|»|>|→)(\s*[›»>→])?$/i;
+
+// Query parameters that count items rather than pages
+const OFFSET_PARAM = /offset|start|skip|from/i;
+
+export class PaginationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationValidationError';
+  }
+}
+
+/**
+ * Validate user-supplied pagination settings. A "next" selector found during
+ * website analysis is used unless the user gave one.
+ */
+export function buildPaginationConfig(input: unknown, detectedNextSelector?: string | null): PaginationConfig {
+  const parsed = paginationSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new PaginationValidationError(`Invalid pagination setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const config = parsed.data;
+  if (config.strategy === 'url-template' && !config.template?.includes('{page}')) {
+    throw new PaginationValidationError('URL template must contain a {page} placeholder');
+  }
+  if (config.nextSelector) {
+    try {
+      cheerio.load('')(config.nextSelector);
+    } catch {
+      throw new PaginationValidationError(`Invalid next page selector: ${config.nextSelector}`);
+    }
+  }
+
+  const nextSelector = config.nextSelector ?? detectedNextSelector;
+  return nextSelector ? { ...config, nextSelector } : config;
+}
+
+// The page that was just scraped
+export interface PageState {
+  url: string;
+  pageNumber: number; // 1-based
+  itemCount: number;
+}
+
+function resolveHref(href: string | undefined, baseUrl: string): string | undefined {
+  const trimmed = href?.trim();
+  if (!trimmed || trimmed.startsWith('#') || /^javascript:/i.test(trimmed)) return undefined;
+
+  try {
+    return new URL(trimmed, baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function findRelNext($: cheerio.CheerioAPI, url: string): string | undefined {
+  return resolveHref($('link[rel~="next"], a[rel~="next"]').first().attr('href'), url);
+}
+
+// First link matched by the selector; buttons wrapping or inside a link count too
+function findLinkBySelector($: cheerio.CheerioAPI, url: string, selector: string): string | undefined {
+  let found: string | undefined;
+  try {
+    $(selector).each((_, element) => {
+      const $element = $(element);
+      const href = $element.attr('href')
+        ?? $element.find('a[href]').first().attr('href')
+        ?? $element.closest('a[href]').attr('href');
+      found = resolveHref(href, url);
+      return found ? false : undefined;
+    });
+  } catch {
+    // Invalid selectors simply do not match
+  }
+  return found;
+}
+
+function findNextButton($: cheerio.CheerioAPI, url: string, selector?: string): string | undefined {
+  if (selector) return findLinkBySelector($, url, selector);
+
+  for (const candidate of NEXT_LINK_SELECTORS) {
+    const next = findLinkBySelector($, url, candidate);
+    if (next) return next;
+  }
+
+  let found: string | undefined;
+  $('a[href]').each((_, element) => {
+    if (NEXT_LINK_TEXT.test($(element).text().trim())) {
+      found = resolveHref($(element).attr('href'), url);
+    }
+    return found ? false : undefined;
+  });
+  return found;
+}
+
+function incrementQueryParam(state: PageState, param: string, config?: PaginationConfig): string | undefined {
+  const url = new URL(state.url);
+  const isOffset = OFFSET_PARAM.test(param);
+  const step = config?.step ?? (isOffset ? state.itemCount : 1);
+  if (step <= 0) return undefined;
+
+  const raw = url.searchParams.get(param);
+  const current = raw !== null ? parseInt(raw, 10) : (config?.start ?? (isOffset ? 0 : 1));
+  if (!Number.isFinite(current)) return undefined;
+
+  url.searchParams.set(param, String(current + step));
+  return url.href;
+}
+
+function fillTemplate(config: PaginationConfig, pageNumber: number): string | undefined {
+  if (!config.template) return undefined;
+  const value = (config.start ?? 1) + (pageNumber - 1) * (config.step ?? 1);
+  return config.template.split('{page}').join(String(value));
+}
+
+/**
+ * First URL to scrape. URL templates start at their own first page,
+ * every other strategy starts at the task URL.
+ */
+export function getFirstPageUrl(url: string, config?: PaginationConfig): string {
+  if (config?.strategy === 'url-template') {
+    return fillTemplate(config, 1) ?? url;
+  }
+  return url;
+}
+
+/**
+ * URL of the page after the one just scraped, or undefined when the strategy finds none.
+ * "auto" follows rel="next", then a next button, then an existing page query parameter.
+ */
+export function findNextPageUrl($: cheerio.CheerioAPI, state: PageState, config?: PaginationConfig): string | undefined {
+  switch (config?.strategy ?? 'auto') {
+    case 'none':
+      return undefined;
+    case 'rel-next':
+      return findRelNext($, state.url);
+    case 'next-button':
+      return findNextButton($, state.url, config?.nextSelector);
+    case 'query-param':
+      return incrementQueryParam(state, config?.param || 'page', config);
+    case 'url-template':
+      return fillTemplate(config!, state.pageNumber + 1);
+    default: {
+      const pageParam = config?.param ?? ['page', 'p'].find(param => new URL(state.url).searchParams.has(param));
+      return findRelNext($, state.url)
+        ?? (config?.nextSelector ? findNextButton($, state.url, config.nextSelector) : undefined)
+        ?? findNextButton($, state.url)
+        ?? (pageParam ? incrementQueryParam(state, pageParam, config) : undefined);
+    }
+  }
+}
+
+// Selector of the "next" link on a page, recorded in WebsiteAnalysis.patterns
+export function detectNextSelector($: cheerio.CheerioAPI, url: string): string | undefined {
+  return NEXT_LINK_SELECTORS.find(selector => findLinkBySelector($, url, selector));
+}
+
+// Pages differing only by fragment are the same page
+export function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+// Fingerprint of a page's items, used to stop when a site serves the same page again
+export function fingerprintPage(items: string[]): string {
+  return createHash('sha1').update(items.join('\n')).digest('hex');
+}
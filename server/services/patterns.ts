@@ -0,0 +1,53 @@
+import { RE2JS } from 're2js';
+
+/**
+ * User-supplied regular expressions (seed URL filters, field regexes and
+ * replace transforms) run on RE2, whose matching time is linear in the
+ * input, so a pattern prone to catastrophic backtracking cannot stall the
+ * server. RE2 has no backreferences or lookarounds; patterns using them are
+ * rejected when the task is validated.
+ */
+
+const FLAG_BITS: Record<string, number> = { i: RE2JS.CASE_INSENSITIVE, m: RE2JS.MULTILINE, s: RE2JS.DOTALL };
+const MAX_COMPILED = 500;
+const compiled = new Map<string, RE2JS>();
+
+// Throws on syntax RE2 does not support. "g" is read by replacePattern and "u" is always on
+export function compilePattern(pattern: string, flags = ''): RE2JS {
+  const key = `${flags}/${pattern}`;
+  let regex = compiled.get(key);
+  if (!regex) {
+    if (flags.includes('y')) throw new SyntaxError('The y (sticky) flag is not supported');
+    regex = RE2JS.compile(pattern, Array.from(flags).reduce((bits, flag) => bits | (FLAG_BITS[flag] ?? 0), 0));
+    if (compiled.size >= MAX_COMPILED) compiled.delete(compiled.keys().next().value!);
+    compiled.set(key, regex);
+  }
+  return regex;
+}
+
+export function isValidPattern(pattern: string, flags = ''): boolean {
+  try {
+    compilePattern(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function testPattern(pattern: string, text: string): boolean {
+  return compilePattern(pattern).matcher(text).find();
+}
+
+// The first capture group of the first match, or the whole match for patterns without groups
+export function matchPattern(pattern: string, text: string): string | undefined {
+  const regex = compilePattern(pattern);
+  const matcher = regex.matcher(text);
+  if (!matcher.find()) return undefined;
+  return (regex.groupCount() > 0 ? matcher.group(1) : null) ?? matcher.group(0) ?? undefined;
+}
+
+// String.prototype.replace semantics: every match with the g flag, else the first; $1 and $& in the replacement
+export function replacePattern(text: string, pattern: string, flags: string, replacement: string): string {
+  const matcher = compilePattern(pattern, flags).matcher(text);
+  return flags.includes('g') ? matcher.replaceAll(replacement) : matcher.replaceFirst(replacement);
+}
@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { Agent, buildConnector, ProxyAgent, type Dispatcher } from 'undici';
+import { SocksClient } from 'socks';
+import { proxyServerSchema, proxySettingsSchema, type ProxyHealth, type ProxyServer, type ProxySettings } from '@shared/schema';
+import { storage } from '../storage';
+import { decryptForUser } from './secrets';
+import { checkedLookup, resolveCheckedAddress, safeFetch } from './url-policy';
+import type { Fetcher } from './retry';
+
+export type ProxyOutcome = 'success' | 'failure' | 'banned';
+
+// Statuses sites answer blocked clients with; 503 is only a ban on a challenge page, as servers also send it when overloaded
+const BAN_STATUSES = new Set([403, 429]);
+const CAPTCHA_MARKERS = /g-recaptcha|h-captcha|hcaptcha\.com|challenges\.cloudflare\.com|cf-browser-verification|id=["']?challenge-form|<title>[^<]*(captcha|attention required|access denied|are you a robot)/i;
+const BAN_COOLDOWN = 10 * 60 * 1000;
+const OUTCOME_WEIGHT = 0.2; // Of the latest request in the score's moving average
+const MAX_ATTEMPTS = 3; // Proxies a request is tried through when each one gets banned
+const SNIFF_BYTES = 256 * 1024; // Challenge pages are small; larger bodies are not checked for captchas
+const CONNECT_TIMEOUT = 30000;
+
+export class ProxyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProxyValidationError';
+  }
+}
+
+// The task needs a proxy and none of its proxies can be used
+export class ProxyUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProxyUnavailableError';
+  }
+}
+
+// The site blocked the proxy a browser run goes through; a browser keeps one proxy for the whole run
+export class ProxyBannedError extends Error {
+  constructor(proxy: ProxyServer) {
+    super(`The site blocked proxy ${proxy.name}`);
+    this.name = 'ProxyBannedError';
+  }
+}
+
+// Validate a task's user-supplied proxy settings
+export function buildProxySettings(input: unknown): ProxySettings {
+  const parsed = proxySettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ProxyValidationError(`Invalid proxy setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+const proxyInputSchema = proxyServerSchema.pick({ name: true, protocol: true, host: true, port: true, username: true, password: true, enabled: true });
+export type ProxyInput = z.infer<typeof proxyInputSchema>;
+
+// Validate a user-supplied proxy server; the host is a bare hostname or IP address
+export function buildProxyInput(input: unknown): ProxyInput {
+  const parsed = proxyInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ProxyValidationError(`Invalid proxy setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  if (!/^(\[[\da-f:.]+\]|[\w.-]+)$/i.test(parsed.data.host)) {
+    throw new ProxyValidationError('Invalid proxy setting host: expected a hostname or IP address without scheme or port');
+  }
+  return parsed.data;
+}
+
+// Decide how a request through a proxy went from its response; browsers have no status for in-page navigations
+export function proxyOutcome(status: number | undefined, html = ''): ProxyOutcome {
+  if (status !== undefined && BAN_STATUSES.has(status)) return 'banned';
+  if (CAPTCHA_MARKERS.test(html)) return 'banned';
+  return status !== undefined && status >= 500 ? 'failure' : 'success';
+}
+
+// The start of an HTML body without consuming the response
+async function sniffHtml(response: Response): Promise<string> {
+  if (!/html/i.test(response.headers.get('content-type') || '') || !response.body) return '';
+  if (Number(response.headers.get('content-length')) > SNIFF_BYTES) return '';
+  const reader = response.clone().body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < SNIFF_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  // Not awaited: cancelling a clone's body only settles once the original is cancelled too
+  reader.cancel().catch(() => undefined);
+  return Buffer.concat(chunks).toString('latin1');
+}
+
+function proxyPassword(proxy: ProxyServer): string | undefined {
+  return proxy.password ? decryptForUser(proxy.userId, proxy.password) : undefined;
+}
+
+// Tunnels every connection through the SOCKS5 proxy, adding TLS on top for https origins
+function socksAgent(proxy: ProxyServer): Agent {
+  const tls = buildConnector({ timeout: CONNECT_TIMEOUT });
+  return new Agent({
+    connect: (options, callback) => {
+      const https = options.protocol === 'https:';
+      // The proxy's name is resolved and checked on every connection, as it may point elsewhere since it was saved
+      resolveCheckedAddress(proxy.host).then(host => SocksClient.createConnection({
+        proxy: { host, port: proxy.port, type: 5, userId: proxy.username, password: proxyPassword(proxy) },
+        command: 'connect',
+        destination: { host: options.hostname, port: Number(options.port) || (https ? 443 : 80) },
+        timeout: CONNECT_TIMEOUT,
+      })).then(
+        ({ socket }) => https ? tls({ ...options, httpSocket: socket }, callback) : callback(null, socket),
+        error => callback(error, null)
+      );
+    },
+  });
+}
+
+function createDispatcher(proxy: ProxyServer): Dispatcher {
+  if (proxy.protocol === 'socks5') return socksAgent(proxy);
+  const credentials = proxy.username && `${proxy.username}:${proxyPassword(proxy) ?? ''}`;
+  return new ProxyAgent({
+    uri: `${proxy.protocol}://${proxy.host}:${proxy.port}`,
+    token: credentials ? `Basic ${Buffer.from(credentials).toString('base64')}` : undefined,
+    proxyTls: { lookup: checkedLookup }, // Applies to the connection to the proxy itself, over http too
+  });
+}
+
+/**
+ * The proxies of one run and how they are picked: in turn, one per site
+ * (sticky), or at random weighted by health. Proxies cooling down after a ban
+ * are skipped while any other is available.
+ */
+export class ProxyRotation {
+  private turn = 0;
+  private sticky = new Map<string, string>(); // Hostname to proxy id
+
+  constructor(private pool: ProxyPool, readonly proxies: ProxyServer[], readonly strategy: ProxySettings['strategy']) {}
+
+  get size(): number {
+    return this.proxies.length;
+  }
+
+  pick(url: string, options: { exclude?: string[]; browser?: boolean } = {}): ProxyServer {
+    const available = this.proxies.filter(proxy =>
+      !options.exclude?.includes(proxy.id!) &&
+      // Browsers cannot authenticate to SOCKS proxies
+      !(options.browser && proxy.protocol === 'socks5' && proxy.username)
+    );
+    if (available.length === 0) {
+      throw new ProxyUnavailableError(options.browser
+        ? 'None of the task\'s proxies can be used by browsers; SOCKS5 proxies with a username are not supported'
+        : 'None of the task\'s proxies are left to try');
+    }
+    const now = Date.now();
+    const ready = available.filter(proxy => (this.pool.health(proxy).cooldownUntil?.getTime() ?? 0) <= now);
+    const candidates = ready.length > 0 ? ready : available;
+
+    if (this.strategy === 'sticky') {
+      const host = new URL(url).hostname;
+      const current = candidates.find(proxy => proxy.id === this.sticky.get(host));
+      if (current) return current;
+      const healthiest = candidates.reduce((best, proxy) => this.pool.health(proxy).score > this.pool.health(best).score ? proxy : best);
+      this.sticky.set(host, healthiest.id!);
+      return healthiest;
+    }
+
+    if (this.strategy === 'random') {
+      // A proxy at score 0 still gets an occasional request, so it can recover
+      const weights = candidates.map(proxy => this.pool.health(proxy).score + 1);
+      let roll = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+      for (let i = 0; i < candidates.length; i++) {
+        roll -= weights[i];
+        if (roll < 0) return candidates[i];
+      }
+      return candidates[candidates.length - 1];
+    }
+
+    return candidates[this.turn++ % candidates.length];
+  }
+}
+
+/**
+ * Users' proxy servers: connection pools for them, their health across runs,
+ * and fetchers that send requests through them.
+ */
+export class ProxyPool {
+  private healthById = new Map<string, ProxyHealth>(); // Kept here so concurrent runs update one record
+  private dispatchers = new Map<string, Dispatcher>();
+
+  // The rotation for a task's proxy settings, or undefined when the task does not use proxies
+  async rotation(userId: string, settings?: ProxySettings): Promise<ProxyRotation | undefined> {
+    if (!settings) return undefined;
+    const proxies = (await storage.getProxies(userId))
+      .filter(proxy => proxy.enabled && (!settings.proxyIds || settings.proxyIds.includes(proxy.id!)));
+    if (proxies.length === 0) {
+      throw new ProxyUnavailableError('The task uses proxies but none of its proxies are enabled');
+    }
+    return new ProxyRotation(this, proxies, settings.strategy);
+  }
+
+  health(proxy: ProxyServer): ProxyHealth {
+    return this.healthById.get(proxy.id!) ?? proxy.health;
+  }
+
+  /**
+   * Send each request through a proxy of the rotation. A response that looks
+   * like a ban is retried through another proxy; the last one is returned as is.
+   */
+  fetcher(rotation: ProxyRotation, base: Fetcher = safeFetch): Fetcher {
+    return async (url, init = {}) => {
+      const tried: string[] = [];
+      for (;;) {
+        const proxy = rotation.pick(url, { exclude: tried });
+        tried.push(proxy.id!);
+
+        let response: Response;
+        try {
+          response = await base(url, { ...init, dispatcher: this.dispatcher(proxy) } as RequestInit);
+        } catch (error) {
+          if (!init.signal?.aborted) await this.report(proxy, 'failure');
+          throw error;
+        }
+
+        const outcome = proxyOutcome(response.status, BAN_STATUSES.has(response.status) ? '' : await sniffHtml(response));
+        await this.report(proxy, outcome);
+        if (outcome !== 'banned' || tried.length >= Math.min(MAX_ATTEMPTS, rotation.size)) return response;
+        await response.body?.cancel();
+      }
+    };
+  }
+
+  // Update a proxy's score and counters after a request through it
+  async report(proxy: ProxyServer, outcome: ProxyOutcome): Promise<void> {
+    const current = this.health(proxy);
+    const now = new Date();
+    const score = current.score * (1 - OUTCOME_WEIGHT) + (outcome === 'success' ? 100 : 0) * OUTCOME_WEIGHT;
+    const health: ProxyHealth = {
+      ...current,
+      score: Math.round((outcome === 'banned' ? score / 2 : score) * 10) / 10,
+      successes: current.successes + (outcome === 'success' ? 1 : 0),
+      failures: current.failures + (outcome === 'failure' ? 1 : 0),
+      bans: current.bans + (outcome === 'banned' ? 1 : 0),
+      lastUsedAt: now,
+      ...(outcome === 'banned' && { lastBannedAt: now, cooldownUntil: new Date(now.getTime() + BAN_COOLDOWN) }),
+    };
+    this.healthById.set(proxy.id!, health);
+    await storage.updateProxy(proxy.id!, { health }).catch(error => {
+      console.error(`Failed to save the health of proxy ${proxy.id}:`, error);
+    });
+  }
+
+  // Drop what is kept for a proxy that was edited or deleted
+  forget(proxyId: string): void {
+    this.healthById.delete(proxyId);
+    const dispatcher = this.dispatchers.get(proxyId);
+    this.dispatchers.delete(proxyId);
+    dispatcher?.close().catch(() => undefined);
+  }
+
+  private dispatcher(proxy: ProxyServer): Dispatcher {
+    let dispatcher = this.dispatchers.get(proxy.id!);
+    if (!dispatcher) {
+      dispatcher = createDispatcher(proxy);
+      this.dispatchers.set(proxy.id!, dispatcher);
+    }
+    return dispatcher;
+  }
+}
+
+export const proxyPool = new ProxyPool();
+
+// Proxy settings for a Playwright browser or context
+export function playwrightProxy(proxy: ProxyServer): { server: string; username?: string; password?: string } {
+  return {
+    server: `${proxy.protocol}://${proxy.host}:${proxy.port}`,
+    username: proxy.username,
+    password: proxyPassword(proxy),
+  };
+}
+
+// Chromium flag for a Puppeteer launch; credentials go to page.authenticate()
+export function puppeteerProxyArg(proxy: ProxyServer): string {
+  return `--proxy-server=${proxy.protocol}://${proxy.host}:${proxy.port}`;
+}
+
+export function puppeteerProxyCredentials(proxy: ProxyServer): { username: string; password: string } | null {
+  return proxy.username ? { username: proxy.username, password: proxyPassword(proxy) ?? '' } : null;
+}
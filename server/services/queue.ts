@@ -1,4 +1,7 @@
 import { scraperService } from './scraper';
+import { storage } from '../storage';
+import { computeBackoff, isPermanentFailure, type RetryOptions } from './retry';
+import type { ApiSource, CachePolicy, DetailCrawlConfig, ExtractionSchema, HttpSettings, PaginationConfig, ProxySettings, ScrapingJob, SeedConfig, TableConfig } from '@shared/schema';
 
 // Job data interface
 interface ScrapingJobData {
@@ -8,81 +11,456 @@ interface ScrapingJobData {
   strategy: string;
   maxPages?: number;
   delay?: number;
+  retry?: RetryOptions; // Per-request retry policy inside a single run
+  pagination?: PaginationConfig;
+  detailCrawl?: DetailCrawlConfig;
+  seed?: SeedConfig;
+  extraction?: ExtractionSchema;
+  table?: TableConfig;
+  apiSource?: ApiSource;
+  structuredData?: boolean;
+  recordTraffic?: boolean;
+  cache?: CachePolicy;
+  http?: HttpSettings;
+  proxy?: ProxySettings;
+  replayRunId?: string; // Replays an earlier run's recorded traffic
 }
 
-// Simple in-memory queue for demo purposes
-class SimpleQueue {
-  private jobs: Map<string, ScrapingJobData> = new Map();
-  private processing = false;
+interface AddJobOptions {
+  maxAttempts?: number; // Whole-job attempts before the job is dead-lettered
+  trigger?: ScrapingJob["trigger"];
+}
+
+export interface QueueSettings {
+  concurrency: number;        // Jobs running at once across all sites
+  domainConcurrency: number;  // Jobs running at once against a single hostname
+  domainDelay: number;        // Minimum milliseconds between job starts on the same hostname
+  jobAttempts: number;        // Default whole-job attempts for new jobs
+  retryDelay: number;         // Base backoff in milliseconds between whole-job attempts
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+// Durable queue backed by the active storage (MongoDB or in-memory fallback)
+class PersistentQueue {
+  private started = false;
+  private filling = false;
+  private refillRequested = false;
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private activeCount = 0;
+  private activeByHost = new Map<string, number>();
+  private lastStartByHost = new Map<string, number>();
+
+  private settings: QueueSettings = {
+    concurrency: Math.max(1, readIntEnv('SCRAPER_CONCURRENCY', 4)),
+    domainConcurrency: Math.max(1, readIntEnv('SCRAPER_DOMAIN_CONCURRENCY', 1)),
+    domainDelay: readIntEnv('SCRAPER_DOMAIN_DELAY_MS', 1000),
+    jobAttempts: Math.max(1, readIntEnv('SCRAPER_JOB_ATTEMPTS', 3)),
+    retryDelay: readIntEnv('SCRAPER_JOB_RETRY_DELAY_MS', 30000),
+  };
+
+  /**
+   * Recover jobs left active by a crash or restart and begin processing.
+   * Jobs are only picked up once storage has been initialized.
+   */
+  async start(): Promise<void> {
+    const interrupted = await storage.getScrapingJobs({ states: ['active'] });
+    for (const job of interrupted) {
+      console.log(`Re-queueing interrupted scraping job ${job.id} for task: ${job.taskId}`);
+      await storage.updateScrapingJob(job.id!, { state: 'queued', progress: 0 });
+    }
 
-  async add(name: string, data: ScrapingJobData): Promise<{ id: string; data: ScrapingJobData }> {
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    this.jobs.set(jobId, data);
-    
-    console.log(`Added scraping job ${jobId} for task: ${data.taskId}`);
-    
-    // Process job immediately in background
+    // Make sure jobs waiting out a retry backoff are picked up when it expires
+    const queued = await storage.getScrapingJobs({ states: ['queued'] });
+    for (const job of queued) {
+      if (job.runAfter) this.wakeAt(new Date(job.runAfter).getTime());
+    }
+
+    this.started = true;
     this.processNext();
-    
-    return { id: jobId, data };
   }
 
+  getSettings(): QueueSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(updates: Partial<QueueSettings>): QueueSettings {
+    this.settings = {
+      concurrency: Math.max(1, updates.concurrency ?? this.settings.concurrency),
+      domainConcurrency: Math.max(1, updates.domainConcurrency ?? this.settings.domainConcurrency),
+      domainDelay: Math.max(0, updates.domainDelay ?? this.settings.domainDelay),
+      jobAttempts: Math.max(1, updates.jobAttempts ?? this.settings.jobAttempts),
+      retryDelay: Math.max(0, updates.retryDelay ?? this.settings.retryDelay),
+    };
+
+    // Raised limits may free up slots for waiting jobs
+    this.processNext();
+    return this.getSettings();
+  }
+
+  getStats() {
+    return {
+      active: this.activeCount,
+      activeByHost: Object.fromEntries(this.activeByHost),
+      settings: this.getSettings(),
+    };
+  }
+
+  async add(name: string, data: ScrapingJobData, options: AddJobOptions = {}): Promise<{ id: string; data: ScrapingJobData }> {
+    const job = await storage.createScrapingJob({
+      taskId: data.taskId,
+      name,
+      host: hostOf(data.url),
+      trigger: options.trigger ?? 'manual',
+      data,
+      state: 'queued',
+      attempts: 0,
+      maxAttempts: Math.max(1, options.maxAttempts ?? this.settings.jobAttempts),
+      progress: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    console.log(`Added scraping job ${job.id} for task: ${data.taskId}`);
+
+    // Process job in background
+    this.processNext();
+
+    return { id: job.id!, data };
+  }
+
+  // Fill free worker slots with queued jobs whose hostname is not saturated or cooling down
   private async processNext() {
-    if (this.processing || this.jobs.size === 0) return;
-    
-    this.processing = true;
-    const nextEntry = this.jobs.entries().next();
-    if (nextEntry.done) {
-      this.processing = false;
-      return; // No more jobs
+    if (!this.started) return;
+    if (this.filling) {
+      this.refillRequested = true;
+      return;
+    }
+
+    this.filling = true;
+    try {
+      do {
+        this.refillRequested = false;
+        while (this.activeCount < this.settings.concurrency) {
+          const job = await storage.claimNextScrapingJob(this.getBlockedHosts());
+          if (!job) break;
+          this.launch(job);
+        }
+      } while (this.refillRequested);
+    } catch (error) {
+      console.error('Scraping queue error:', error);
+    } finally {
+      this.filling = false;
+    }
+
+    this.scheduleWake();
+  }
+
+  private getBlockedHosts(): string[] {
+    const now = Date.now();
+    const blocked = new Set<string>();
+
+    this.activeByHost.forEach((count, host) => {
+      if (count >= this.settings.domainConcurrency) blocked.add(host);
+    });
+    this.lastStartByHost.forEach((startedAt, host) => {
+      if (now - startedAt < this.settings.domainDelay) blocked.add(host);
+    });
+
+    return Array.from(blocked);
+  }
+
+  // Wake up when the earliest hostname cooldown ends so delayed jobs are not stranded
+  private scheduleWake() {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const now = Date.now();
+    let nextWake = Infinity;
+    this.lastStartByHost.forEach((startedAt, host) => {
+      const readyAt = startedAt + this.settings.domainDelay;
+      if (readyAt <= now) {
+        this.lastStartByHost.delete(host);
+      } else {
+        nextWake = Math.min(nextWake, readyAt);
+      }
+    });
+
+    if (nextWake !== Infinity && this.activeCount < this.settings.concurrency) {
+      this.wakeTimer = setTimeout(() => {
+        this.wakeTimer = null;
+        this.processNext();
+      }, nextWake - now);
+    }
+  }
+
+  private wakeAt(time: number) {
+    setTimeout(() => this.processNext(), Math.max(0, time - Date.now()));
+  }
+
+  /**
+   * Put a dead-lettered (or otherwise finished) job back in the queue with a
+   * fresh attempt budget.
+   */
+  async requeue(jobId: string): Promise<ScrapingJob | undefined> {
+    const job = await storage.getScrapingJob(jobId);
+    if (!job) return undefined;
+    if (job.state === 'queued' || job.state === 'active' || job.state === 'paused') return job;
+
+    const requeued = await storage.updateScrapingJob(jobId, {
+      state: 'queued',
+      attempts: 0,
+      progress: 0,
+      failedReason: undefined,
+      runAfter: undefined,
+      deadLetteredAt: undefined,
+      finishedAt: undefined
+    });
+    await storage.updateScrapingTask(job.taskId, { status: 'pending', errorMessage: undefined });
+
+    console.log(`Re-queued scraping job ${jobId} for task: ${job.taskId}`);
+    this.processNext();
+    return requeued;
+  }
+
+  /**
+   * Put a task's paused job back in the queue; the scraper picks up its checkpoint.
+   */
+  async resume(taskId: string): Promise<ScrapingJob | undefined> {
+    const [job] = await storage.getScrapingJobs({ taskId, states: ['paused'] });
+    if (!job) return undefined;
+
+    // Pausing is not a failed attempt, so hand back the attempt it used
+    const resumed = await storage.updateScrapingJob(job.id!, {
+      state: 'queued',
+      attempts: Math.max(0, job.attempts - 1),
+      runAfter: undefined,
+      finishedAt: undefined
+    });
+    await storage.updateScrapingTask(taskId, { status: 'pending' });
+
+    console.log(`Resumed scraping job ${job.id} for task: ${taskId}`);
+    this.processNext();
+    return resumed;
+  }
+
+  private launch(job: ScrapingJob) {
+    const host = job.host;
+    this.activeCount++;
+    if (host) {
+      this.activeByHost.set(host, (this.activeByHost.get(host) || 0) + 1);
+      this.lastStartByHost.set(host, Date.now());
     }
-    const [jobId, jobData] = nextEntry.value;
-    this.jobs.delete(jobId);
-    
+
+    this.runJob(job).finally(() => {
+      this.activeCount--;
+      if (host) {
+        const remaining = (this.activeByHost.get(host) || 1) - 1;
+        if (remaining > 0) {
+          this.activeByHost.set(host, remaining);
+        } else {
+          this.activeByHost.delete(host);
+        }
+      }
+      this.processNext();
+    });
+  }
+
+  private async runJob(job: ScrapingJob) {
+    const jobData = job.data as ScrapingJobData;
+
     try {
-      console.log(`Processing scraping job ${jobId} for task: ${jobData.taskId}`);
-      
-      await scraperService.startScraping(jobData.taskId, {
+      console.log(`Processing scraping job ${job.id} for task: ${jobData.taskId} (attempt ${job.attempts})`);
+
+      const outcome = await scraperService.startScraping(jobData.taskId, {
         url: jobData.url,
         selectors: jobData.selectors,
         strategy: jobData.strategy,
         maxPages: jobData.maxPages,
-        delay: jobData.delay
+        delay: jobData.delay,
+        retry: jobData.retry,
+        pagination: jobData.pagination,
+        detailCrawl: jobData.detailCrawl,
+        seed: jobData.seed,
+        extraction: jobData.extraction,
+        table: jobData.table,
+        apiSource: jobData.apiSource,
+        structuredData: jobData.structuredData,
+        recordTraffic: jobData.recordTraffic,
+        cache: jobData.cache,
+        http: jobData.http,
+        proxy: jobData.proxy,
+        replayRunId: jobData.replayRunId,
+        jobId: job.id,
+        trigger: job.trigger
       });
-      
-      console.log(`Scraping job ${jobId} completed successfully`);
+
+      if (outcome === 'paused') {
+        await this.finishJob(job.id!, { state: 'paused' });
+        console.log(`Scraping job ${job.id} paused`);
+        return;
+      }
+
+      if (outcome === 'cancelled') {
+        await this.finishJob(job.id!, { state: 'cancelled' });
+        console.log(`Scraping job ${job.id} cancelled`);
+        return;
+      }
+
+      await this.finishJob(job.id!, { state: 'completed', progress: 100 });
+      console.log(`Scraping job ${job.id} completed successfully`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`Scraping job ${jobId} failed:`, errorMessage);
-    }
-    
-    this.processing = false;
-    
-    // Process next job if any
-    if (this.jobs.size > 0) {
-      setTimeout(() => this.processNext(), 1000);
+      console.error(`Scraping job ${job.id} failed:`, errorMessage);
+
+      if (job.attempts < job.maxAttempts && !isPermanentFailure(error)) {
+        await this.scheduleRetry(job, errorMessage);
+      } else {
+        await this.finishJob(job.id!, { state: 'failed', failedReason: errorMessage, deadLetteredAt: new Date() });
+      }
     }
   }
+
+  private async scheduleRetry(job: ScrapingJob, errorMessage: string) {
+    const current = await storage.getScrapingJob(job.id!);
+    if (!current || current.state === 'cancelled') return;
+
+    const delay = computeBackoff(job.attempts, { baseDelay: this.settings.retryDelay, maxDelay: this.settings.retryDelay * 16 });
+    const runAfter = new Date(Date.now() + delay);
+
+    await storage.updateScrapingJob(job.id!, { state: 'queued', failedReason: errorMessage, runAfter });
+    await storage.updateScrapingTask(job.taskId, { status: 'pending' });
+    await storage.createTaskLog({
+      taskId: job.taskId,
+      level: 'warning',
+      message: `Scraping attempt ${job.attempts} of ${job.maxAttempts} failed, retrying in ${Math.round(delay / 1000)}s`,
+      metadata: { jobId: job.id, error: errorMessage, runAfter },
+      createdAt: new Date()
+    });
+
+    console.log(`Scraping job ${job.id} will retry after ${runAfter.toISOString()}`);
+    this.wakeAt(runAfter.getTime());
+  }
+
+  // Record the outcome unless the job was cancelled while it was running
+  private async finishJob(jobId: string, updates: Partial<ScrapingJob>) {
+    const current = await storage.getScrapingJob(jobId);
+    if (!current || current.state === 'cancelled') return;
+
+    await storage.updateScrapingJob(jobId, { ...updates, finishedAt: new Date() });
+  }
 }
 
-const scrapingQueue = new SimpleQueue();
+const scrapingQueue = new PersistentQueue();
 
-export async function addScrapingJob(data: ScrapingJobData): Promise<{ id: string; data: ScrapingJobData }> {
-  return await scrapingQueue.add('scrape-website', data);
+export async function startScrapingQueue(): Promise<void> {
+  await scrapingQueue.start();
+}
+
+export function getQueueSettings(): QueueSettings {
+  return scrapingQueue.getSettings();
+}
+
+export function updateQueueSettings(updates: Partial<QueueSettings>): QueueSettings {
+  return scrapingQueue.updateSettings(updates);
+}
+
+export function getQueueStats() {
+  return scrapingQueue.getStats();
+}
+
+export async function addScrapingJob(data: ScrapingJobData, options?: AddJobOptions): Promise<{ id: string; data: ScrapingJobData }> {
+  return await scrapingQueue.add('scrape-website', data, options);
+}
+
+export async function requeueJob(jobId: string): Promise<ScrapingJob | undefined> {
+  return await scrapingQueue.requeue(jobId);
+}
+
+export async function resumeTask(taskId: string): Promise<ScrapingJob | undefined> {
+  return await scrapingQueue.resume(taskId);
+}
+
+// Jobs that exhausted their attempts or failed permanently, newest first
+export async function getDeadLetterJobs(taskIds?: string[]): Promise<ScrapingJob[]> {
+  const failed = await storage.getScrapingJobs({ states: ['failed'] });
+  return failed.filter(job => !taskIds || taskIds.includes(job.taskId));
 }
 
 export async function getJobStatus(jobId: string) {
-  // For simple queue, jobs are processed immediately
+  const job = await storage.getScrapingJob(jobId);
+  if (!job) return undefined;
+
+  // Active jobs report the live progress of the task they are running
+  let progress = job.progress;
+  if (job.state === 'active') {
+    const task = await storage.getScrapingTask(job.taskId);
+    progress = task?.progress ?? progress;
+  }
+
   return {
-    id: jobId,
-    progress: 100,
-    state: 'completed',
-    data: null,
-    failedReason: null,
+    id: job.id!,
+    taskId: job.taskId,
+    progress,
+    state: job.state,
+    data: job.data,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    failedReason: job.failedReason ?? null,
+    runAfter: job.runAfter ?? null,
+    deadLetteredAt: job.deadLetteredAt ?? null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
   };
 }
 
-export async function removeJob(jobId: string) {
-  // No-op for simple queue
-  console.log(`Job ${jobId} removal requested`);
+/**
+ * Cancel a queued, running or paused job, or delete a job that has already finished.
+ * Returns false when the job does not exist.
+ */
+export async function removeJob(jobId: string): Promise<boolean> {
+  const job = await storage.getScrapingJob(jobId);
+  if (!job) return false;
+
+  if (job.state === 'queued' || job.state === 'active' || job.state === 'paused') {
+    await storage.updateScrapingJob(jobId, { state: 'cancelled', finishedAt: new Date() });
+    if (job.state === 'active' || job.state === 'paused') {
+      await scraperService.stopTask(job.taskId);
+    }
+    console.log(`Scraping job ${jobId} cancelled`);
+  } else {
+    await storage.deleteScrapingJob(jobId);
+    console.log(`Scraping job ${jobId} removed`);
+  }
+
+  return true;
+}
+
+/**
+ * Cancel every open job of a task and stop its run if one is in progress.
+ * Returns false when the task had nothing to cancel.
+ */
+export async function cancelTask(taskId: string): Promise<boolean> {
+  const jobs = await storage.getScrapingJobs({ taskId, states: ['queued', 'active', 'paused'] });
+  for (const job of jobs) {
+    await storage.updateScrapingJob(job.id!, { state: 'cancelled', finishedAt: new Date() });
+    console.log(`Scraping job ${job.id} cancelled`);
+  }
+
+  const stopped = await scraperService.stopTask(taskId);
+  return stopped || jobs.length > 0;
 }
@@ -0,0 +1,120 @@
+import { retrySettingsSchema, type RetrySettings } from '@shared/schema';
+import { delay as wait } from './cancellation';
+import { safeFetch, UrlPolicyError } from './url-policy';
+
+// safeFetch, or a stand-in that records or replays its traffic
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface RetryOptions {
+  attempts?: number;   // Total tries including the first request
+  baseDelay?: number;  // Milliseconds before the first retry, doubled on each attempt
+  maxDelay?: number;   // Upper bound for a single backoff (and for honored Retry-After values)
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  attempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+};
+
+// Statuses worth trying again: timeouts, rate limiting and server-side failures
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class RetryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryValidationError';
+  }
+}
+
+// Validate a task's user-supplied retry settings
+export function buildRetrySettings(input: unknown): RetrySettings {
+  const parsed = retrySettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new RetryValidationError(`Invalid retry setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, statusText: string, public retryAfter?: number) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between half and all of
+ * baseDelay * 2^(attempt - 1), capped at maxDelay.
+ */
+export function computeBackoff(attempt: number, options: RetryOptions = {}): number {
+  const { baseDelay, maxDelay } = { ...DEFAULT_RETRY, ...options };
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+// Retry-After may be a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Failures that will not go away by trying again, such as 404 or 403 responses
+export function isPermanentFailure(error: unknown): boolean {
+  if (error instanceof UrlPolicyError) return true;
+  return error instanceof HttpError && !RETRYABLE_STATUSES.has(error.status);
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) return RETRYABLE_STATUSES.has(error.status);
+  // Network-level failures (DNS, reset connections, timeouts) surface as TypeError from fetch
+  return error instanceof TypeError || (error instanceof Error && error.name === 'TimeoutError');
+}
+
+/**
+ * fetch() that retries network errors and retryable HTTP statuses, waiting
+ * for Retry-After on 429/503 responses and backing off otherwise.
+ * Non-retryable responses (e.g. 404) throw an HttpError immediately, and URLs
+ * the URL policy blocks (including redirect targets) throw an UrlPolicyError.
+ * Aborting init.signal stops both the request and any pending backoff.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {},
+  onRetry?: (attempt: number, delay: number, error: Error) => void | Promise<void>,
+  fetcher: Fetcher = safeFetch
+): Promise<Response> {
+  const settings = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetcher(url, init);
+      if (!response.ok) {
+        const retryAfter = response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('retry-after'))
+          : undefined;
+        throw new HttpError(response.status, response.statusText, retryAfter);
+      }
+      return response;
+    } catch (error) {
+      if (init.signal?.aborted || attempt >= settings.attempts || !isRetryable(error)) throw error;
+
+      const retryAfter = error instanceof HttpError ? error.retryAfter : undefined;
+      const delay = retryAfter !== undefined
+        ? Math.min(retryAfter, settings.maxDelay)
+        : computeBackoff(attempt, settings);
+
+      if (onRetry) {
+        await onRetry(attempt, delay, error as Error);
+      }
+      await wait(delay, init.signal ?? undefined);
+    }
+  }
+}
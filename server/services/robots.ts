@@ -0,0 +1,228 @@
+import { storage } from '../storage';
+import { delay, throwIfCancelled } from './cancellation';
+import { readBodyStart } from './http-client';
+import { safeFetch, UrlPolicyError } from './url-policy';
+import type { RobotsOverride } from '@shared/schema';
+
+// Product token matched against robots.txt User-agent lines
+export const ROBOTS_USER_AGENT = process.env.ROBOTS_USER_AGENT || 'DataScrapeAI';
+
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+const UNREACHABLE_TTL = 5 * 60 * 1000;
+const FETCH_TIMEOUT = 10000;
+const MAX_ROBOTS_SIZE = 500 * 1024; // RFC 9309 lets crawlers ignore anything past 500 KiB
+const MAX_CRAWL_DELAY = 60; // Seconds; longer delays would stall a run for good
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+// The rules that apply to our user agent
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  rule?: string; // The matching "Allow: ..." or "Disallow: ..." line
+  crawlDelay?: number;
+}
+
+const ALLOW_ALL: RobotsPolicy = { rules: [] };
+const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/', regex: /^\// }] };
+
+function toRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Rules for one user agent: the groups naming the longest matching product
+ * token, or the "*" groups when none does. Groups for the same agent are merged.
+ */
+export function parseRobotsTxt(text: string, userAgent = ROBOTS_USER_AGENT): RobotsPolicy {
+  const groups: { agents: string[]; lines: { key: string; value: string }[] }[] = [];
+  let current: (typeof groups)[number] | undefined;
+  let inAgentList = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !inAgentList) {
+        current = { agents: [], lines: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentList = true;
+    } else if (current && (key === 'allow' || key === 'disallow' || key === 'crawl-delay')) {
+      current.lines.push({ key, value });
+      inAgentList = false;
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const matchLength = (agent: string) => agent !== '*' && token.includes(agent) ? agent.length : 0;
+  const best = Math.max(0, ...groups.flatMap(group => group.agents.map(matchLength)));
+  const selected = groups.filter(group => best > 0
+    ? group.agents.some(agent => matchLength(agent) === best)
+    : group.agents.includes('*'));
+
+  const policy: RobotsPolicy = { rules: [] };
+  for (const { key, value } of selected.flatMap(group => group.lines)) {
+    if (key === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) policy.crawlDelay = Math.min(seconds, MAX_CRAWL_DELAY);
+    } else if (value) {
+      // An empty Disallow allows everything and needs no rule
+      policy.rules.push({ allow: key === 'allow', pattern: value, regex: toRegex(value) });
+    }
+  }
+  return policy;
+}
+
+/**
+ * The longest matching pattern wins; Allow wins a tie. Paths no rule matches are allowed.
+ */
+export function checkPath(policy: RobotsPolicy, path: string): RobotsDecision {
+  let match: RobotsRule | undefined;
+  for (const rule of policy.rules) {
+    if (!rule.regex.test(path)) continue;
+    if (!match || rule.pattern.length > match.pattern.length || (rule.pattern.length === match.pattern.length && rule.allow)) {
+      match = rule;
+    }
+  }
+
+  return {
+    allowed: match?.allow ?? true,
+    rule: match && `${match.allow ? 'Allow' : 'Disallow'}: ${match.pattern}`,
+    crawlDelay: policy.crawlDelay
+  };
+}
+
+/**
+ * Fetches and caches robots.txt per origin, and spaces requests to each
+ * origin by its Crawl-delay across all running tasks.
+ */
+export class RobotsService {
+  private cache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+  private loading = new Map<string, Promise<RobotsPolicy>>();
+  private nextSlot = new Map<string, number>();
+
+  async check(url: string): Promise<RobotsDecision> {
+    const parsed = new URL(url);
+    const policy = await this.getPolicy(parsed.origin);
+    return checkPath(policy, `${parsed.pathname}${parsed.search}`);
+  }
+
+  // Resolves once a request to the URL's origin keeps its Crawl-delay
+  async waitForTurn(url: string, crawlDelay: number | undefined, signal?: AbortSignal): Promise<void> {
+    if (!crawlDelay) return;
+
+    const origin = new URL(url).origin;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(origin) ?? 0);
+    // Claim the slot before waiting so concurrent runs queue up behind each other
+    this.nextSlot.set(origin, slot + crawlDelay * 1000);
+    if (slot > now) await delay(slot - now, signal);
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  private async getPolicy(origin: string): Promise<RobotsPolicy> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+    let loading = this.loading.get(origin);
+    if (!loading) {
+      loading = this.fetchPolicy(origin, cached?.policy).finally(() => this.loading.delete(origin));
+      this.loading.set(origin, loading);
+    }
+    return await loading;
+  }
+
+  private async fetchPolicy(origin: string, stale?: RobotsPolicy): Promise<RobotsPolicy> {
+    const remember = (policy: RobotsPolicy, ttl: number) => {
+      this.cache.set(origin, { policy, expiresAt: Date.now() + ttl });
+      return policy;
+    };
+
+    try {
+      const response = await safeFetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': ROBOTS_USER_AGENT },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT)
+      });
+
+      // A missing robots.txt allows everything; a failing server is treated as a full disallow (RFC 9309)
+      if (response.status >= 400 && response.status < 500) return remember(ALLOW_ALL, CACHE_TTL);
+      if (!response.ok) return remember(stale ?? DISALLOW_ALL, UNREACHABLE_TTL);
+
+      const text = (await readBodyStart(response, MAX_ROBOTS_SIZE)).toString('utf8');
+      return remember(parseRobotsTxt(text), CACHE_TTL);
+    } catch (error) {
+      // A blocked origin is reported as such rather than cached as a robots.txt verdict
+      if (error instanceof UrlPolicyError) throw error;
+      console.error(`Failed to fetch robots.txt for ${origin}:`, error);
+      return remember(stale ?? DISALLOW_ALL, UNREACHABLE_TTL);
+    }
+  }
+}
+
+export const robotsService = new RobotsService();
+
+/**
+ * Sits in front of every page request of one run. Disallowed URLs are
+ * logged and skipped unless an admin has overridden robots.txt for the task;
+ * Crawl-delay applies either way.
+ */
+export class RobotsGate {
+  private overrideLogged = false;
+
+  constructor(private taskId: string, private override?: RobotsOverride, private signal?: AbortSignal) {}
+
+  async allow(url: string): Promise<boolean> {
+    throwIfCancelled(this.signal);
+    const decision = await robotsService.check(url);
+
+    if (!decision.allowed) {
+      if (!this.override) {
+        await storage.createTaskLog({
+          taskId: this.taskId,
+          level: 'warning',
+          message: 'Skipped URL disallowed by robots.txt',
+          metadata: { url, rule: decision.rule, userAgent: ROBOTS_USER_AGENT },
+          createdAt: new Date()
+        });
+        return false;
+      }
+
+      if (!this.overrideLogged) {
+        this.overrideLogged = true;
+        await storage.createTaskLog({
+          taskId: this.taskId,
+          level: 'warning',
+          message: 'Scraping URLs disallowed by robots.txt under an admin override',
+          metadata: { url, rule: decision.rule, overriddenBy: this.override.userId, reason: this.override.reason },
+          createdAt: new Date()
+        });
+      }
+    }
+
+    await robotsService.waitForTurn(url, decision.crawlDelay, this.signal);
+    return true;
+  }
+}
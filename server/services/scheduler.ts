@@ -0,0 +1,219 @@
+import { CronExpressionParser } from 'cron-parser';
+import { storage } from '../storage';
+import { addScrapingJob } from './queue';
+import { advancedScraperService } from './advanced-scraper';
+import { taskScheduleSchema, type ScrapingTask, type TaskSchedule } from '@shared/schema';
+
+const TICK_INTERVAL = 30 * 1000;
+
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleValidationError';
+  }
+}
+
+function assertValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new ScheduleValidationError(`Unknown timezone: ${timezone}`);
+  }
+}
+
+/**
+ * Next run times for a cron expression in the given timezone, starting after `from`.
+ * Throws ScheduleValidationError for invalid expressions or timezones.
+ */
+export function getNextRunTimes(cron: string, timezone = 'UTC', count = 5, from: Date = new Date()): Date[] {
+  assertValidTimezone(timezone);
+
+  try {
+    const expression = CronExpressionParser.parse(cron, { currentDate: from, tz: timezone, strict: false });
+    return expression.take(count).map(date => date.toDate());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid cron expression';
+    throw new ScheduleValidationError(`Invalid cron expression "${cron}": ${message}`);
+  }
+}
+
+export function getNextRunTime(cron: string, timezone = 'UTC', from: Date = new Date()): Date | undefined {
+  return getNextRunTimes(cron, timezone, 1, from)[0];
+}
+
+// Polls for tasks whose schedule is due and enqueues a run for each of them
+class TaskScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    if (this.ticking) return;
+
+    this.ticking = true;
+    try {
+      const now = new Date();
+      const dueTasks = await storage.getDueScheduledTasks(now);
+      for (const task of dueTasks) {
+        await this.runScheduledTask(task, now);
+      }
+    } catch (error) {
+      console.error('Scheduler tick error:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runScheduledTask(task: ScrapingTask, now: Date) {
+    const schedule = task.schedule!;
+
+    // Advance the schedule before enqueueing so a crash cannot fire the same run twice
+    let nextRunAt: Date | undefined;
+    try {
+      nextRunAt = getNextRunTime(schedule.cron, schedule.timezone, now);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Invalid schedule';
+      await storage.updateScrapingTask(task.id!, { schedule: { ...schedule, enabled: false, nextRunAt: undefined } });
+      await storage.createTaskLog({
+        taskId: task.id!,
+        level: 'error',
+        message: `Schedule disabled: ${errorMessage}`,
+        createdAt: new Date()
+      });
+      return;
+    }
+
+    await storage.updateScrapingTask(task.id!, {
+      schedule: { ...schedule, nextRunAt, lastRunAt: now }
+    });
+
+    // Skip this occurrence if the previous run is still queued, running or paused. Advanced tasks run outside the queue
+    const pending = task.render
+      ? advancedScraperService.isRunning(task.id!)
+      : (await storage.getScrapingJobs({ taskId: task.id!, states: ['queued', 'active', 'paused'] })).length > 0;
+    if (pending) {
+      await storage.createTaskLog({
+        taskId: task.id!,
+        level: 'warning',
+        message: 'Skipped scheduled run because the previous run has not finished',
+        metadata: { scheduledFor: schedule.nextRunAt, nextRunAt },
+        createdAt: new Date()
+      });
+      return;
+    }
+
+    if (task.render) {
+      advancedScraperService.startAdvancedScraping(task.id!, {
+        url: task.url,
+        selectors: {},
+        strategy: task.strategy || 'Advanced dynamic scraping',
+        maxPages: schedule.maxPages,
+        delay: schedule.delay,
+        ...task.render,
+        waitForNetworkIdle: true,
+        actions: task.actions,
+        captureScreenshots: task.captureScreenshots,
+        pagination: task.pagination,
+        extraction: task.extraction,
+        table: task.table,
+        structuredData: task.structuredData,
+        recordTraffic: task.recordTraffic,
+        cache: task.cache,
+        http: task.http,
+        proxy: task.proxy,
+        trigger: 'schedule'
+      }).catch(error => {
+        console.error(`Scheduled advanced run error for task ${task.id}:`, error);
+      });
+      await storage.createTaskLog({
+        taskId: task.id!,
+        level: 'info',
+        message: 'Scheduled run started',
+        metadata: { cron: schedule.cron, timezone: schedule.timezone, nextRunAt },
+        createdAt: new Date()
+      });
+      return;
+    }
+
+    const job = await addScrapingJob({
+      taskId: task.id!,
+      url: task.url,
+      selectors: task.selectors || {},
+      strategy: task.strategy || 'Standard web scraping',
+      maxPages: schedule.maxPages,
+      delay: schedule.delay,
+      retry: task.retry && { attempts: task.retry.attempts },
+      pagination: task.pagination,
+      detailCrawl: task.detailCrawl,
+      seed: task.seed,
+      extraction: task.extraction,
+      table: task.table,
+      apiSource: task.apiSource,
+      structuredData: task.structuredData,
+      recordTraffic: task.recordTraffic,
+      cache: task.cache,
+      http: task.http,
+      proxy: task.proxy
+    }, { trigger: 'schedule', maxAttempts: task.retry?.jobAttempts });
+
+    await storage.updateScrapingTask(task.id!, { status: 'pending' });
+    await storage.createTaskLog({
+      taskId: task.id!,
+      level: 'info',
+      message: 'Scheduled run enqueued',
+      metadata: { jobId: job.id, cron: schedule.cron, timezone: schedule.timezone, nextRunAt },
+      createdAt: new Date()
+    });
+
+    console.log(`Enqueued scheduled run ${job.id} for task: ${task.id}`);
+  }
+}
+
+const taskScheduler = new TaskScheduler();
+
+export function startTaskScheduler() {
+  taskScheduler.start();
+}
+
+/**
+ * Build a validated schedule with its next run time computed.
+ * Disabled schedules keep their settings but have no next run.
+ */
+export function buildTaskSchedule(input: {
+  cron: string;
+  timezone?: string;
+  enabled?: boolean;
+  maxPages?: number;
+  delay?: number;
+}, previous?: TaskSchedule): TaskSchedule {
+  const timezone = input.timezone || 'UTC';
+  const enabled = input.enabled ?? true;
+  const nextRunAt = getNextRunTime(input.cron, timezone);
+
+  const parsed = taskScheduleSchema.safeParse({
+    cron: input.cron,
+    timezone,
+    enabled,
+    maxPages: input.maxPages,
+    delay: input.delay,
+    nextRunAt: enabled ? nextRunAt : undefined,
+    lastRunAt: previous?.lastRunAt,
+  });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ScheduleValidationError(`Invalid schedule setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return parsed.data;
+}
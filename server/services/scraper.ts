@@ -1,7 +1,27 @@
 // Removed puppeteer - using HTTP requests instead
 import * as cheerio from 'cheerio';
 import { storage } from '../storage';
+import { changeDetectionService } from './change-detection';
 import { WebSocketServer } from 'ws';
+import { fetchWithRetry, HttpError, type RetryOptions } from './retry';
+import { delay, throwIfCancelled } from './cancellation';
+import { findNextPageUrl, fingerprintPage, getFirstPageUrl, normalizePageUrl } from './pagination';
+import { DetailCrawler } from './detail-crawler';
+import { SeedDiscovery } from './seeds';
+import { RobotsGate } from './robots';
+import { extractFields, selectItems } from './extraction';
+import { documentBaseUrl, resolveUrl } from './transforms';
+import { extractStructuredItems } from './structured-data';
+import { extractTableRecords } from './tables';
+import { apiRequestInit, extractApiItems, nextApiPageUrl, parseApiResponse } from './api-source';
+import { cookieHeader, loadStorageState, LoginError, looksLoggedOut, type StorageState } from './auth-session';
+import { advancedScraperService } from './advanced-scraper';
+import { loadTrafficArchive, offlineRobotsGate, saveTrafficArchive, TrafficRecorder, TrafficReplayer } from './traffic-archive';
+import { emptyCacheStats, httpCache } from './http-cache';
+import { countFetch, DEFAULT_HTTP_SETTINGS, emptyFetchStats, readText, requestHeaders, withTimeout } from './http-client';
+import { proxyPool } from './proxy-pool';
+import { safeFetch } from './url-policy';
+import type { ApiSource, CachePolicy, DetailCrawlConfig, ExtractionSchema, HttpSettings, PaginationConfig, ProxySettings, ScrapingTask, SeedConfig, TableConfig, TaskCheckpoint, TaskRun } from '@shared/schema';
 
 interface ScrapingOptions {
   url: string;
@@ -9,11 +29,28 @@ interface ScrapingOptions {
   strategy: string;
   maxPages?: number;
   delay?: number;
+  retry?: RetryOptions;
+  pagination?: PaginationConfig;
+  detailCrawl?: DetailCrawlConfig;
+  seed?: SeedConfig;
+  extraction?: ExtractionSchema;
+  table?: TableConfig;
+  apiSource?: ApiSource;
+  structuredData?: boolean;
+  recordTraffic?: boolean;
+  replayRunId?: string; // Serve every request from this run's recorded traffic instead of the network
+  cache?: CachePolicy;
+  http?: HttpSettings;
+  proxy?: ProxySettings;
+  jobId?: string;
+  trigger?: TaskRun["trigger"];
 }
 
+export type ScrapingOutcome = 'completed' | 'paused' | 'cancelled';
+
 interface ScrapingProgress {
   taskId: string;
-  status: 'running' | 'completed' | 'failed' | 'paused';
+  status: 'running' | 'completed' | 'failed' | 'paused' | 'cancelled';
   progress: number;
   totalItems: number;
   scrapedItems: number;
@@ -44,41 +81,260 @@ export class ScraperService {
     }
   }
 
-  async startScraping(taskId: string, options: ScrapingOptions): Promise<void> {
+  // A checkpoint is only resumed by the job that wrote it (after a pause, crash or retry)
+  private async getResumableCheckpoint(taskId: string, jobId?: string): Promise<TaskCheckpoint | undefined> {
+    if (!jobId) return undefined;
+
+    const task = await storage.getScrapingTask(taskId);
+    const checkpoint = task?.checkpoint;
+    if (!checkpoint || checkpoint.jobId !== jobId) return undefined;
+
+    const run = await storage.getTaskRun(checkpoint.runId);
+    return run ? checkpoint : undefined;
+  }
+
+  // Fetch a page (or API response) with the run's retry policy and abort signal, logging each retry
+  private async fetchPage(
+    taskId: string,
+    url: string,
+    options: ScrapingOptions,
+    signal: AbortSignal,
+    onRetry: (attempt: number, delay: number, error: Error) => void,
+    metadata: Record<string, any> = {},
+    init: RequestInit = {}
+  ): Promise<string> {
+    // Tasks behind a login send the cookies of their session
+    const active = this.activeTasks.get(taskId);
+    const session: StorageState | undefined = active?.session;
+    const cookies = session && cookieHeader(session, url);
+    const started = performance.now();
+    const response = await fetchWithRetry(url, {
+      ...init,
+      headers: {
+        ...requestHeaders(options.http, cookies),
+        ...(init.headers as Record<string, string> | undefined)
+      },
+      signal
+    }, options.retry, async (attempt, delay, error) => {
+      onRetry(attempt, delay, error);
+      await storage.createTaskLog({
+        taskId,
+        level: 'warning',
+        message: `Request failed (${error.message}), retrying in ${Math.round(delay / 1000)}s`,
+        metadata: { url, ...metadata, attempt, delay },
+        createdAt: new Date()
+      });
+    }, withTimeout(active?.fetcher ?? safeFetch, (options.http ?? DEFAULT_HTTP_SETTINGS).timeout));
+    const { text, bytes } = await readText(response, options.http);
+    if (active?.fetchStats) countFetch(active.fetchStats, bytes, performance.now() - started);
+    return text;
+  }
+
+  /**
+   * Fetch a page of a task behind a login. A page showing the login form (or a
+   * 401 response) means the saved session expired: log in again, once per run,
+   * and fetch the page again.
+   */
+  private async fetchLoggedIn(task: ScrapingTask, signal: AbortSignal, fetch: () => Promise<string>): Promise<string> {
+    const login = task.login;
+    const active = this.activeTasks.get(task.id!);
+    // Replays serve the pages as recorded, logged in or not
+    if (!login || active.replaying) return fetch();
+
+    for (;;) {
+      let content: string | undefined;
+      try {
+        content = await fetch();
+      } catch (error) {
+        if (!(error instanceof HttpError && error.status === 401)) throw error;
+      }
+      if (content !== undefined && !looksLoggedOut(content, login)) return content;
+
+      if (active.reloggedIn) throw new LoginError('The site still asks for a login after logging in again');
+      active.reloggedIn = true;
+      await storage.createTaskLog({
+        taskId: task.id!,
+        level: 'warning',
+        message: 'Session expired, logging in again',
+        metadata: { runId: active.runId },
+        createdAt: new Date()
+      });
+      active.session = await advancedScraperService.login(task, signal, active.proxies?.pick(login.formUrl, { browser: true }));
+    }
+  }
+
+  // URLs listed by the task's sitemaps or feeds; incremental crawls skip entries older than the last completed run
+  private async discoverSeeds(taskId: string, runId: string, options: ScrapingOptions, signal: AbortSignal): Promise<string[]> {
+    const seed = options.seed!;
+    const previousRun = seed.incremental
+      ? (await storage.getTaskRuns(taskId)).find(taskRun => taskRun.status === 'completed' && !taskRun.replayOf && taskRun.id !== runId)
+      : undefined;
+
+    const warnings: { message: string; metadata: Record<string, any> }[] = [];
+    const urls = await new SeedDiscovery(seed, {
+      modifiedSince: previousRun?.startedAt,
+      retry: options.retry,
+      signal,
+      onWarning: (message, metadata) => warnings.push({ message, metadata }),
+      fetcher: this.activeTasks.get(taskId)?.fetcher,
+      http: options.http
+    }).discover(options.url);
+
+    for (const warning of warnings) {
+      await storage.createTaskLog({ taskId, level: 'warning', message: warning.message, metadata: warning.metadata, createdAt: new Date() });
+    }
+    await storage.createTaskLog({
+      taskId,
+      level: urls.length > 0 ? 'info' : 'warning',
+      message: `Found ${urls.length} URLs to scrape in the ${seed.mode === 'feed' ? 'feed' : 'sitemap'}`,
+      metadata: { runId, source: seed.source, modifiedSince: previousRun?.startedAt ?? seed.modifiedSince },
+      createdAt: new Date()
+    });
+    return urls;
+  }
+
+  async startScraping(taskId: string, options: ScrapingOptions): Promise<ScrapingOutcome> {
+    const checkpoint = await this.getResumableCheckpoint(taskId, options.jobId);
+    const run = checkpoint
+      ? await storage.updateTaskRun(checkpoint.runId, { status: 'running', errorMessage: undefined, finishedAt: undefined })
+      : await storage.createTaskRun({
+          taskId,
+          jobId: options.jobId,
+          trigger: options.trigger || 'manual',
+          scraper: 'static',
+          status: 'running',
+          replayOf: options.replayRunId,
+          itemsScraped: 0,
+          pagesVisited: 0,
+          errorCount: 0,
+          startedAt: new Date()
+        });
+    let scrapedCount = checkpoint?.scrapedCount ?? 0;
+    let pagesVisited = checkpoint?.pagesVisited ?? 0;
+    let errorCount = checkpoint?.errorCount ?? 0;
+    const cacheStats = { ...emptyCacheStats(), ...run.cacheStats };
+    const fetchStats = { ...emptyFetchStats(), ...run.fetchStats };
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+    this.activeTasks.set(taskId, { active: true, pauseRequested: false, controller, runId: run.id, reloggedIn: false, fetchStats });
+    let recorder: TrafficRecorder | undefined;
+
     try {
-      await storage.updateScrapingTask(taskId, { status: 'running' });
+      const task = await storage.updateScrapingTask(taskId, { status: 'running' });
+
+      // Replays answer every request from an earlier run's archive, bypassing the cache; recording resumes the
+      // archive of a paused run and keeps what the cache answered
+      const replayed = !!options.replayRunId;
+      const proxies = replayed ? undefined : await proxyPool.rotation(task.userId, options.proxy);
+      this.activeTasks.get(taskId).proxies = proxies;
+      const maxBodySize = (options.http ?? DEFAULT_HTTP_SETTINGS).maxBodySize;
+      const cachedFetch = httpCache.fetcher(options.cache, cacheStats, proxies ? proxyPool.fetcher(proxies) : safeFetch, maxBodySize);
+      if (replayed) {
+        const archive = await loadTrafficArchive(await storage.getTaskRun(options.replayRunId!));
+        this.activeTasks.get(taskId).fetcher = new TrafficReplayer(archive).fetch;
+        this.activeTasks.get(taskId).replaying = true;
+      } else if (options.recordTraffic) {
+        recorder = new TrafficRecorder(run.trafficArchive ? (await loadTrafficArchive(run)).log.entries : []);
+        this.activeTasks.get(taskId).fetcher = recorder.wrap(cachedFetch, maxBodySize);
+      } else {
+        this.activeTasks.get(taskId).fetcher = cachedFetch;
+      }
+      const robots = replayed ? offlineRobotsGate : new RobotsGate(taskId, task.robotsOverride, signal);
+      const pageDelay = replayed ? 0 : options.delay || 2000;
+
+      // Tasks behind a login reuse the session an earlier run saved, logging in when there is none
+      if (task.login && !replayed) {
+        this.activeTasks.get(taskId).session = (await loadStorageState(task)) ??
+          await advancedScraperService.login(task, signal, proxies?.pick(task.login.formUrl, { browser: true }));
+      }
       
-      let scrapedCount = 0;
-      let currentPage = 1;
-      let hasNextPage = true;
+      // Seeded runs scrape every discovered URL and follow no pagination
+      const seeded = !!options.seed && options.seed.mode !== 'url';
+      const maxPages = seeded ? options.seed!.maxUrls : (options.maxPages || 3);
+      let currentPage = checkpoint?.currentPage ?? 1;
+      const frontier = checkpoint
+        ? [...checkpoint.frontier]
+        : seeded
+          ? await this.discoverSeeds(taskId, run.id!, options, signal)
+          : [getFirstPageUrl(options.apiSource?.endpoint ?? options.url, options.pagination)];
+      const visited = new Set(checkpoint?.visited ?? []);
+      let lastPageHash = checkpoint?.lastPageHash;
 
-      this.activeTasks.set(taskId, { active: true });
+      // Detail pages are crawled right after their listing page, so checkpoints never hold pending detail requests
+      const detailCrawler = options.detailCrawl && new DetailCrawler(options.detailCrawl, options.url, async (url) => {
+        if (!(await robots.allow(url))) return undefined;
+        const html = await this.fetchPage(taskId, url, options, signal, () => { errorCount++; }, { detail: true });
+        pagesVisited++;
+        await delay(pageDelay, signal);
+        return html;
+      });
 
-      while (hasNextPage && currentPage <= (options.maxPages || 3)) {
-        const currentUrl = options.url + (currentPage > 1 ? `/page/${currentPage}/` : '');
-        
-        console.log(`Scraping page ${currentPage}: ${currentUrl}`);
-        
-        // Use HTTP request instead of browser
-        const response = await fetch(currentUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-          }
+      if (checkpoint) {
+        // Rows written after the checkpoint belong to a page that will be scraped again
+        await storage.deleteRunScrapedDataSince(run.id!, new Date(checkpoint.updatedAt));
+        await storage.createTaskLog({
+          taskId,
+          level: 'info',
+          message: `Resuming from page ${currentPage} with ${scrapedCount} items already scraped`,
+          metadata: { runId: run.id, frontier },
+          createdAt: new Date()
         });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      while (frontier.length > 0 && currentPage <= maxPages) {
+        throwIfCancelled(signal);
+
+        // Pausing happens between pages so the checkpoint never covers a half-scraped page
+        if (this.activeTasks.get(taskId)?.pauseRequested) {
+          await this.pauseRun(taskId, {
+            runId: run.id!,
+            jobId: options.jobId,
+            currentPage,
+            frontier,
+            visited: Array.from(visited),
+            lastPageHash,
+            scrapedCount,
+            pagesVisited,
+            errorCount
+          });
+          return 'paused';
+        }
+
+        const currentUrl = frontier.shift()!;
+        if (!(await robots.allow(currentUrl))) {
+          visited.add(normalizePageUrl(currentUrl));
+          continue;
         }
         
-        const content = await response.text();
-        await new Promise(resolve => setTimeout(resolve, options.delay || 2000));
-        const $ = cheerio.load(content);
+        console.log(`Scraping page ${currentPage}: ${currentUrl}`);
+        
+        // Use HTTP request instead of browser, retrying transient failures
+        const content = await this.fetchLoggedIn(task, signal, () => this.fetchPage(taskId, currentUrl, options, signal,
+          () => { errorCount++; }, { page: currentPage }, options.apiSource && apiRequestInit(options.apiSource)));
+        pagesVisited++;
+        visited.add(normalizePageUrl(currentUrl));
+        await delay(pageDelay, signal);
+        const apiDocument = options.apiSource ? parseApiResponse(content, currentUrl) : undefined;
+        const $ = cheerio.load(options.apiSource ? '' : content);
+
+        // API responses, table mode and structured data yield whole records. Structured data is more reliable than
+        // selectors on pages that have it, but an extraction schema is the user's explicit choice
+        const records = options.apiSource
+          ? extractApiItems(apiDocument, options.apiSource)
+          : options.table
+            ? extractTableRecords($, options.table)
+            : options.structuredData && !options.extraction ? extractStructuredItems($, currentUrl) : [];
+        const fromRecords = !!options.apiSource || !!options.table || records.length > 0;
 
         // Extract data based on selectors - try multiple approaches
-        let items = $(options.selectors.primary || options.selectors.itemContainer);
+        const itemSelector = options.selectors.primary || options.selectors.itemContainer;
+        let items = fromRecords ? $([]) : options.extraction ? selectItems($, options.extraction, itemSelector) : $(itemSelector);
+        // An item selector given in the extraction schema is not second-guessed
+        const guessItems = !fromRecords && !options.extraction?.itemSelector;
         
         // If primary selector doesn't work, try fallback selectors
-        if (items.length === 0 && options.selectors.fallback) {
+        if (items.length === 0 && guessItems && options.selectors.fallback) {
           for (const fallbackSelector of options.selectors.fallback) {
             items = $(fallbackSelector);
             if (items.length > 0) {
@@ -89,7 +345,7 @@ export class ScraperService {
         }
         
         // If still no items, try comprehensive common selectors for various website types
-        if (items.length === 0) {
+        if (items.length === 0 && guessItems) {
           const genericSelectors = [
             // E-commerce and product pages
             'div[class*="product"]', 'div[class*="item"]', 'div[class*="listing"]',
@@ -116,7 +372,8 @@ export class ScraperService {
           }
         }
         
-        if (items.length === 0) {
+        const itemCount = fromRecords ? records.length : items.length;
+        if (itemCount === 0) {
           await storage.createTaskLog({
             taskId,
             level: 'warning',
@@ -124,31 +381,59 @@ export class ScraperService {
             metadata: { url: currentUrl, page: currentPage, contentLength: content.length },
             createdAt: new Date()
           });
-          break;
+          // One seeded page without items says nothing about the others
+          if (!seeded) break;
         }
         
-        console.log(`Processing ${items.length} items from page ${currentPage}`);
+        // Sites often answer out-of-range page numbers with the last real page
+        const pageHash = fingerprintPage(fromRecords
+          ? records.map(item => JSON.stringify(item))
+          : items.toArray().map(element => $(element).text().trim()));
+        if (!seeded && pageHash === lastPageHash) {
+          await storage.createTaskLog({
+            taskId,
+            level: 'info',
+            message: `Page ${currentPage} repeats the previous page, stopping pagination`,
+            metadata: { url: currentUrl, page: currentPage },
+            createdAt: new Date()
+          });
+          break;
+        }
+        lastPageHash = pageHash;
+
+        console.log(`Processing ${itemCount} ${options.apiSource ? 'API ' : options.table ? 'table ' : fromRecords ? 'structured data ' : ''}items from page ${currentPage}`);
+        const detailRequests: { recordId: string; link: string; data: any }[] = [];
 
         // Process each item
-        for (let i = 0; i < items.length; i++) {
-          const item = items.eq(i);
-          const data = this.extractItemData($, item, options.selectors, currentUrl);
+        for (let i = 0; i < itemCount; i++) {
+          throwIfCancelled(signal);
+          const data: any = fromRecords
+            ? records[i]
+            : options.extraction
+              ? extractFields($, items.eq(i), options.extraction, currentUrl)
+              : this.extractItemData($, items.eq(i), options.selectors, currentUrl);
           
           if (data && Object.keys(data).length > 0) {
-            await storage.createScrapedData({
+            const record = await storage.createScrapedData({
               taskId,
+              runId: run.id,
               data,
               url: currentUrl,
               scrapedAt: new Date()
             });
             scrapedCount++;
 
+            const link = data[options.detailCrawl?.linkField ?? 'link'];
+            if (detailCrawler?.accepts(link)) {
+              detailRequests.push({ recordId: record.id!, link, data });
+            }
+
             // Broadcast progress
             this.broadcastProgress({
               taskId,
               status: 'running',
-              progress: Math.round((scrapedCount / (items.length * (options.maxPages || 10))) * 100),
-              totalItems: items.length * (options.maxPages || 10),
+              progress: Math.round((scrapedCount / (itemCount * (options.maxPages || 10))) * 100),
+              totalItems: itemCount * (options.maxPages || 10),
               scrapedItems: scrapedCount,
               currentUrl,
               rate: Math.round(scrapedCount / ((Date.now() - Date.now()) / 60000) || 1)
@@ -156,17 +441,69 @@ export class ScraperService {
           }
         }
 
-        // Check for pagination by looking for items on next page
-        hasNextPage = currentPage < (options.maxPages || 3) && items.length > 0;
+        if (detailCrawler && !detailCrawler.exhausted && detailRequests.length > 0) {
+          errorCount += await this.crawlDetails(taskId, detailCrawler, detailRequests, signal);
+        }
+
+        await storage.updateTaskRun(run.id!, { itemsScraped: scrapedCount, pagesVisited, errorCount, cacheStats, fetchStats });
+
+        // APIs that return their own next link or cursor are followed by it, others by the task's pagination
+        const nextUrl = !seeded && currentPage < maxPages
+          ? options.apiSource?.nextPath
+            ? nextApiPageUrl(apiDocument, options.apiSource, currentUrl)
+            : findNextPageUrl($, { url: currentUrl, pageNumber: currentPage, itemCount }, options.pagination)
+          : undefined;
         currentPage++;
+        if (nextUrl && visited.has(normalizePageUrl(nextUrl))) {
+          await storage.createTaskLog({
+            taskId,
+            level: 'info',
+            message: 'Next page was already visited, stopping pagination',
+            metadata: { url: nextUrl },
+            createdAt: new Date()
+          });
+        } else if (nextUrl) {
+          frontier.push(nextUrl);
+        }
+
+        await storage.updateScrapingTask(taskId, {
+          checkpoint: {
+            runId: run.id!,
+            jobId: options.jobId,
+            currentPage,
+            frontier,
+            visited: Array.from(visited),
+            lastPageHash,
+            scrapedCount,
+            pagesVisited,
+            errorCount,
+            updatedAt: new Date()
+          }
+        });
       }
 
       this.activeTasks.delete(taskId);
 
+      await storage.updateTaskRun(run.id!, {
+        status: 'completed',
+        itemsScraped: scrapedCount,
+        pagesVisited,
+        errorCount,
+        cacheStats,
+        fetchStats,
+        finishedAt: new Date()
+      });
+
+      // A failed comparison should not fail the run itself
+      await changeDetectionService.recordRunDiff(taskId, run.id!).catch(error => {
+        console.error(`Change detection error for task ${taskId}:`, error);
+      });
+
       await storage.updateScrapingTask(taskId, { 
         status: 'completed',
         scrapedItems: scrapedCount,
-        progress: 100
+        progress: 100,
+        checkpoint: undefined
       });
 
       this.broadcastProgress({
@@ -177,11 +514,28 @@ export class ScraperService {
         scrapedItems: scrapedCount
       });
 
+      return 'completed';
     } catch (error) {
+      if (signal.aborted) {
+        await this.cancelRun(taskId, run.id!, { scrapedCount, pagesVisited, errorCount });
+        return 'cancelled';
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const errorStack = error instanceof Error ? error.stack : String(error);
       console.error(`Scraping error for task ${taskId}:`, error);
       
+      await storage.updateTaskRun(run.id!, {
+        status: 'failed',
+        itemsScraped: scrapedCount,
+        pagesVisited,
+        errorCount: errorCount + 1,
+        errorMessage,
+        cacheStats,
+        fetchStats,
+        finishedAt: new Date()
+      });
+
       await storage.updateScrapingTask(taskId, { 
         status: 'failed',
         errorMessage
@@ -191,7 +545,7 @@ export class ScraperService {
         taskId,
         level: 'error',
         message: errorMessage,
-        metadata: { error: errorStack },
+        metadata: { error: errorStack, runId: run.id },
         createdAt: new Date()
       });
 
@@ -205,9 +559,65 @@ export class ScraperService {
 
       // Clean up
       this.activeTasks.delete(taskId);
+
+      // Let the queue record the failure against the job
+      throw error;
+    } finally {
+      // Failed runs keep their recording too; they are the ones worth replaying
+      if (recorder) {
+        await saveTrafficArchive(taskId, run.id!, recorder.toHar())
+          .then(trafficArchive => storage.updateTaskRun(run.id!, { trafficArchive }))
+          .catch(error => console.error(`Traffic archive error for task ${taskId}:`, error));
+      }
     }
   }
 
+  /**
+   * Merge detail page fields into the listing page's records. A failed detail
+   * page is logged and counted but leaves its record as scraped from the listing.
+   * Returns the number of failed detail pages.
+   */
+  private async crawlDetails(
+    taskId: string,
+    crawler: DetailCrawler,
+    requests: { recordId: string; link: string; data: any }[],
+    signal: AbortSignal
+  ): Promise<number> {
+    let failures = 0;
+
+    for (const request of requests) {
+      if (crawler.exhausted) {
+        await storage.createTaskLog({
+          taskId,
+          level: 'warning',
+          message: 'Detail page limit reached, remaining items keep their listing data',
+          metadata: { url: request.link },
+          createdAt: new Date()
+        });
+        break;
+      }
+
+      try {
+        const fields = await crawler.crawl(request.link);
+        if (Object.keys(fields).length > 0) {
+          await storage.updateScrapedData(request.recordId, { data: { ...request.data, ...fields } });
+        }
+      } catch (error) {
+        if (signal.aborted) throw error;
+        failures++;
+        await storage.createTaskLog({
+          taskId,
+          level: 'warning',
+          message: `Failed to crawl detail page: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          metadata: { url: request.link, recordId: request.recordId },
+          createdAt: new Date()
+        });
+      }
+    }
+
+    return failures;
+  }
+
   private extractItemData($: cheerio.CheerioAPI, item: cheerio.Cheerio<any>, selectors: any, baseUrl: string): any {
     const data: any = {};
 
@@ -258,16 +668,16 @@ export class ScraperService {
         }
       }
 
-      // Link
+      // Link and image, resolved like a browser would against the page's <base href>
+      const resolveBase = documentBaseUrl($, baseUrl);
       const link = item.find('a').first().attr('href');
       if (link) {
-        data.link = link.startsWith('http') ? link : `${new URL(baseUrl).origin}${link}`;
+        data.link = resolveUrl(link, resolveBase) ?? link;
       }
 
-      // Image
       const img = item.find('img').first().attr('src');
       if (img) {
-        data.image = img.startsWith('http') ? img : `${new URL(baseUrl).origin}${img}`;
+        data.image = resolveUrl(img, resolveBase) ?? img;
       }
 
     } catch (error) {
@@ -279,20 +689,118 @@ export class ScraperService {
 
   // Removed hasNextPage method - now using simple page limit check
 
-  async pauseTask(taskId: string): Promise<void> {
-    const task = this.activeTasks.get(taskId);
-    if (task) {
-      await storage.updateScrapingTask(taskId, { status: 'paused' });
-      // Implementation for pausing would require more complex state management
-    }
+  // Saves the checkpoint too, as a pause before the first page is scraped comes before any page has saved one
+  private async pauseRun(taskId: string, checkpoint: Omit<TaskCheckpoint, 'updatedAt'>) {
+    this.activeTasks.delete(taskId);
+
+    await storage.updateTaskRun(checkpoint.runId, {
+      status: 'paused',
+      itemsScraped: checkpoint.scrapedCount,
+      pagesVisited: checkpoint.pagesVisited,
+      errorCount: checkpoint.errorCount
+    });
+    await storage.updateScrapingTask(taskId, {
+      status: 'paused',
+      scrapedItems: checkpoint.scrapedCount,
+      checkpoint: { ...checkpoint, updatedAt: new Date() }
+    });
+    await storage.createTaskLog({
+      taskId,
+      level: 'info',
+      message: `Task paused before page ${checkpoint.currentPage}`,
+      metadata: { runId: checkpoint.runId },
+      createdAt: new Date()
+    });
+
+    this.broadcastProgress({
+      taskId,
+      status: 'paused',
+      progress: 0,
+      totalItems: checkpoint.scrapedCount,
+      scrapedItems: checkpoint.scrapedCount
+    });
   }
 
-  async stopTask(taskId: string): Promise<void> {
+  private async cancelRun(
+    taskId: string,
+    runId: string,
+    counts: { scrapedCount: number; pagesVisited: number; errorCount: number }
+  ) {
+    this.activeTasks.delete(taskId);
+
+    await storage.updateTaskRun(runId, {
+      status: 'cancelled',
+      itemsScraped: counts.scrapedCount,
+      pagesVisited: counts.pagesVisited,
+      errorCount: counts.errorCount,
+      finishedAt: new Date()
+    });
+    await storage.updateScrapingTask(taskId, {
+      status: 'cancelled',
+      scrapedItems: counts.scrapedCount,
+      checkpoint: undefined
+    });
+    await storage.createTaskLog({
+      taskId,
+      level: 'info',
+      message: 'Task cancelled by user',
+      metadata: { runId },
+      createdAt: new Date()
+    });
+
+    this.broadcastProgress({
+      taskId,
+      status: 'cancelled',
+      progress: 0,
+      totalItems: counts.scrapedCount,
+      scrapedItems: counts.scrapedCount
+    });
+  }
+
+  /**
+   * Ask a running task to pause once its current page is finished.
+   * Returns false when the task is not running in this process.
+   */
+  async pauseTask(taskId: string): Promise<boolean> {
     const task = this.activeTasks.get(taskId);
-    if (task) {
-      this.activeTasks.delete(taskId);
-      await storage.updateScrapingTask(taskId, { status: 'failed', errorMessage: 'Task stopped by user' });
+    if (!task) return false;
+
+    task.pauseRequested = true;
+    await storage.createTaskLog({
+      taskId,
+      level: 'info',
+      message: 'Pause requested, stopping after the current page',
+      createdAt: new Date()
+    });
+    return true;
+  }
+
+  /**
+   * Cancel a task. A running task is aborted mid-request and records its own
+   * cancellation; a queued or paused task is marked cancelled directly.
+   * Returns false when there is nothing to cancel.
+   */
+  async stopTask(taskId: string): Promise<boolean> {
+    const active = this.activeTasks.get(taskId);
+    if (active) {
+      active.controller.abort();
+      return true;
+    }
+
+    const task = await storage.getScrapingTask(taskId);
+    if (!task || (task.status !== 'pending' && task.status !== 'paused')) return false;
+
+    if (task.checkpoint) {
+      await storage.updateTaskRun(task.checkpoint.runId, { status: 'cancelled', finishedAt: new Date() });
     }
+    await storage.updateScrapingTask(taskId, { status: 'cancelled', checkpoint: undefined });
+    await storage.createTaskLog({
+      taskId,
+      level: 'info',
+      message: 'Task cancelled by user',
+      createdAt: new Date()
+    });
+    return true;
   }
 }
 
@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'crypto';
+
+export class SecretDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretDecryptionError';
+  }
+}
+
+const VERSION = 'v1';
+let masterKey: Buffer | undefined;
+
+// SECRETS_KEY may be any string; without it secrets only survive until the server restarts
+function getMasterKey(): Buffer {
+  if (!masterKey) {
+    const configured = process.env.SECRETS_KEY;
+    if (!configured) {
+      console.warn('SECRETS_KEY is not set; saved credentials and sessions cannot be read after a restart');
+    }
+    masterKey = configured ? createHash('sha256').update(configured).digest() : randomBytes(32);
+  }
+  return masterKey;
+}
+
+// Each user's secrets are encrypted with their own key derived from the master key
+function userKey(userId: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', getMasterKey(), userId, 'task-session', 32));
+}
+
+// AES-256-GCM, serialized as "v1.<iv>.<tag>.<ciphertext>" in base64url
+export function encryptForUser(userId: string, plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', userKey(userId), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), data].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+}
+
+export function decryptForUser(userId: string, payload: string): string {
+  const [version, iv, tag, data] = payload.split('.');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new SecretDecryptionError('Unrecognized secret format');
+  }
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', userKey(userId), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new SecretDecryptionError('Secret could not be decrypted; SECRETS_KEY may have changed');
+  }
+}
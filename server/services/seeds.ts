@@ -0,0 +1,251 @@
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { seedSchema, type HttpSettings, type SeedConfig } from '@shared/schema';
+import { fetchWithRetry, HttpError, type Fetcher, type RetryOptions } from './retry';
+import { throwIfCancelled } from './cancellation';
+import { normalizePageUrl } from './pagination';
+import { safeFetch, urlPolicy } from './url-policy';
+import { decodeBody, DEFAULT_HTTP_SETTINGS, readBody, requestHeaders, withTimeout } from './http-client';
+import { isValidPattern, testPattern } from './patterns';
+
+// Sitemap indexes nested deeper than this are ignored
+const MAX_SITEMAP_DEPTH = 3;
+
+const FEED_LINK_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/feed+xml'];
+
+export class SeedValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeedValidationError';
+  }
+}
+
+// Validate user-supplied seed settings
+export function buildSeedConfig(input: unknown): SeedConfig {
+  const parsed = seedSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new SeedValidationError(`Invalid seed setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  for (const pattern of [...parsed.data.include, ...parsed.data.exclude]) {
+    if (!isValidPattern(pattern)) {
+      throw new SeedValidationError(`Invalid URL pattern: ${pattern}`);
+    }
+  }
+
+  return parsed.data;
+}
+
+// A URL listed by a sitemap or feed
+export interface SeedEntry {
+  url: string;
+  lastmod?: Date;
+}
+
+export interface SeedDiscoveryOptions {
+  modifiedSince?: Date; // Lower bound from the task's previous run, for incremental crawls
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+  onWarning?: (message: string, metadata: Record<string, any>) => void;
+  fetcher?: Fetcher; // The run's fetcher, so sitemaps and feeds are recorded and replayed with its pages
+  http?: HttpSettings; // The task's request settings
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value?.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+  if (!value?.trim()) return undefined;
+  try {
+    return new URL(value.trim(), baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+// Sitemap: directives may appear anywhere in robots.txt, independent of user-agent groups
+export function parseRobotsSitemaps(robotsTxt: string, robotsUrl: string): string[] {
+  return robotsTxt
+    .split(/\r?\n/)
+    .map(line => /^\s*sitemap\s*:\s*(\S+)/i.exec(line)?.[1])
+    .map(value => resolveUrl(value, robotsUrl))
+    .filter((url): url is string => !!url);
+}
+
+/**
+ * Entries of a <urlset> sitemap, or the child sitemaps of a <sitemapindex>.
+ */
+export function parseSitemap(xml: string, sitemapUrl: string): { urls: SeedEntry[]; sitemaps: SeedEntry[] } {
+  const $ = cheerio.load(xml, { xml: true });
+  const read = (selector: string) => $(selector).toArray().flatMap(element => {
+    const url = resolveUrl($(element).children('loc').text(), sitemapUrl);
+    return url ? [{ url, lastmod: parseDate($(element).children('lastmod').text()) }] : [];
+  });
+
+  return { urls: read('urlset > url'), sitemaps: read('sitemapindex > sitemap') };
+}
+
+// Items of an RSS 2.0 or RDF feed, or entries of an Atom feed
+export function parseFeed(xml: string, feedUrl: string): SeedEntry[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const entries: SeedEntry[] = [];
+
+  $('item').each((_, element) => {
+    const item = $(element);
+    const url = resolveUrl(item.children('link').first().text() || item.attr('rdf:about'), feedUrl);
+    const date = item.children('pubDate').text() || item.children('dc\\:date').text() || item.children('updated').text();
+    if (url) entries.push({ url, lastmod: parseDate(date) });
+  });
+
+  $('entry').each((_, element) => {
+    const entry = $(element);
+    const links = entry.children('link').toArray().map(link => $(link));
+    const link = links.find(link => (link.attr('rel') || 'alternate') === 'alternate') ?? links[0];
+    const url = resolveUrl(link?.attr('href'), feedUrl);
+    const date = entry.children('updated').text() || entry.children('published').text();
+    if (url) entries.push({ url, lastmod: parseDate(date) });
+  });
+
+  return entries;
+}
+
+// Feeds advertised by <link rel="alternate"> on an HTML page
+export function findFeedLinks(html: string, pageUrl: string): string[] {
+  const $ = cheerio.load(html);
+  return $('link[rel~="alternate"]').toArray()
+    .filter(element => FEED_LINK_TYPES.includes(($(element).attr('type') || '').toLowerCase()))
+    .map(element => resolveUrl($(element).attr('href'), pageUrl))
+    .filter((url): url is string => !!url);
+}
+
+export function matchesSeedFilters(entry: SeedEntry, config: SeedConfig, modifiedSince?: Date): boolean {
+  if (config.include.length > 0 && !config.include.some(pattern => testPattern(pattern, entry.url))) return false;
+  if (config.exclude.some(pattern => testPattern(pattern, entry.url))) return false;
+  // Entries without a lastmod cannot be shown to be unchanged, so they are kept
+  return !modifiedSince || !entry.lastmod || entry.lastmod >= modifiedSince;
+}
+
+/**
+ * Discovers the URLs a seeded task should scrape. Sitemaps come from the
+ * configured source, robots.txt or /sitemap.xml; feeds from the configured
+ * source or the feed links on the task page. Filtered URLs are returned
+ * most recently modified first, capped at maxUrls.
+ */
+export class SeedDiscovery {
+  private modifiedSince?: Date;
+
+  constructor(private config: SeedConfig, private options: SeedDiscoveryOptions = {}) {
+    // The later of the configured date and the previous run wins
+    this.modifiedSince = [config.modifiedSince, options.modifiedSince]
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+  }
+
+  async discover(taskUrl: string): Promise<string[]> {
+    const entries = this.config.mode === 'feed'
+      ? await this.discoverFeeds(taskUrl)
+      : await this.discoverSitemaps(taskUrl);
+
+    const seen = new Set<string>();
+    return entries
+      .filter(entry => matchesSeedFilters(entry, this.config, this.modifiedSince) && this.isPermitted(entry.url))
+      .sort((a, b) => (b.lastmod?.getTime() ?? 0) - (a.lastmod?.getTime() ?? 0))
+      .map(entry => normalizePageUrl(entry.url))
+      .filter(url => !seen.has(url) && !!seen.add(url))
+      .slice(0, this.config.maxUrls);
+  }
+
+  // Sitemaps and feeds are user content too, so the URLs they list go through the URL policy
+  private isPermitted(url: string): boolean {
+    try {
+      urlPolicy.checkUrl(url);
+      return true;
+    } catch (error) {
+      this.options.onWarning?.(`Skipped listed URL: ${(error as Error).message}`, { url });
+      return false;
+    }
+  }
+
+  private async fetchBody(url: string): Promise<string> {
+    throwIfCancelled(this.options.signal);
+    const settings = this.options.http ?? DEFAULT_HTTP_SETTINGS;
+    const response = await fetchWithRetry(url, {
+      headers: requestHeaders(settings),
+      signal: this.options.signal
+    }, this.options.retry, undefined, withTimeout(this.options.fetcher ?? safeFetch, settings.timeout));
+
+    // fetch() already undoes Content-Encoding: gzip, but .xml.gz files are served as plain gzip data
+    const body = await readBody(response, settings.maxBodySize);
+    const gzipped = body[0] === 0x1f && body[1] === 0x8b;
+    return decodeBody(gzipped ? gunzipSync(body, { maxOutputLength: settings.maxBodySize }) : body, response.headers.get('content-type')).text;
+  }
+
+  private async findSitemapUrls(taskUrl: string): Promise<string[]> {
+    if (this.config.source) return [this.config.source];
+
+    const robotsUrl = new URL('/robots.txt', taskUrl).href;
+    try {
+      const sitemaps = parseRobotsSitemaps(await this.fetchBody(robotsUrl), robotsUrl);
+      if (sitemaps.length > 0) return sitemaps;
+    } catch (error) {
+      if (this.options.signal?.aborted) throw error;
+      if (!(error instanceof HttpError)) {
+        this.options.onWarning?.(`Could not read robots.txt: ${(error as Error).message}`, { url: robotsUrl });
+      }
+    }
+    return [new URL('/sitemap.xml', taskUrl).href];
+  }
+
+  private async discoverSitemaps(taskUrl: string): Promise<SeedEntry[]> {
+    const entries: SeedEntry[] = [];
+    const visited = new Set<string>();
+    let pending = (await this.findSitemapUrls(taskUrl)).map(url => ({ url, depth: 0 }));
+
+    while (pending.length > 0) {
+      const { url, depth } = pending.shift()!;
+      if (visited.has(url)) continue;
+      visited.add(url);
+
+      try {
+        const { urls, sitemaps } = parseSitemap(await this.fetchBody(url), url);
+        entries.push(...urls);
+        if (depth < MAX_SITEMAP_DEPTH) {
+          // An unchanged child sitemap has no changed URLs
+          pending.push(...sitemaps
+            .filter(sitemap => !this.modifiedSince || !sitemap.lastmod || sitemap.lastmod >= this.modifiedSince)
+            .map(sitemap => ({ url: sitemap.url, depth: depth + 1 })));
+        }
+      } catch (error) {
+        if (this.options.signal?.aborted) throw error;
+        this.options.onWarning?.(`Could not read sitemap: ${(error as Error).message}`, { url });
+      }
+    }
+
+    return entries;
+  }
+
+  private async discoverFeeds(taskUrl: string): Promise<SeedEntry[]> {
+    let feeds = this.config.source ? [this.config.source] : [];
+    if (feeds.length === 0) {
+      feeds = findFeedLinks(await this.fetchBody(taskUrl), taskUrl);
+      if (feeds.length === 0) {
+        this.options.onWarning?.('No RSS or Atom feed is linked from the task page', { url: taskUrl });
+      }
+    }
+
+    const entries: SeedEntry[] = [];
+    for (const feed of feeds) {
+      try {
+        entries.push(...parseFeed(await this.fetchBody(feed), feed));
+      } catch (error) {
+        if (this.options.signal?.aborted) throw error;
+        this.options.onWarning?.(`Could not read feed: ${(error as Error).message}`, { url: feed });
+      }
+    }
+    return entries;
+  }
+}
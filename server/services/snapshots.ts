@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto';
+import type { Page as PlaywrightPage } from 'playwright';
+import type { Page as PuppeteerPage } from 'puppeteer';
+import type { Snapshot } from '@shared/schema';
+import { storage } from '../storage';
+import { blobStore } from './blob-store';
+
+const MAX_ITEM_SCREENSHOTS = 100; // Per page
+const SCREENSHOT_QUALITY = 70;
+
+// Runs per task whose snapshots are kept (SNAPSHOT_RETENTION_RUNS); older runs lose theirs when a run finishes
+const RETENTION_RUNS = Math.max(1, parseInt(process.env.SNAPSHOT_RETENTION_RUNS || '', 10) || 10);
+
+// A page to take snapshots of; static runs only have the HTML
+export interface SnapshotSource {
+  html(): Promise<string>;
+  screenshot?(): Promise<Buffer>; // The full page
+  countElements?(selector: string): Promise<number>;
+  elementScreenshot?(selector: string, index: number): Promise<Buffer | undefined>;
+}
+
+export function playwrightSource(page: PlaywrightPage): SnapshotSource {
+  return {
+    html: () => page.content(),
+    screenshot: () => page.screenshot({ fullPage: true, type: 'jpeg', quality: SCREENSHOT_QUALITY }),
+    countElements: (selector) => page.locator(selector).count(),
+    // Elements that are hidden or detached by now are skipped
+    elementScreenshot: (selector, index) => page.locator(selector).nth(index)
+      .screenshot({ type: 'jpeg', quality: SCREENSHOT_QUALITY, timeout: 5000 })
+      .catch(() => undefined),
+  };
+}
+
+export function puppeteerSource(page: PuppeteerPage): SnapshotSource {
+  return {
+    html: () => page.content(),
+    screenshot: async () => Buffer.from(await page.screenshot({ fullPage: true, type: 'jpeg', quality: SCREENSHOT_QUALITY })),
+    countElements: async (selector) => (await page.$$(selector)).length,
+    elementScreenshot: async (selector, index) => {
+      const element = (await page.$$(selector))[index];
+      if (!element) return undefined;
+      return element.screenshot({ type: 'jpeg', quality: SCREENSHOT_QUALITY })
+        .then(image => Buffer.from(image))
+        .catch(() => undefined);
+    },
+  };
+}
+
+export function htmlSource(html: string): SnapshotSource {
+  return { html: async () => html };
+}
+
+type SnapshotInput = Pick<Snapshot, 'taskId' | 'runId' | 'kind' | 'url' | 'contentType' | 'pageNumber' | 'itemIndex'>;
+
+// Write the content to the blob store and record it
+export async function saveSnapshot(input: SnapshotInput, data: Buffer | string): Promise<Snapshot> {
+  const extension = input.contentType === 'text/html' ? 'html' : 'jpg';
+  const blobKey = `${input.taskId}/${input.runId}/${input.kind}-${randomUUID()}.${extension}`;
+  await blobStore.put(blobKey, data);
+  return storage.createSnapshot({
+    ...input,
+    blobKey,
+    size: Buffer.byteLength(data),
+    createdAt: new Date()
+  });
+}
+
+export async function readSnapshot(snapshot: Snapshot): Promise<Buffer> {
+  return blobStore.get(snapshot.blobKey);
+}
+
+// Remove the snapshots' content from the blob store, then their records
+export async function deleteSnapshots(snapshots: Snapshot[]): Promise<void> {
+  for (const snapshot of snapshots) await blobStore.delete(snapshot.blobKey);
+  await storage.deleteSnapshots(snapshots.map(snapshot => snapshot.id!));
+}
+
+/**
+ * Delete the snapshots of every run of the task except the newest
+ * RETENTION_RUNS. Returns how many were deleted.
+ */
+export async function pruneSnapshots(taskId: string): Promise<number> {
+  const [runs, snapshots] = await Promise.all([storage.getTaskRuns(taskId), storage.getSnapshots(taskId)]);
+  // Runs are sorted newest first
+  const kept = new Set(runs.slice(0, RETENTION_RUNS).map(run => run.id));
+  const expired = snapshots.filter(snapshot => !kept.has(snapshot.runId));
+  if (expired.length > 0) await deleteSnapshots(expired);
+  return expired.length;
+}
+
+export interface PageSnapshots {
+  pageIds: string[]; // The page screenshot and its HTML
+  itemIds: (string | undefined)[]; // Screenshot of each item, in the order the items were given
+}
+
+/**
+ * Snapshot a page and, when the item containers are known, each item on it.
+ * `items.positions` holds the index among the selector's matches of every
+ * item; items past MAX_ITEM_SCREENSHOTS get no screenshot of their own.
+ */
+export async function capturePage(
+  source: SnapshotSource,
+  page: { taskId: string; runId: string; url: string; pageNumber: number },
+  items?: { selector: string; positions: number[] }
+): Promise<PageSnapshots> {
+  const pageIds: string[] = [];
+  if (source.screenshot) {
+    const snapshot = await saveSnapshot({ ...page, kind: 'page', contentType: 'image/jpeg' }, await source.screenshot());
+    pageIds.push(snapshot.id!);
+  }
+  const html = await saveSnapshot({ ...page, kind: 'html', contentType: 'text/html' }, await source.html());
+  pageIds.push(html.id!);
+
+  const itemIds: (string | undefined)[] = [];
+  if (items && source.elementScreenshot) {
+    const positions = items.positions.slice(0, MAX_ITEM_SCREENSHOTS);
+    for (let itemIndex = 0; itemIndex < positions.length; itemIndex++) {
+      const image = await source.elementScreenshot(items.selector, positions[itemIndex]);
+      if (!image) {
+        itemIds.push(undefined);
+        continue;
+      }
+      const snapshot = await saveSnapshot({ ...page, kind: 'item', contentType: 'image/jpeg', itemIndex }, image);
+      itemIds.push(snapshot.id);
+    }
+  }
+  return { pageIds, itemIds };
+}
@@ -0,0 +1,346 @@
+import * as cheerio from 'cheerio';
+import { documentBaseUrl, htmlToText, parseNumber, resolveUrl } from './transforms';
+
+// A schema.org entity in JSON-LD shape; microdata and RDFa items are converted to it
+type Entity = Record<string, any>;
+
+export interface StructuredData {
+  jsonLd: Entity[];
+  microdata: Entity[];
+  rdfa: Entity[];
+  openGraph: Record<string, string>; // og:*, product:* and article:* meta tags
+  twitter: Record<string, string>;   // twitter:* meta tags
+}
+
+// What analysis reports about a page's structured data
+export interface StructuredDataSummary {
+  jsonLd: number;
+  microdata: number;
+  rdfa: number;
+  openGraph: boolean;
+  twitterCard: boolean;
+  types: string[];
+}
+
+export type StructuredSource = 'json-ld' | 'microdata' | 'rdfa' | 'opengraph';
+
+// "http://schema.org/Product" and "schema:Product" are both Product
+function typeName(type: string): string {
+  return type.trim().split(/[/#:]/).pop() || type;
+}
+
+function typesOf(entity: Entity): string[] {
+  const types = entity['@type'];
+  return (Array.isArray(types) ? types : types ? [types] : []).map(type => typeName(String(type)));
+}
+
+function addProperty(entity: Entity, name: string, value: unknown) {
+  if (!(name in entity)) entity[name] = value;
+  else if (Array.isArray(entity[name])) entity[name].push(value);
+  else entity[name] = [entity[name], value];
+}
+
+// Top-level entities, @graph members and the items of ItemLists
+function flattenJsonLd(node: unknown, into: Entity[] = []): Entity[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => flattenJsonLd(child, into));
+  } else if (node && typeof node === 'object') {
+    const entity = node as Entity;
+    if (entity['@graph']) flattenJsonLd(entity['@graph'], into);
+    if (entity['@type'] && !typesOf(entity).includes('ListItem')) into.push(entity);
+    if (typesOf(entity).includes('ItemList')) {
+      for (const element of [entity.itemListElement ?? []].flat()) {
+        flattenJsonLd(element?.item ?? element, into);
+      }
+    }
+  }
+  return into;
+}
+
+function collectJsonLd($: cheerio.CheerioAPI): Entity[] {
+  const entities: Entity[] = [];
+  $('script[type="application/ld+json"]').each((_, script) => {
+    // Some CMSs wrap the JSON in HTML comments or CDATA
+    const text = $(script).text().replace(/^\s*(<!--|\/\/\s*<!\[CDATA\[)|(-->|\/\/\s*\]\]>)\s*$/g, '').trim();
+    try {
+      flattenJsonLd(JSON.parse(text), entities);
+    } catch {
+      // Invalid blocks are common and simply skipped
+    }
+  });
+  return entities;
+}
+
+const URL_ELEMENTS: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href', img: 'src', audio: 'src', video: 'src', source: 'src',
+  iframe: 'src', embed: 'src', track: 'src', object: 'data',
+};
+
+// Value of an itemprop/property element per the microdata rules (which RDFa Lite follows closely)
+function propertyValue($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>, baseUrl: string): string {
+  const tag = (element.get(0)?.tagName || '').toLowerCase();
+  const content = element.attr('content');
+  if (content !== undefined) return content.trim();
+  if (URL_ELEMENTS[tag]) {
+    const value = element.attr(URL_ELEMENTS[tag]) || '';
+    return resolveUrl(value, baseUrl) ?? value;
+  }
+  if (tag === 'time' && element.attr('datetime')) return element.attr('datetime')!;
+  if ((tag === 'data' || tag === 'meter') && element.attr('value')) return element.attr('value')!;
+  return element.text().replace(/\s+/g, ' ').trim();
+}
+
+function readMicrodataItem($: cheerio.CheerioAPI, scope: cheerio.Cheerio<any>, baseUrl: string): Entity {
+  const entity: Entity = {};
+  const types = (scope.attr('itemtype') || '').split(/\s+/).filter(Boolean).map(typeName);
+  if (types.length > 0) entity['@type'] = types.length === 1 ? types[0] : types;
+
+  scope.find('[itemprop]').each((_, element) => {
+    const property = $(element);
+    // Properties of nested items belong to those items
+    if (property.parent().closest('[itemscope]').get(0) !== scope.get(0)) return;
+    const value = property.is('[itemscope]') ? readMicrodataItem($, property, baseUrl) : propertyValue($, property, baseUrl);
+    for (const name of (property.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      addProperty(entity, name, value);
+    }
+  });
+  return entity;
+}
+
+function readRdfaItem($: cheerio.CheerioAPI, scope: cheerio.Cheerio<any>, baseUrl: string): Entity {
+  const entity: Entity = {};
+  const types = (scope.attr('typeof') || '').split(/\s+/).filter(Boolean).map(typeName);
+  if (types.length > 0) entity['@type'] = types.length === 1 ? types[0] : types;
+
+  scope.find('[property]').each((_, element) => {
+    const property = $(element);
+    if (property.parent().closest('[typeof]').get(0) !== scope.get(0)) return;
+    const value = property.is('[typeof]') ? readRdfaItem($, property, baseUrl) : propertyValue($, property, baseUrl);
+    for (const name of (property.attr('property') || '').split(/\s+/).filter(Boolean)) {
+      addProperty(entity, typeName(name), value);
+    }
+  });
+  return entity;
+}
+
+function collectMeta($: cheerio.CheerioAPI, pattern: RegExp): Record<string, string> {
+  const tags: Record<string, string> = {};
+  $('meta[content]').each((_, element) => {
+    const meta = $(element);
+    const key = (meta.attr('property') || meta.attr('name') || '').trim().toLowerCase();
+    // The first of repeated tags (e.g. several og:image) is the preferred one
+    if (pattern.test(key) && !(key in tags)) tags[key] = meta.attr('content')!.trim();
+  });
+  return tags;
+}
+
+export function collectStructuredData($: cheerio.CheerioAPI, baseUrl: string): StructuredData {
+  return {
+    jsonLd: collectJsonLd($),
+    microdata: $('[itemscope]:not([itemprop])').toArray().map(element => readMicrodataItem($, $(element), baseUrl)),
+    rdfa: $('[typeof]:not([property])').toArray().map(element => readRdfaItem($, $(element), baseUrl)),
+    openGraph: collectMeta($, /^(og|product|article):/),
+    twitter: collectMeta($, /^twitter:/),
+  };
+}
+
+export function summarizeStructuredData(data: StructuredData): StructuredDataSummary {
+  const types = [...data.jsonLd, ...data.microdata, ...data.rdfa].flatMap(typesOf);
+  return {
+    jsonLd: data.jsonLd.length,
+    microdata: data.microdata.length,
+    rdfa: data.rdfa.length,
+    openGraph: Object.keys(data.openGraph).length > 0,
+    twitterCard: Object.keys(data.twitter).length > 0,
+    types: Array.from(new Set(types)),
+  };
+}
+
+const first = (value: any): any => Array.isArray(value) ? value[0] : value;
+
+// Plain text of a property that may hold a string, a number, an entity or a list of them
+function text(value: any): string | undefined {
+  value = first(value);
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') return text(value.name ?? value['@value'] ?? value.text);
+  const result = String(value).replace(/\s+/g, ' ').trim();
+  return result || undefined;
+}
+
+function names(value: any): string | undefined {
+  const list = (Array.isArray(value) ? value : [value]).map(text).filter(Boolean);
+  return list.length > 0 ? list.join(', ') : undefined;
+}
+
+function url(value: any, baseUrl: string): string | undefined {
+  value = first(value);
+  if (value && typeof value === 'object') return url(value.url ?? value.contentUrl ?? value['@id'], baseUrl);
+  return typeof value === 'string' && value.trim() ? resolveUrl(value, baseUrl) : undefined;
+}
+
+function number(value: any): number | undefined {
+  value = first(value);
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object') return number(value.value ?? value['@value']);
+  return typeof value === 'string' ? parseNumber(value) : undefined;
+}
+
+// "https://schema.org/InStock" -> "InStock"
+function enumValue(value: any): string | undefined {
+  const result = text(value);
+  return result && typeName(result);
+}
+
+function address(value: any): string | undefined {
+  value = first(value);
+  if (!value || typeof value !== 'object') return text(value);
+  const place = value.address ? address(value.address) : undefined;
+  const parts = [value.streetAddress, value.addressLocality, value.addressRegion, value.postalCode, value.addressCountry]
+    .map(text).filter(Boolean);
+  if (parts.length > 0) return parts.join(', ');
+  return [text(value.name), place].filter(Boolean).join(', ') || undefined;
+}
+
+function offerFields(offers: any) {
+  const offer = first(offers) ?? {};
+  return {
+    price: number(offer.price ?? offer.lowPrice ?? offer.priceSpecification?.price),
+    currency: text(offer.priceCurrency ?? offer.priceSpecification?.priceCurrency),
+    availability: enumValue(offer.availability),
+  };
+}
+
+const MAPPERS: Record<string, (entity: Entity, baseUrl: string) => Record<string, unknown>> = {
+  Product: (entity, baseUrl) => ({
+    title: text(entity.name),
+    description: text(entity.description),
+    link: url(entity.url, baseUrl),
+    image: url(entity.image, baseUrl),
+    sku: text(entity.sku ?? entity.mpn ?? entity.gtin13),
+    brand: text(entity.brand),
+    ...offerFields(entity.offers),
+    rating: number(entity.aggregateRating?.ratingValue),
+    reviewCount: number(entity.aggregateRating?.reviewCount ?? entity.aggregateRating?.ratingCount),
+  }),
+  Offer: (entity, baseUrl) => ({
+    title: text(entity.itemOffered ?? entity.name),
+    link: url(entity.url, baseUrl),
+    seller: text(entity.seller),
+    ...offerFields(entity),
+  }),
+  Article: (entity, baseUrl) => ({
+    title: text(entity.headline ?? entity.name),
+    description: text(entity.description),
+    link: url(entity.url ?? entity.mainEntityOfPage, baseUrl),
+    image: url(entity.image, baseUrl),
+    author: names(entity.author),
+    publisher: text(entity.publisher),
+    section: text(entity.articleSection),
+    publishedAt: text(entity.datePublished),
+    modifiedAt: text(entity.dateModified),
+  }),
+  Event: (entity, baseUrl) => ({
+    title: text(entity.name),
+    description: text(entity.description),
+    link: url(entity.url, baseUrl),
+    image: url(entity.image, baseUrl),
+    startDate: text(entity.startDate),
+    endDate: text(entity.endDate),
+    location: address(entity.location),
+    status: enumValue(entity.eventStatus),
+    ...offerFields(entity.offers),
+  }),
+  JobPosting: (entity, baseUrl) => {
+    const salary = first(entity.baseSalary);
+    return {
+      title: text(entity.title ?? entity.name),
+      description: entity.description ? htmlToText(String(first(entity.description))) : undefined,
+      link: url(entity.url, baseUrl),
+      company: text(entity.hiringOrganization),
+      location: address(entity.jobLocation),
+      employmentType: names(entity.employmentType),
+      postedAt: text(entity.datePosted),
+      validThrough: text(entity.validThrough),
+      salary: number(salary?.value?.value ?? salary?.value?.minValue ?? salary?.value),
+      currency: text(salary?.currency),
+    };
+  },
+};
+
+// The mapped type an entity counts as, e.g. NewsArticle -> Article, MusicEvent -> Event
+function mappedType(entity: Entity): string | undefined {
+  for (const type of typesOf(entity)) {
+    if (type === 'Product' || type === 'ProductGroup' || type === 'ProductModel') return 'Product';
+    if (type === 'Offer' || type === 'AggregateOffer') return 'Offer';
+    if (type.endsWith('Article') || type === 'BlogPosting' || type === 'Report') return 'Article';
+    if (type.endsWith('Event')) return 'Event';
+    if (type === 'JobPosting') return 'JobPosting';
+  }
+  return undefined;
+}
+
+function withoutEmpty(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined && value !== ''));
+}
+
+// Page-level record from Open Graph product/article tags, with Twitter card tags filling gaps
+function mapOpenGraph(data: StructuredData, pageUrl: string): Record<string, unknown> | undefined {
+  const og = data.openGraph;
+  const ogType = og['og:type']?.toLowerCase();
+  const schemaType = ogType === 'product' || ogType?.startsWith('product.') ? 'Product'
+    : ogType === 'article' ? 'Article'
+    : undefined;
+  if (!schemaType) return undefined;
+
+  return withoutEmpty({
+    schemaType,
+    source: 'opengraph',
+    title: og['og:title'] ?? data.twitter['twitter:title'],
+    description: og['og:description'] ?? data.twitter['twitter:description'],
+    link: resolveUrl(og['og:url'] ?? pageUrl, pageUrl),
+    image: url(og['og:image'] ?? data.twitter['twitter:image'], pageUrl),
+    siteName: og['og:site_name'],
+    price: number(og['product:price:amount'] ?? og['og:price:amount']),
+    currency: og['product:price:currency'] ?? og['og:price:currency'],
+    availability: og['product:availability'] ?? og['og:availability'],
+    author: og['article:author'],
+    section: og['article:section'],
+    publishedAt: og['article:published_time'],
+    modifiedAt: og['article:modified_time'],
+  });
+}
+
+/**
+ * Records for the Product, Offer, Article, Event and JobPosting entities on a
+ * page. The same entity described twice (e.g. in JSON-LD and microdata) is
+ * kept once; Open Graph tags are only used when the page has no such entity.
+ */
+export function mapStructuredData(data: StructuredData, pageUrl: string): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+  const seen = new Set<string>();
+  const sources: [StructuredSource, Entity[]][] = [['json-ld', data.jsonLd], ['microdata', data.microdata], ['rdfa', data.rdfa]];
+
+  for (const [source, entities] of sources) {
+    for (const entity of entities) {
+      const schemaType = mappedType(entity);
+      if (!schemaType) continue;
+      const record = withoutEmpty({ schemaType, source, ...MAPPERS[schemaType](entity, pageUrl) });
+      const key = `${schemaType}|${record.link ?? ''}|${record.title ?? ''}`;
+      if (seen.has(key) || (!record.title && !record.link)) continue;
+      seen.add(key);
+      records.push(record);
+    }
+  }
+
+  if (records.length === 0) {
+    const record = mapOpenGraph(data, pageUrl);
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+// Mapped structured data records found in a page
+export function extractStructuredItems($: cheerio.CheerioAPI, pageUrl: string): Record<string, unknown>[] {
+  const baseUrl = documentBaseUrl($, pageUrl);
+  return mapStructuredData(collectStructuredData($, baseUrl), baseUrl);
+}
@@ -0,0 +1,194 @@
+import * as cheerio from 'cheerio';
+import { tableConfigSchema, type TableConfig } from '@shared/schema';
+import { parseDate } from './transforms';
+
+export class TableValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableValidationError';
+  }
+}
+
+// Validate user-supplied table mode settings
+export function buildTableConfig(input: unknown): TableConfig {
+  const parsed = tableConfigSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new TableValidationError(`Invalid table setting ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const config = parsed.data;
+  if (config.selector) {
+    try {
+      cheerio.load('')(config.selector);
+    } catch {
+      throw new TableValidationError(`Invalid table selector: ${config.selector}`);
+    }
+  }
+  return config;
+}
+
+// One cell of the table grid; a spanning cell fills several grid slots with the same object
+interface GridCell {
+  text: string;
+  header: boolean;
+}
+
+type Grid = (GridCell | undefined)[][];
+
+// Rows of this table only, not of tables nested in it, with <tfoot> totals left out
+function ownRows($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>): any[] {
+  const element = table.get(0);
+  return table.find('tr').toArray()
+    .filter(row => $(row).closest('tfoot, table').get(0) === element);
+}
+
+// Footnote markers such as "[1]" or "[a]" are not part of the value
+function cellText($: cheerio.CheerioAPI, cell: any): string {
+  return $(cell).text().replace(/\[(\d+|[a-z]|note \d+)\]/gi, '').replace(/\s+/g, ' ').trim();
+}
+
+function span(value: string | undefined, max: number): number {
+  const parsed = parseInt(value || '1', 10);
+  // rowspan="0" spans the rest of the table
+  if (parsed === 0) return max;
+  return Math.min(Math.max(Number.isFinite(parsed) ? parsed : 1, 1), max);
+}
+
+// Lay the cells out on a grid so row- and colspans occupy every slot they cover
+function buildGrid($: cheerio.CheerioAPI, rows: any[]): Grid {
+  const grid: Grid = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let c = 0;
+    $(row).children('th, td').each((_, cell) => {
+      while (grid[r][c]) c++;
+      const entry: GridCell = { text: cellText($, cell), header: cell.tagName?.toLowerCase() === 'th' };
+      const rowspan = span($(cell).attr('rowspan'), rows.length - r);
+      const colspan = span($(cell).attr('colspan'), 1000);
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) grid[r + dr][c + dc] = entry;
+      }
+      c += colspan;
+    });
+  });
+  return grid;
+}
+
+const NUMBER_CELL = /^[-+−]?\s*[$€£¥₹]?\s*\d+(?:[,\s]\d{3})*(?:\.\d+)?\s*%?$/;
+const ISO_DATE_CELL = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const EMPTY_CELL = /^(|-|–|—|n\/a)$/i;
+
+/**
+ * Layout tables are skipped: a data table has at least two rows and columns
+ * and either header cells, a caption or a regular column count, and nests no
+ * other table.
+ */
+export function isDataTable($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>): boolean {
+  if (/^(presentation|none)$/i.test(table.attr('role') || '')) return false;
+  if (table.find('table').length > 0) return false;
+
+  const rows = ownRows($, table);
+  if (rows.length < 2) return false;
+  const widths = buildGrid($, rows).map(row => row.length);
+  const columns = Math.max(...widths);
+  if (columns < 2) return false;
+
+  if (table.find('th').length > 0 || table.find('thead').length > 0 || table.children('caption').length > 0) return true;
+  return rows.length >= 3 && widths.filter(width => width === columns).length >= rows.length * 0.8;
+}
+
+function detectHeaderRows($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>, grid: Grid): number {
+  const theadRows = table.children('thead').children('tr').length;
+  if (theadRows > 0) return theadRows;
+
+  let headerRows = 0;
+  while (headerRows < grid.length - 1 && grid[headerRows].length > 0 && grid[headerRows].every(cell => cell?.header)) headerRows++;
+  if (headerRows > 0) return headerRows;
+
+  // Without <th> a first row of labels (no empty or numeric cells) is taken as the header
+  const first = grid[0];
+  const labels = first.length > 0 && first.every(cell => cell && cell.text && !NUMBER_CELL.test(cell.text));
+  return labels && grid.length > 1 ? 1 : 0;
+}
+
+// "Population / 2020" for a column under a spanning "Population" header; empty headers become column1, column2...
+function columnNames(grid: Grid, headerRows: number, columns: number): string[] {
+  const used = new Map<string, number>();
+  return Array.from({ length: columns }, (_, c) => {
+    const parts: GridCell[] = [];
+    for (let r = 0; r < headerRows; r++) {
+      const cell = grid[r][c];
+      if (cell && cell.text && !parts.includes(cell)) parts.push(cell);
+    }
+    const name = parts.map(cell => cell.text).join(' / ') || `column${c + 1}`;
+    const count = (used.get(name) ?? 0) + 1;
+    used.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+function typeColumn(values: (string | null)[]): (string | number | null)[] {
+  const present = values.filter((value): value is string => value !== null);
+  if (present.length === 0) return values;
+
+  if (present.every(value => NUMBER_CELL.test(value))) {
+    return values.map(value => value === null ? null : parseFloat(value.replace('−', '-').replace(/[^\d.-]/g, '')));
+  }
+  if (present.every(value => ISO_DATE_CELL.test(value))) {
+    return values.map(value => value === null ? null : parseDate(value) ?? value);
+  }
+  return values;
+}
+
+function tableRecords($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>, config: TableConfig): Record<string, unknown>[] {
+  const grid = buildGrid($, ownRows($, table));
+  const columns = Math.max(0, ...grid.map(row => row.length));
+  const headerRows = Math.min(config.headerRows ?? detectHeaderRows($, table, grid), grid.length);
+  const names = columnNames(grid, headerRows, columns);
+  const headerTexts = names.join('|');
+
+  const rows: { section?: string; values: (string | null)[] }[] = [];
+  let section: string | undefined;
+  for (const row of grid.slice(headerRows)) {
+    const cells = Array.from({ length: columns }, (_, c) => row[c]);
+    const distinct = new Set(cells.filter(Boolean));
+    if (cells.every(cell => !cell?.text)) continue;
+    // A single cell across the whole row labels the rows below it, e.g. "Group A"
+    if (columns > 1 && distinct.size === 1 && cells.every(Boolean)) {
+      section = cells[0]!.text;
+      continue;
+    }
+    // Long tables repeat their header row every so often
+    if (cells.map(cell => cell?.text ?? '').join('|') === headerTexts) continue;
+
+    rows.push({ section, values: cells.map(cell => !cell || EMPTY_CELL.test(cell.text) ? null : cell.text) });
+  }
+
+  const typed = names.map((_, c) => {
+    const values = rows.map(row => row.values[c]);
+    return config.inferTypes ? typeColumn(values) : values;
+  });
+
+  return rows.map((row, index) => {
+    const record: Record<string, unknown> = {};
+    if (row.section !== undefined) record.section = row.section;
+    names.forEach((name, c) => {
+      record[name] = typed[c][index];
+    });
+    return record;
+  });
+}
+
+// The tables table mode reads on a page
+export function findDataTables($: cheerio.CheerioAPI, config: Pick<TableConfig, 'selector'> = {}): cheerio.Cheerio<any> {
+  if (config.selector) return $(config.selector).filter('table');
+  return $('table').filter((_, table) => isDataTable($, $(table)));
+}
+
+/**
+ * One record per body row of every matching table, keyed by column name.
+ * Rows spanning the full width become the "section" of the rows after them.
+ */
+export function extractTableRecords($: cheerio.CheerioAPI, config: TableConfig): Record<string, unknown>[] {
+  return findDataTables($, config).toArray().flatMap(table => tableRecords($, $(table), config));
+}
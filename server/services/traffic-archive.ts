@@ -0,0 +1,237 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { TaskRun } from '@shared/schema';
+import { blobStore } from './blob-store';
+import { DEFAULT_HTTP_SETTINGS, readBody } from './http-client';
+import type { RobotsGate } from './robots';
+import { safeFetch } from './url-policy';
+import type { Fetcher } from './retry';
+
+// A request the archive being replayed has no response for
+export class ReplayMissError extends Error {
+  constructor(method: string, url: string) {
+    super(`No recorded response for ${method} ${url}`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+// The parts of a HAR 1.2 entry this module reads and writes; Playwright's recordings carry more
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: unknown[];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: unknown[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, unknown>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// Credentials are not kept in archives; replays do not need them
+const REDACTED_HEADERS = /^(cookie|set-cookie|authorization|proxy-authorization)$/i;
+const TEXT_CONTENT = /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|ecmascript|x-www-form-urlencoded))/i;
+// Bodies are stored decoded, so these no longer describe them
+const STALE_HEADERS = /^(content-encoding|content-length|transfer-encoding)$/i;
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function redactHeaders(headers: HarHeader[]): HarHeader[] {
+  return headers.map(header => REDACTED_HEADERS.test(header.name) ? { ...header, value: '[redacted]' } : header);
+}
+
+export function redactHar(har: Har): Har {
+  return {
+    log: {
+      ...har.log,
+      entries: har.log.entries.map(entry => ({
+        ...entry,
+        request: { ...entry.request, headers: redactHeaders(entry.request.headers), cookies: [] },
+        response: { ...entry.response, headers: redactHeaders(entry.response.headers), cookies: [] },
+      })),
+    },
+  };
+}
+
+function headerList(headers: HeadersInit | undefined): HarHeader[] {
+  return Array.from(new Headers(headers).entries()).map(([name, value]) => ({ name, value }));
+}
+
+function archiveUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+function requestKey(method: string | undefined, url: string, body?: string): string {
+  const verb = (method || 'GET').toUpperCase();
+  return verb === 'GET' || verb === 'HEAD' ? `${verb} ${archiveUrl(url)}` : `${verb} ${archiveUrl(url)}\n${body ?? ''}`;
+}
+
+/**
+ * Keeps every request a run makes through its fetcher, with the response it
+ * got. A resumed run passes the entries its earlier part recorded.
+ */
+export class TrafficRecorder {
+  private entries: HarEntry[];
+
+  constructor(entries: HarEntry[] = []) {
+    this.entries = [...entries];
+  }
+
+  // Bodies over maxBodySize fail the request here, as reading them later would
+  wrap(fetcher: Fetcher = safeFetch, maxBodySize = DEFAULT_HTTP_SETTINGS.maxBodySize): Fetcher {
+    return async (url, init = {}) => {
+      const started = new Date();
+      const response = await fetcher(url, init);
+      const body = await readBody(response.clone(), maxBodySize).catch(async error => {
+        await response.body?.cancel();
+        throw error;
+      });
+      const mimeType = response.headers.get('content-type') || 'application/octet-stream';
+      const text = TEXT_CONTENT.test(mimeType);
+      const requestBody = typeof init.body === 'string' ? init.body : undefined;
+
+      this.entries.push({
+        startedDateTime: started.toISOString(),
+        time: Date.now() - started.getTime(),
+        request: {
+          method: (init.method || 'GET').toUpperCase(),
+          url: archiveUrl(url),
+          httpVersion: 'HTTP/1.1',
+          headers: headerList(init.headers),
+          queryString: Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value })),
+          cookies: [],
+          headersSize: -1,
+          bodySize: requestBody ? Buffer.byteLength(requestBody) : 0,
+          postData: requestBody !== undefined
+            ? { mimeType: new Headers(init.headers).get('content-type') || 'text/plain', text: requestBody }
+            : undefined,
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          httpVersion: 'HTTP/1.1',
+          headers: headerList(response.headers),
+          cookies: [],
+          content: {
+            size: body.length,
+            mimeType,
+            text: text ? body.toString('utf8') : body.toString('base64'),
+            encoding: text ? undefined : 'base64',
+          },
+          redirectURL: response.headers.get('location') || '',
+          headersSize: -1,
+          bodySize: body.length,
+        },
+        cache: {},
+        timings: { send: 0, wait: Date.now() - started.getTime(), receive: 0 },
+      });
+      return response;
+    };
+  }
+
+  toHar(): Har {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'DataScrapeAI', version: '1.0' },
+        entries: this.entries,
+      },
+    };
+  }
+}
+
+/**
+ * Answers requests from an archive instead of the network. A request made
+ * several times gets the recorded responses in order, then the last one again.
+ */
+export class TrafficReplayer {
+  private responses = new Map<string, HarEntry[]>();
+  private served = new Map<string, number>();
+
+  constructor(har: Har) {
+    for (const entry of har.log.entries) {
+      // Requests that never got a response (aborted, blocked) are recorded with status 0 or -1
+      if (entry.response.status < 200 || entry.response.status > 599) continue;
+      const key = requestKey(entry.request.method, entry.request.url, entry.request.postData?.text);
+      this.responses.set(key, [...(this.responses.get(key) ?? []), entry]);
+    }
+  }
+
+  fetch: Fetcher = async (url, init = {}) => {
+    const key = requestKey(init.method, url, typeof init.body === 'string' ? init.body : undefined);
+    const entries = this.responses.get(key);
+    if (!entries) throw new ReplayMissError((init.method || 'GET').toUpperCase(), url);
+
+    const count = this.served.get(key) ?? 0;
+    this.served.set(key, count + 1);
+    const { response } = entries[Math.min(count, entries.length - 1)];
+    const content = response.content;
+    const body = NULL_BODY_STATUSES.has(response.status)
+      ? null
+      : Buffer.from(content.text ?? '', content.encoding === 'base64' ? 'base64' : 'utf8');
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers.filter(header => !STALE_HEADERS.test(header.name)).map(header => [header.name, header.value] as [string, string]),
+    });
+  };
+}
+
+// Replayed runs make no requests to the site, so there is nothing for robots.txt to gate
+export const offlineRobotsGate: Pick<RobotsGate, 'allow'> = { allow: async () => true };
+
+// Store a run's recording (without credentials) in the blob store
+export async function saveTrafficArchive(taskId: string, runId: string, har: Har): Promise<NonNullable<TaskRun['trafficArchive']>> {
+  const blobKey = `${taskId}/${runId}/traffic.har`;
+  await blobStore.put(blobKey, JSON.stringify(redactHar(har)));
+  return { blobKey, entries: har.log.entries.length };
+}
+
+export async function loadTrafficArchive(run: TaskRun | undefined): Promise<Har> {
+  if (!run?.trafficArchive) throw new Error('The run to replay has no recorded traffic');
+  return JSON.parse((await blobStore.get(run.trafficArchive.blobKey)).toString('utf8'));
+}
+
+// Playwright records into and replays from HAR files, so archives pass through a temporary one
+export async function createHarFile(har?: Har): Promise<{ path: string; read(): Promise<Har>; remove(): Promise<void> }> {
+  const directory = await mkdtemp(path.join(tmpdir(), 'traffic-'));
+  const file = path.join(directory, 'traffic.har');
+  if (har) await writeFile(file, JSON.stringify(har));
+  return {
+    path: file,
+    read: async () => JSON.parse(await readFile(file, 'utf8')),
+    remove: () => rm(directory, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,192 @@
+import * as cheerio from 'cheerio';
+import type { FieldTransform } from '@shared/schema';
+import { isValidPattern, replacePattern } from './patterns';
+
+export type FieldValue = string | number | boolean;
+
+// The URL relative links on a page resolve against: its <base href> when it has one
+export function documentBaseUrl($: cheerio.CheerioAPI, pageUrl: string): string {
+  const href = $('base[href]').first().attr('href');
+  if (!href) return pageUrl;
+  try {
+    return new URL(href, pageUrl).href;
+  } catch {
+    return pageUrl;
+  }
+}
+
+export function resolveUrl(value: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(value.trim(), baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function separatorsFor(locale: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+  };
+}
+
+/**
+ * Number in a price or quantity string such as "₹1,299" or "1.234,56 €".
+ * With a locale its separators are used; without one a comma followed by one
+ * or two final digits is taken as the decimal separator.
+ */
+export function parseNumber(value: string, locale?: string): number | undefined {
+  let digits: string;
+  if (locale) {
+    const { group, decimal } = separatorsFor(locale);
+    digits = value
+      .replace(/\s/g, '') // Includes the no-break spaces some locales group with
+      .replace(new RegExp(escapeRegex(group), 'g'), '')
+      .replace(decimal, '.')
+      .replace(/[^\d.-]/g, '');
+  } else {
+    digits = value.replace(/[^\d.,-]/g, '');
+    digits = /,\d{1,2}$/.test(digits) ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '');
+  }
+  const number = parseFloat(digits);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE_TOKENS = /YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A/g;
+const DATE_TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})', YY: '(\\d{2})', MMMM: '([a-z]+)', MMM: '([a-z]{3})', MM: '(\\d{2})', M: '(\\d{1,2})',
+  DD: '(\\d{2})', D: '(\\d{1,2})', HH: '(\\d{2})', H: '(\\d{1,2})', hh: '(\\d{2})', h: '(\\d{1,2})',
+  mm: '(\\d{2})', ss: '(\\d{2})', A: '(am|pm)',
+};
+
+function compileDateFormat(format: string): { regex: RegExp; tokens: string[] } {
+  const tokens: string[] = [];
+  const source = escapeRegex(format).replace(DATE_TOKENS, token => {
+    tokens.push(token);
+    return DATE_TOKEN_PATTERNS[token];
+  });
+  return { regex: new RegExp(source, 'i'), tokens };
+}
+
+/**
+ * ISO timestamp for a date string. A format hint such as "DD/MM/YYYY" settles
+ * day/month order; missing parts default to January 1st of the current year
+ * and times are taken as UTC.
+ */
+export function parseDate(value: string, format?: string): string | undefined {
+  if (!format) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  const { regex, tokens } = compileDateFormat(format);
+  const match = regex.exec(value);
+  if (!match) return undefined;
+
+  const parts = { year: new Date().getUTCFullYear(), month: 0, day: 1, hour: 0, minute: 0, second: 0 };
+  let meridiem: string | undefined;
+  tokens.forEach((token, index) => {
+    const text = match[index + 1];
+    const number = parseInt(text, 10);
+    if (token === 'YYYY') parts.year = number;
+    else if (token === 'YY') parts.year = number < 70 ? 2000 + number : 1900 + number;
+    else if (token === 'MMMM' || token === 'MMM') parts.month = MONTHS.indexOf(text.slice(0, 3).toLowerCase());
+    else if (token === 'MM' || token === 'M') parts.month = number - 1;
+    else if (token === 'DD' || token === 'D') parts.day = number;
+    else if (/^[Hh]+$/.test(token)) parts.hour = number;
+    else if (token === 'mm') parts.minute = number;
+    else if (token === 'ss') parts.second = number;
+    else if (token === 'A') meridiem = text.toLowerCase();
+  });
+  if (meridiem) parts.hour = (parts.hour % 12) + (meridiem === 'pm' ? 12 : 0);
+
+  const date = new Date(Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second));
+  // Rejects unknown month names and rolled-over values such as 31/02
+  if (parts.month < 0 || date.getUTCMonth() !== parts.month || date.getUTCDate() !== parts.day) return undefined;
+  return date.toISOString();
+}
+
+const BLOCK_ELEMENTS = 'p, div, li, tr, td, th, h1, h2, h3, h4, h5, h6, section, article, blockquote';
+
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  $('br').replaceWith(' ');
+  $(BLOCK_ELEMENTS).append(' ');
+  return $.root().text().replace(/\s+/g, ' ').trim();
+}
+
+// Why a transform cannot run, or undefined when it is fine
+export function validateTransform(transform: FieldTransform): string | undefined {
+  switch (transform.op) {
+    case 'replace':
+      return isValidPattern(transform.pattern, transform.flags) ? undefined : `invalid regex ${transform.pattern}`;
+    case 'number':
+      if (!transform.locale) return undefined;
+      try {
+        new Intl.NumberFormat(transform.locale);
+      } catch {
+        return `unknown locale ${transform.locale}`;
+      }
+      return undefined;
+    case 'date':
+      if (transform.format && compileDateFormat(transform.format).tokens.length === 0) {
+        return `format ${transform.format} has no date parts such as YYYY, MM or DD`;
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function applyTransform(value: FieldValue, transform: FieldTransform, baseUrl: string): FieldValue | undefined {
+  if (transform.op === 'number' && typeof value === 'number') return value;
+  const text = String(value);
+
+  switch (transform.op) {
+    case 'trim': return text.trim();
+    case 'lowercase': return text.toLowerCase();
+    case 'htmlToText': return htmlToText(text);
+    case 'replace': return replacePattern(text, transform.pattern, transform.flags, transform.replacement);
+    case 'number': return parseNumber(text, transform.locale);
+    case 'date': return parseDate(text, transform.format);
+    case 'url': return resolveUrl(text, baseUrl);
+    default: return value;
+  }
+}
+
+/**
+ * Run a field's transforms in order. Lists (from multiple matches or split)
+ * are transformed element by element until a join; elements a transform cannot
+ * parse are dropped, and a single value that cannot be parsed ends as undefined.
+ */
+export function applyTransforms(
+  value: FieldValue | FieldValue[],
+  transforms: FieldTransform[],
+  baseUrl: string
+): FieldValue | FieldValue[] | undefined {
+  let current: FieldValue | FieldValue[] | undefined = value;
+
+  for (const transform of transforms) {
+    if (current === undefined) return undefined;
+
+    if (transform.op === 'split') {
+      const values: FieldValue[] = Array.isArray(current) ? current : [current];
+      current = values.flatMap(item => String(item).split(transform.separator).map(part => part.trim()).filter(Boolean));
+    } else if (transform.op === 'join') {
+      if (Array.isArray(current)) current = current.map(String).join(transform.separator);
+    } else if (Array.isArray(current)) {
+      current = current
+        .map(item => applyTransform(item, transform, baseUrl))
+        .filter((item): item is FieldValue => item !== undefined && item !== '');
+    } else {
+      current = applyTransform(current, transform, baseUrl);
+    }
+  }
+
+  return current;
+}
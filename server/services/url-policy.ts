@@ -0,0 +1,296 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { lookup as lookupCallback, type LookupAddress, type LookupOptions } from 'dns';
+import { Agent } from 'undici';
+import type { BrowserContext, Page as PlaywrightPage } from 'playwright';
+import type { Page as PuppeteerPage } from 'puppeteer';
+
+export class UrlPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UrlPolicyError';
+  }
+}
+
+export interface UrlPolicySettings {
+  allowedDomains: string[]; // When set, only these domains (and their subdomains) may be scraped
+  deniedDomains: string[];  // Never scraped, even when allowed above
+  allowPrivateNetworks: boolean; // Let on-premise installs scrape intranet hosts; metadata endpoints stay blocked
+}
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+const MAX_REDIRECTS = 10;
+
+// Names that reach the local machine or cloud metadata services without resolving to a blocked address first
+const BLOCKED_HOSTNAMES = /(^|\.)(localhost|localdomain|internal|local)$/;
+const METADATA_HOSTNAMES = /^metadata(\.google\.internal)?$/;
+
+// Cloud metadata endpoints, blocked even when private networks are allowed
+const METADATA_ADDRESSES = new BlockList();
+METADATA_ADDRESSES.addAddress('169.254.169.254', 'ipv4');
+METADATA_ADDRESSES.addAddress('169.254.170.2', 'ipv4');
+METADATA_ADDRESSES.addAddress('100.100.100.200', 'ipv4');
+METADATA_ADDRESSES.addAddress('fd00:ec2::254', 'ipv6');
+
+// Loopback, private, link-local (incl. 169.254.169.254 metadata), shared, documentation, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4 address carried inside an IPv4-mapped (::ffff:a.b.c.d) or NAT64 (64:ff9b::a.b.c.d) IPv6 address
+function embeddedIPv4(address: string): string | undefined {
+  const match = /^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (!match) return undefined;
+  if (match[1]) return match[1];
+
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+export function isBlockedAddress(address: string, allowPrivateNetworks = false): boolean {
+  const bare = address.replace(/^\[|\]$/g, '');
+  const family = isIP(bare);
+  if (family === 0) return true;
+
+  const ipv4 = family === 4 ? bare : embeddedIPv4(bare);
+  const [ip, type] = ipv4 ? [ipv4, 'ipv4' as const] : [bare, 'ipv6' as const];
+  if (METADATA_ADDRESSES.check(ip, type)) return true;
+  return !allowPrivateNetworks && BLOCKED_ADDRESSES.check(ip, type);
+}
+
+function readBooleanEnv(name: string): boolean {
+  return /^(1|true|yes)$/i.test(process.env[name] || '');
+}
+
+function readListEnv(name: string): string[] {
+  return normalizeDomains((process.env[name] || '').split(','));
+}
+
+// "*.Example.com." and ".example.com" both mean example.com and its subdomains
+function normalizeDomains(domains: string[]): string[] {
+  return Array.from(new Set(domains
+    .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, ''))
+    .filter(Boolean)));
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Decides which URLs the server may request on a user's behalf: http(s) only,
+ * no hosts that resolve to private or otherwise internal addresses, and the
+ * admin's domain allowlist and denylist.
+ */
+class UrlPolicy {
+  private settings: UrlPolicySettings = {
+    allowedDomains: readListEnv('URL_POLICY_ALLOWED_DOMAINS'),
+    deniedDomains: readListEnv('URL_POLICY_DENIED_DOMAINS'),
+    allowPrivateNetworks: readBooleanEnv('URL_POLICY_ALLOW_PRIVATE_NETWORKS'),
+  };
+
+  getSettings(): UrlPolicySettings {
+    return {
+      ...this.settings,
+      allowedDomains: [...this.settings.allowedDomains],
+      deniedDomains: [...this.settings.deniedDomains],
+    };
+  }
+
+  updateSettings(updates: Partial<UrlPolicySettings>): UrlPolicySettings {
+    this.settings = {
+      allowedDomains: updates.allowedDomains ? normalizeDomains(updates.allowedDomains) : this.settings.allowedDomains,
+      deniedDomains: updates.deniedDomains ? normalizeDomains(updates.deniedDomains) : this.settings.deniedDomains,
+      allowPrivateNetworks: updates.allowPrivateNetworks ?? this.settings.allowPrivateNetworks,
+    };
+    return this.getSettings();
+  }
+
+  // Checks that need no DNS lookup
+  checkUrl(input: string | URL): URL {
+    let url: URL;
+    try {
+      url = new URL(input);
+    } catch {
+      throw new UrlPolicyError(`Invalid URL: ${input}`);
+    }
+
+    if (!ALLOWED_PROTOCOLS.has(url.protocol)) {
+      throw new UrlPolicyError(`Only http and https URLs can be scraped, not ${url.protocol}`);
+    }
+
+    const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+    if (matchesDomain(hostname, this.settings.deniedDomains)) {
+      throw new UrlPolicyError(`Scraping ${hostname} is not allowed`);
+    }
+    if (this.settings.allowedDomains.length > 0 && !matchesDomain(hostname, this.settings.allowedDomains)) {
+      throw new UrlPolicyError(`${hostname} is not on the list of allowed domains`);
+    }
+    const internalName = BLOCKED_HOSTNAMES.test(hostname) && !this.settings.allowPrivateNetworks;
+    if (internalName || METADATA_HOSTNAMES.test(hostname)
+      || (isIP(hostname.replace(/^\[|\]$/g, '')) && isBlockedAddress(hostname, this.settings.allowPrivateNetworks))) {
+      throw new UrlPolicyError(`${hostname} is an internal address and cannot be scraped`);
+    }
+    return url;
+  }
+
+  // Every address the hostname resolves to has to be public
+  async assertAllowed(input: string | URL): Promise<URL> {
+    const url = this.checkUrl(input);
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname)) return url;
+
+    let addresses: { address: string }[];
+    try {
+      addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch (error) {
+      // Shaped like fetch()'s own network errors so retries treat it the same way
+      throw new TypeError(`Could not resolve ${hostname}`, { cause: error });
+    }
+
+    if (addresses.some(({ address }) => !this.allowsAddress(address))) {
+      throw new UrlPolicyError(`${hostname} resolves to an internal address and cannot be scraped`);
+    }
+    return url;
+  }
+
+  allowsAddress(address: string): boolean {
+    return !isBlockedAddress(address, this.settings.allowPrivateNetworks);
+  }
+}
+
+export const urlPolicy = new UrlPolicy();
+
+export function assertUrlAllowed(url: string | URL): Promise<URL> {
+  return urlPolicy.assertAllowed(url);
+}
+
+export function getUrlPolicySettings(): UrlPolicySettings {
+  return urlPolicy.getSettings();
+}
+
+export function updateUrlPolicySettings(updates: Partial<UrlPolicySettings>): UrlPolicySettings {
+  return urlPolicy.updateSettings(updates);
+}
+
+/**
+ * The DNS lookup of every connection safeFetch() and the proxy pool open. The
+ * name is resolved again when connecting, so checking these addresses, not
+ * the earlier ones, stops a name that re-resolves to an internal address
+ * after the check.
+ */
+export function checkedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(({ address }) => !urlPolicy.allowsAddress(address))) {
+      return callback(new UrlPolicyError(`${hostname} resolves to an internal address and cannot be scraped`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const checkedAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+// An address of the hostname that the URL policy allows, for connections opened without net.connect's lookup
+export function resolveCheckedAddress(hostname: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    checkedLookup(hostname, {}, (error, address) => error ? reject(error) : resolve(address as string));
+  });
+}
+
+/**
+ * fetch() for user-supplied URLs. Redirects are followed by hand so every
+ * hop is checked against the URL policy before it is requested.
+ */
+export async function safeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = url;
+  let method = init.method;
+  let body = init.body;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await urlPolicy.assertAllowed(current);
+    // Requests through a proxy connect to the proxy, which resolves the site's name itself
+    const dispatcher = (init as { dispatcher?: unknown }).dispatcher ?? checkedAgent;
+    const response = await fetch(current, { ...init, method, body, redirect: 'manual', dispatcher } as RequestInit);
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    current = new URL(location, current).href;
+    // Same method rewriting as fetch(): 303, and 301/302 after a POST, continue as GET
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      method = 'GET';
+      body = undefined;
+    }
+  }
+
+  throw new TypeError(`Too many redirects fetching ${url}`);
+}
+
+// Schemes a browser resolves without a network request
+const LOCAL_BROWSER_SCHEMES = /^(data|blob|about):/i;
+
+/**
+ * Route every request a Playwright page or context makes through the URL policy.
+ * Navigations are fetched without following redirects and handed back to the
+ * browser, so each redirect hop comes through this check as its own request.
+ */
+export async function guardPlaywright(target: PlaywrightPage | BrowserContext): Promise<void> {
+  await target.route('**/*', async (route) => {
+    const request = route.request();
+    if (LOCAL_BROWSER_SCHEMES.test(request.url())) return route.continue();
+
+    try {
+      await urlPolicy.assertAllowed(request.url());
+    } catch (error) {
+      console.warn(`Blocked browser request to ${request.url()}: ${(error as Error).message}`);
+      return route.abort('blockedbyclient');
+    }
+
+    if (!request.isNavigationRequest()) return route.continue();
+    try {
+      const response = await route.fetch({ maxRedirects: 0 });
+      await route.fulfill({ response });
+    } catch {
+      await route.abort('failed').catch(() => {});
+    }
+  });
+}
+
+// Puppeteer reports every redirect hop as its own request, so checking each request covers redirects
+export async function guardPuppeteer(page: PuppeteerPage): Promise<void> {
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    if (request.isInterceptResolutionHandled()) return;
+    if (LOCAL_BROWSER_SCHEMES.test(request.url())) {
+      request.continue();
+      return;
+    }
+
+    urlPolicy.assertAllowed(request.url())
+      .then(() => request.continue(), (error) => {
+        console.warn(`Blocked browser request to ${request.url()}: ${(error as Error).message}`);
+        return request.abort('blockedbyclient');
+      })
+      .catch(() => {
+        // The page may have closed while the check ran
+      });
+  });
+}
@@ -0,0 +1,137 @@
+import { DOMImplementation } from '@xmldom/xmldom';
+import { hasChildren, isComment, isTag, isText, Text, type AnyNode, type Element, type ParentNode } from 'domhandler';
+import xpath, { type SelectReturnType } from 'xpath';
+
+/**
+ * XPath 1.0 selectors over the DOM cheerio parses (domhandler nodes). The
+ * xpath library evaluates expressions against a W3C DOM, so each parsed page
+ * is mirrored once into an xmldom document and the selected nodes are mapped
+ * back to the cheerio tree. Element names match case-insensitively, as they
+ * do in a browser's HTML DOM.
+ */
+
+export class XPathSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XPathSyntaxError';
+  }
+}
+
+// Attributes are not nodes in domhandler, so selected attributes come back as these
+export interface AttributeNode {
+  type: 'attribute';
+  name: string;
+  value: string;
+  parent: Element;
+}
+
+export type XPathNode = AnyNode | AttributeNode;
+
+interface Mirror {
+  toMirror: Map<AnyNode, Node>;
+  fromMirror: Map<Node, AnyNode>;
+}
+
+const implementation = new DOMImplementation();
+const emptyDocument = implementation.createDocument(null, '') as unknown as Node;
+// Pages are not modified once parsed, so a document's mirror is built on its first query and reused
+const mirrors = new WeakMap<AnyNode, Mirror>();
+
+// Elements of the cheerio tree, as opposed to text, comments and selected attributes
+export function isElement(node: XPathNode): node is Element {
+  return node.type !== 'attribute' && isTag(node);
+}
+
+function buildMirror(root: AnyNode): Mirror {
+  const document = implementation.createDocument(null, '');
+  const mirror: Mirror = { toMirror: new Map(), fromMirror: new Map() };
+  const link = (node: AnyNode, copy: Node) => {
+    mirror.toMirror.set(node, copy);
+    mirror.fromMirror.set(copy, node);
+  };
+
+  const copyChildren = (node: ParentNode, into: Node) => {
+    for (const child of node.children) {
+      if (isText(child) || isComment(child)) {
+        const copy = isText(child) ? document.createTextNode(child.data) : document.createComment(child.data);
+        link(child, copy as unknown as Node);
+        into.appendChild(copy as unknown as Node);
+      } else if (isTag(child)) {
+        let copy: Node;
+        try {
+          copy = document.createElement(child.name) as unknown as Node;
+        } catch {
+          // Names HTML tolerates but XML does not: keep the children in the tree without the element
+          copyChildren(child, into);
+          continue;
+        }
+        for (const [name, value] of Object.entries(child.attribs)) {
+          try {
+            (copy as globalThis.Element).setAttribute(name, value);
+          } catch {
+            // Same for attribute names such as Vue's :class or @click; they can't be selected
+          }
+        }
+        link(child, copy);
+        into.appendChild(copy);
+        copyChildren(child, copy);
+      }
+    }
+  };
+
+  link(root, document as unknown as Node);
+  if (hasChildren(root)) copyChildren(root, document as unknown as Node);
+  return mirror;
+}
+
+function mirrorOf(node: AnyNode): Mirror {
+  let root: AnyNode = node;
+  while (root.parent) root = root.parent;
+  let mirror = mirrors.get(root);
+  if (!mirror) {
+    mirror = buildMirror(root);
+    mirrors.set(root, mirror);
+  }
+  return mirror;
+}
+
+function select(expression: string, context: Node): SelectReturnType {
+  try {
+    return xpath.select(expression, context);
+  } catch (error) {
+    throw new XPathSyntaxError(`${error instanceof Error ? error.message : error} in ${expression}`);
+  }
+}
+
+// Throws XPathSyntaxError for expressions that do not parse or call unknown functions
+export function compileXPath(expression: string): void {
+  select(expression, emptyDocument);
+}
+
+export function stringValue(node: XPathNode): string {
+  if (node.type === 'attribute') return node.value;
+  if (isText(node) || isComment(node)) return node.data;
+  return hasChildren(node) ? node.children.map(stringValue).join('') : '';
+}
+
+/**
+ * Nodes selected by an expression, relative to the context node. Expressions
+ * that produce a string, number or boolean (e.g. normalize-space(...)) come
+ * back as a text node holding that value.
+ */
+export function evaluateXPath(expression: string, context: AnyNode): XPathNode[] {
+  const mirror = mirrorOf(context);
+  const start = mirror.toMirror.get(context);
+  if (!start) return [];
+  const result = select(expression, start);
+  if (!Array.isArray(result)) return [new Text(String(result))];
+
+  return result.flatMap((node): XPathNode[] => {
+    if (xpath.isAttribute(node)) {
+      const parent = mirror.fromMirror.get(node.ownerElement!);
+      return parent && isTag(parent) ? [{ type: 'attribute', name: node.name, value: node.value, parent }] : [];
+    }
+    const original = mirror.fromMirror.get(node);
+    return original ? [original] : [];
+  });
+}
@@ -3,18 +3,32 @@ import {
   apiKeySchema,
   scrapingTaskSchema,
   scrapedDataSchema,
+  taskRunSchema,
+  runDiffSchema,
+  taskSessionSchema,
+  snapshotSchema,
+  httpCacheEntrySchema,
   websiteAnalysisSchema,
   taskLogSchema,
+  scrapingJobSchema,
   aiProviderKeySchema,
   databaseConnectionSchema,
+  proxyServerSchema,
   User,
   ApiKey,
   ScrapingTask,
   ScrapedData,
+  TaskRun,
+  RunDiff,
+  TaskSession,
+  Snapshot,
+  HttpCacheEntry,
   WebsiteAnalysis,
   TaskLog,
+  ScrapingJob,
   AiProviderKey,
   DatabaseConnection,
+  ProxyServer,
 } from "@shared/schema";
 import { getDb, isDbConnected } from "./db";
 import { Collection, ObjectId } from "mongodb";
@@ -36,12 +50,42 @@ export interface IStorage {
   createScrapingTask(task: ScrapingTask): Promise<ScrapingTask>;
   updateScrapingTask(id: string, updates: Partial<ScrapingTask>): Promise<ScrapingTask>;
   getActiveScrapingTasks(userId: string): Promise<ScrapingTask[]>;
+  getDueScheduledTasks(now: Date): Promise<ScrapingTask[]>;
 
   // Scraped Data
-  getScrapedData(taskId: string, limit?: number, offset?: number): Promise<ScrapedData[]>;
+  getScrapedData(taskId: string, limit?: number, offset?: number, runId?: string): Promise<ScrapedData[]>;
   createScrapedData(data: ScrapedData): Promise<ScrapedData>;
   updateScrapedData(id: string, updates: Partial<ScrapedData>): Promise<ScrapedData>;
   deleteScrapedData(id: string): Promise<void>;
+  deleteRunScrapedDataSince(runId: string, since: Date): Promise<number>;
+
+  // Task Runs
+  getTaskRuns(taskId: string): Promise<TaskRun[]>;
+  getTaskRun(id: string): Promise<TaskRun | undefined>;
+  createTaskRun(run: TaskRun): Promise<TaskRun>;
+  updateTaskRun(id: string, updates: Partial<TaskRun>): Promise<TaskRun>;
+
+  // Run Diffs
+  getRunDiffs(taskId: string): Promise<RunDiff[]>;
+  getRunDiffByRunId(runId: string): Promise<RunDiff | undefined>;
+  createRunDiff(diff: RunDiff): Promise<RunDiff>;
+
+  // Task Sessions (one per task, created on first save)
+  getTaskSession(taskId: string): Promise<TaskSession | undefined>;
+  saveTaskSession(session: TaskSession): Promise<TaskSession>;
+  deleteTaskSession(taskId: string): Promise<void>;
+
+  // Snapshots (metadata only; the screenshots and HTML are in the blob store)
+  getSnapshots(taskId: string, runId?: string): Promise<Snapshot[]>;
+  getSnapshot(id: string): Promise<Snapshot | undefined>;
+  createSnapshot(snapshot: Snapshot): Promise<Snapshot>;
+  deleteSnapshots(ids: string[]): Promise<void>;
+
+  // HTTP Cache (metadata only; the bodies are in the blob store)
+  getHttpCacheEntries(url: string): Promise<HttpCacheEntry[]>;
+  saveHttpCacheEntry(entry: HttpCacheEntry): Promise<HttpCacheEntry>; // Replaces the entry for the same URL and vary key
+  getHttpCacheSummary(): Promise<{ entries: number; size: number }>;
+  clearHttpCache(): Promise<number>;
 
   // Website Analysis
   getWebsiteAnalysis(url: string): Promise<WebsiteAnalysis | undefined>;
@@ -51,6 +95,14 @@ export interface IStorage {
   getTaskLogs(taskId: string): Promise<TaskLog[]>;
   createTaskLog(log: TaskLog): Promise<TaskLog>;
 
+  // Scraping Jobs
+  getScrapingJob(id: string): Promise<ScrapingJob | undefined>;
+  getScrapingJobs(filter?: { taskId?: string; states?: ScrapingJob["state"][] }): Promise<ScrapingJob[]>;
+  createScrapingJob(job: ScrapingJob): Promise<ScrapingJob>;
+  updateScrapingJob(id: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob>;
+  claimNextScrapingJob(excludeHosts?: string[]): Promise<ScrapingJob | undefined>;
+  deleteScrapingJob(id: string): Promise<void>;
+
   // AI Provider Keys
   getAiProviderKeys(userId: string): Promise<AiProviderKey[]>;
   getAiProviderKey(userId: string, provider: string): Promise<AiProviderKey | undefined>;
@@ -66,6 +118,13 @@ export interface IStorage {
   deleteDatabaseConnection(id: string): Promise<void>;
   testDatabaseConnection(id: string): Promise<{ success: boolean; error?: string }>;
 
+  // Proxies
+  getProxies(userId: string): Promise<ProxyServer[]>;
+  getProxy(id: string): Promise<ProxyServer | undefined>;
+  createProxy(proxy: ProxyServer): Promise<ProxyServer>;
+  updateProxy(id: string, updates: Partial<ProxyServer>): Promise<ProxyServer>;
+  deleteProxy(id: string): Promise<void>;
+
   // Statistics
   getUserStats(userId: string): Promise<{
     totalScraped: number;
@@ -81,10 +140,17 @@ export class InMemoryStorage implements IStorage {
   private apiKeys = new Map<string, ApiKey>();
   private scrapingTasks = new Map<string, ScrapingTask>();
   private scrapedData = new Map<string, ScrapedData>();
+  private taskRuns = new Map<string, TaskRun>();
+  private runDiffs = new Map<string, RunDiff>();
+  private taskSessions = new Map<string, TaskSession>(); // By task id
+  private snapshots = new Map<string, Snapshot>();
+  private httpCache = new Map<string, HttpCacheEntry>(); // By URL and vary key
   private websiteAnalysis = new Map<string, WebsiteAnalysis>();
   private taskLogs = new Map<string, TaskLog>();
+  private scrapingJobs = new Map<string, ScrapingJob>();
   private aiProviderKeys = new Map<string, AiProviderKey>();
   private databaseConnections = new Map<string, DatabaseConnection>();
+  private proxies = new Map<string, ProxyServer>();
 
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9);
@@ -155,10 +221,19 @@ export class InMemoryStorage implements IStorage {
     return tasks.filter(task => task.userId === userId && task.status === "running");
   }
 
-  async getScrapedData(taskId: string, limit = 50, offset = 0): Promise<ScrapedData[]> {
+  async getDueScheduledTasks(now: Date): Promise<ScrapingTask[]> {
+    const tasks = Array.from(this.scrapingTasks.values());
+    return tasks.filter(task =>
+      task.schedule?.enabled &&
+      task.schedule.nextRunAt &&
+      new Date(task.schedule.nextRunAt).getTime() <= now.getTime()
+    );
+  }
+
+  async getScrapedData(taskId: string, limit = 50, offset = 0, runId?: string): Promise<ScrapedData[]> {
     const data = Array.from(this.scrapedData.values());
     return data
-      .filter(item => item.taskId === taskId)
+      .filter(item => item.taskId === taskId && (!runId || item.runId === runId))
       .sort((a, b) => new Date(b.scrapedAt).getTime() - new Date(a.scrapedAt).getTime())
       .slice(offset, offset + limit);
   }
@@ -183,6 +258,122 @@ export class InMemoryStorage implements IStorage {
     this.scrapedData.delete(id);
   }
 
+  async deleteRunScrapedDataSince(runId: string, since: Date): Promise<number> {
+    let deleted = 0;
+    this.scrapedData.forEach((item, id) => {
+      if (item.runId === runId && new Date(item.scrapedAt).getTime() > since.getTime()) {
+        this.scrapedData.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async getTaskRuns(taskId: string): Promise<TaskRun[]> {
+    const runs = Array.from(this.taskRuns.values());
+    return runs
+      .filter(run => run.taskId === taskId)
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  }
+
+  async getTaskRun(id: string): Promise<TaskRun | undefined> {
+    return this.taskRuns.get(id);
+  }
+
+  async createTaskRun(run: TaskRun): Promise<TaskRun> {
+    const id = this.generateId();
+    const validatedRun = taskRunSchema.parse({ ...run, id });
+    this.taskRuns.set(id, validatedRun);
+    return validatedRun;
+  }
+
+  async updateTaskRun(id: string, updates: Partial<TaskRun>): Promise<TaskRun> {
+    const existing = this.taskRuns.get(id);
+    if (!existing) throw new Error(`Task run with id ${id} not found.`);
+
+    const updated = taskRunSchema.parse({ ...existing, ...updates });
+    this.taskRuns.set(id, updated);
+    return updated;
+  }
+
+  async getRunDiffs(taskId: string): Promise<RunDiff[]> {
+    const diffs = Array.from(this.runDiffs.values());
+    return diffs
+      .filter(diff => diff.taskId === taskId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getRunDiffByRunId(runId: string): Promise<RunDiff | undefined> {
+    const diffs = Array.from(this.runDiffs.values());
+    return diffs.find(diff => diff.runId === runId);
+  }
+
+  async createRunDiff(diff: RunDiff): Promise<RunDiff> {
+    const id = this.generateId();
+    const validatedDiff = runDiffSchema.parse({ ...diff, id });
+    this.runDiffs.set(id, validatedDiff);
+    return validatedDiff;
+  }
+
+  async getTaskSession(taskId: string): Promise<TaskSession | undefined> {
+    return this.taskSessions.get(taskId);
+  }
+
+  async saveTaskSession(session: TaskSession): Promise<TaskSession> {
+    const existing = this.taskSessions.get(session.taskId);
+    const saved = taskSessionSchema.parse({ ...session, id: existing?.id ?? this.generateId(), updatedAt: new Date() });
+    this.taskSessions.set(session.taskId, saved);
+    return saved;
+  }
+
+  async deleteTaskSession(taskId: string): Promise<void> {
+    this.taskSessions.delete(taskId);
+  }
+
+  async getSnapshots(taskId: string, runId?: string): Promise<Snapshot[]> {
+    const snapshots = Array.from(this.snapshots.values());
+    return snapshots
+      .filter(snapshot => snapshot.taskId === taskId && (!runId || snapshot.runId === runId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getSnapshot(id: string): Promise<Snapshot | undefined> {
+    return this.snapshots.get(id);
+  }
+
+  async createSnapshot(snapshot: Snapshot): Promise<Snapshot> {
+    const id = this.generateId();
+    const validatedSnapshot = snapshotSchema.parse({ ...snapshot, id });
+    this.snapshots.set(id, validatedSnapshot);
+    return validatedSnapshot;
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    ids.forEach(id => this.snapshots.delete(id));
+  }
+
+  async getHttpCacheEntries(url: string): Promise<HttpCacheEntry[]> {
+    return Array.from(this.httpCache.values()).filter(entry => entry.url === url);
+  }
+
+  async saveHttpCacheEntry(entry: HttpCacheEntry): Promise<HttpCacheEntry> {
+    const key = `${entry.url}\n${entry.varyKey}`;
+    const saved = httpCacheEntrySchema.parse({ ...entry, id: this.httpCache.get(key)?.id ?? this.generateId() });
+    this.httpCache.set(key, saved);
+    return saved;
+  }
+
+  async getHttpCacheSummary(): Promise<{ entries: number; size: number }> {
+    const entries = Array.from(this.httpCache.values());
+    return { entries: entries.length, size: entries.reduce((total, entry) => total + entry.size, 0) };
+  }
+
+  async clearHttpCache(): Promise<number> {
+    const count = this.httpCache.size;
+    this.httpCache.clear();
+    return count;
+  }
+
   async getWebsiteAnalysis(url: string): Promise<WebsiteAnalysis | undefined> {
     const analyses = Array.from(this.websiteAnalysis.values());
     return analyses.find(analysis => analysis.url === url);
@@ -209,6 +400,53 @@ export class InMemoryStorage implements IStorage {
     return validatedLog;
   }
 
+  async getScrapingJob(id: string): Promise<ScrapingJob | undefined> {
+    return this.scrapingJobs.get(id);
+  }
+
+  async getScrapingJobs(filter: { taskId?: string; states?: ScrapingJob["state"][] } = {}): Promise<ScrapingJob[]> {
+    const jobs = Array.from(this.scrapingJobs.values());
+    return jobs
+      .filter(job => !filter.taskId || job.taskId === filter.taskId)
+      .filter(job => !filter.states || filter.states.includes(job.state))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async createScrapingJob(job: ScrapingJob): Promise<ScrapingJob> {
+    const id = this.generateId();
+    const validatedJob = scrapingJobSchema.parse({ ...job, id });
+    this.scrapingJobs.set(id, validatedJob);
+    return validatedJob;
+  }
+
+  async updateScrapingJob(id: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob> {
+    const existing = this.scrapingJobs.get(id);
+    if (!existing) throw new Error(`Scraping job with id ${id} not found.`);
+
+    const updated = scrapingJobSchema.parse({ ...existing, ...updates, updatedAt: new Date() });
+    this.scrapingJobs.set(id, updated);
+    return updated;
+  }
+
+  async claimNextScrapingJob(excludeHosts: string[] = []): Promise<ScrapingJob | undefined> {
+    const next = Array.from(this.scrapingJobs.values())
+      .filter(job => job.state === "queued")
+      .filter(job => !job.runAfter || new Date(job.runAfter).getTime() <= Date.now())
+      .filter(job => !job.host || !excludeHosts.includes(job.host))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
+    if (!next) return undefined;
+
+    return this.updateScrapingJob(next.id!, {
+      state: "active",
+      attempts: next.attempts + 1,
+      startedAt: new Date(),
+    });
+  }
+
+  async deleteScrapingJob(id: string): Promise<void> {
+    this.scrapingJobs.delete(id);
+  }
+
   async getAiProviderKeys(userId: string): Promise<AiProviderKey[]> {
     const keys = Array.from(this.aiProviderKeys.values());
     return keys.filter(key => key.userId === userId)
@@ -304,6 +542,36 @@ export class InMemoryStorage implements IStorage {
     }
   }
 
+  async getProxies(userId: string): Promise<ProxyServer[]> {
+    const proxies = Array.from(this.proxies.values());
+    return proxies.filter(proxy => proxy.userId === userId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getProxy(id: string): Promise<ProxyServer | undefined> {
+    return this.proxies.get(id);
+  }
+
+  async createProxy(proxy: ProxyServer): Promise<ProxyServer> {
+    const id = this.generateId();
+    const validatedProxy = proxyServerSchema.parse({ ...proxy, id });
+    this.proxies.set(id, validatedProxy);
+    return validatedProxy;
+  }
+
+  async updateProxy(id: string, updates: Partial<ProxyServer>): Promise<ProxyServer> {
+    const existing = this.proxies.get(id);
+    if (!existing) throw new Error(`Proxy with id ${id} not found.`);
+
+    const updated = proxyServerSchema.parse({ ...existing, ...updates, updatedAt: new Date() });
+    this.proxies.set(id, updated);
+    return updated;
+  }
+
+  async deleteProxy(id: string): Promise<void> {
+    this.proxies.delete(id);
+  }
+
   async getUserStats(userId: string): Promise<{
     totalScraped: number;
     activeTasks: number;
@@ -331,6 +599,20 @@ export class InMemoryStorage implements IStorage {
   }
 }
 
+// Fields explicitly set to undefined are removed instead of being stored as null
+function buildUpdate(fields: Record<string, any>): { $set: Record<string, any>; $unset?: Record<string, ""> } {
+  const $set: Record<string, any> = {};
+  const $unset: Record<string, ""> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      $unset[key] = "";
+    } else {
+      $set[key] = value;
+    }
+  }
+  return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+}
+
 export class DatabaseStorage implements IStorage {
   private getUsersCollection(): Collection<User> {
     const db = getDb();
@@ -356,6 +638,36 @@ export class DatabaseStorage implements IStorage {
     return db.collection<ScrapedData>("scrapedData");
   }
 
+  private getTaskRunsCollection(): Collection<TaskRun> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<TaskRun>("taskRuns");
+  }
+
+  private getRunDiffsCollection(): Collection<RunDiff> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<RunDiff>("runDiffs");
+  }
+
+  private getTaskSessionsCollection(): Collection<TaskSession> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<TaskSession>("taskSessions");
+  }
+
+  private getSnapshotsCollection(): Collection<Snapshot> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<Snapshot>("snapshots");
+  }
+
+  private getHttpCacheCollection(): Collection<HttpCacheEntry> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<HttpCacheEntry>("httpCache");
+  }
+
   private getWebsiteAnalysisCollection(): Collection<WebsiteAnalysis> {
     const db = getDb();
     if (!db) throw new Error("Database not connected");
@@ -368,12 +680,24 @@ export class DatabaseStorage implements IStorage {
     return db.collection<TaskLog>("taskLogs");
   }
 
+  private getScrapingJobsCollection(): Collection<ScrapingJob> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<ScrapingJob>("scrapingJobs");
+  }
+
   private getAiProviderKeysCollection(): Collection<AiProviderKey> {
     const db = getDb();
     if (!db) throw new Error("Database not connected");
     return db.collection<AiProviderKey>("aiProviderKeys");
   }
 
+  private getProxiesCollection(): Collection<ProxyServer> {
+    const db = getDb();
+    if (!db) throw new Error("Database not connected");
+    return db.collection<ProxyServer>("proxies");
+  }
+
   private getDatabaseConnectionsCollection(): Collection<DatabaseConnection> {
     const db = getDb();
     if (!db) throw new Error("Database not connected");
@@ -442,8 +766,8 @@ export class DatabaseStorage implements IStorage {
     const validatedUpdates = scrapingTaskSchema.partial().parse(updates);
     const result: any = await this.getScrapingTasksCollection().findOneAndUpdate(
       { _id: new ObjectId(id) },
-      { $set: { ...validatedUpdates, updatedAt: new Date() } },
-      { returnDocument: 'after' }
+      buildUpdate({ ...validatedUpdates, updatedAt: new Date() }),
+      { returnDocument: 'after', includeResultMetadata: true }
     );
     if (!result.value) {
       throw new Error(`Scraping task with id ${id} not found.`);
@@ -456,9 +780,16 @@ export class DatabaseStorage implements IStorage {
     return tasks.map(task => scrapingTaskSchema.parse({ ...task, id: task._id.toHexString() }));
   }
 
-  async getScrapedData(taskId: string, limit = 50, offset = 0): Promise<ScrapedData[]> {
+  async getDueScheduledTasks(now: Date): Promise<ScrapingTask[]> {
+    const tasks = await this.getScrapingTasksCollection()
+      .find({ "schedule.enabled": true, "schedule.nextRunAt": { $lte: now } })
+      .toArray();
+    return tasks.map(task => scrapingTaskSchema.parse({ ...task, id: task._id.toHexString() }));
+  }
+
+  async getScrapedData(taskId: string, limit = 50, offset = 0, runId?: string): Promise<ScrapedData[]> {
     const data = await this.getScrapedDataCollection()
-      .find({ taskId })
+      .find(runId ? { taskId, runId } : { taskId })
       .sort({ scrapedAt: -1 })
       .skip(offset)
       .limit(limit)
@@ -477,7 +808,7 @@ export class DatabaseStorage implements IStorage {
     const result: any = await this.getScrapedDataCollection().findOneAndUpdate(
       { _id: new ObjectId(id) },
       { $set: validatedUpdates },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', includeResultMetadata: true }
     );
     if (!result.value) {
       throw new Error(`Scraped data with id ${id} not found.`);
@@ -489,6 +820,133 @@ export class DatabaseStorage implements IStorage {
     await this.getScrapedDataCollection().deleteOne({ _id: new ObjectId(id) });
   }
 
+  async deleteRunScrapedDataSince(runId: string, since: Date): Promise<number> {
+    const result = await this.getScrapedDataCollection().deleteMany({ runId, scrapedAt: { $gt: since } });
+    return result.deletedCount;
+  }
+
+  async getTaskRuns(taskId: string): Promise<TaskRun[]> {
+    const runs = await this.getTaskRunsCollection().find({ taskId }).sort({ startedAt: -1 }).toArray();
+    return runs.map(run => taskRunSchema.parse({ ...run, id: run._id.toHexString() }));
+  }
+
+  async getTaskRun(id: string): Promise<TaskRun | undefined> {
+    try {
+      const run = await this.getTaskRunsCollection().findOne({ _id: new ObjectId(id) });
+      return run ? taskRunSchema.parse({ ...run, id: run._id.toHexString() }) : undefined;
+    } catch (error) {
+      console.error("Error in getTaskRun:", error);
+      return undefined;
+    }
+  }
+
+  async createTaskRun(run: TaskRun): Promise<TaskRun> {
+    const validatedRun = taskRunSchema.parse(run);
+    const result = await this.getTaskRunsCollection().insertOne(validatedRun as any);
+    return taskRunSchema.parse({ ...validatedRun, id: result.insertedId.toHexString() });
+  }
+
+  async updateTaskRun(id: string, updates: Partial<TaskRun>): Promise<TaskRun> {
+    const validatedUpdates = taskRunSchema.partial().parse(updates);
+    const result: any = await this.getTaskRunsCollection().findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      buildUpdate(validatedUpdates),
+      { returnDocument: 'after', includeResultMetadata: true }
+    );
+    if (!result.value) {
+      throw new Error(`Task run with id ${id} not found.`);
+    }
+    return taskRunSchema.parse({ ...result.value, id: result.value._id.toHexString() });
+  }
+
+  async getRunDiffs(taskId: string): Promise<RunDiff[]> {
+    const diffs = await this.getRunDiffsCollection().find({ taskId }).sort({ createdAt: -1 }).toArray();
+    return diffs.map(diff => runDiffSchema.parse({ ...diff, id: diff._id.toHexString() }));
+  }
+
+  async getRunDiffByRunId(runId: string): Promise<RunDiff | undefined> {
+    const diff = await this.getRunDiffsCollection().findOne({ runId });
+    return diff ? runDiffSchema.parse({ ...diff, id: diff._id.toHexString() }) : undefined;
+  }
+
+  async createRunDiff(diff: RunDiff): Promise<RunDiff> {
+    const validatedDiff = runDiffSchema.parse(diff);
+    const result = await this.getRunDiffsCollection().insertOne(validatedDiff as any);
+    return runDiffSchema.parse({ ...validatedDiff, id: result.insertedId.toHexString() });
+  }
+
+  async getTaskSession(taskId: string): Promise<TaskSession | undefined> {
+    const session = await this.getTaskSessionsCollection().findOne({ taskId });
+    return session ? taskSessionSchema.parse({ ...session, id: session._id.toHexString() }) : undefined;
+  }
+
+  async saveTaskSession(session: TaskSession): Promise<TaskSession> {
+    const { id, ...fields } = taskSessionSchema.parse({ ...session, updatedAt: new Date() });
+    // Replaced whole, so fields left out of the session (such as a cleared storage state) are removed
+    const result: any = await this.getTaskSessionsCollection().findOneAndReplace(
+      { taskId: session.taskId },
+      fields,
+      { upsert: true, returnDocument: 'after', includeResultMetadata: true }
+    );
+    return taskSessionSchema.parse({ ...result.value, id: result.value._id.toHexString() });
+  }
+
+  async deleteTaskSession(taskId: string): Promise<void> {
+    await this.getTaskSessionsCollection().deleteOne({ taskId });
+  }
+
+  async getSnapshots(taskId: string, runId?: string): Promise<Snapshot[]> {
+    const snapshots = await this.getSnapshotsCollection().find(runId ? { taskId, runId } : { taskId }).sort({ createdAt: 1 }).toArray();
+    return snapshots.map(snapshot => snapshotSchema.parse({ ...snapshot, id: snapshot._id.toHexString() }));
+  }
+
+  async getSnapshot(id: string): Promise<Snapshot | undefined> {
+    try {
+      const snapshot = await this.getSnapshotsCollection().findOne({ _id: new ObjectId(id) });
+      return snapshot ? snapshotSchema.parse({ ...snapshot, id: snapshot._id.toHexString() }) : undefined;
+    } catch (error) {
+      console.error("Error in getSnapshot:", error);
+      return undefined;
+    }
+  }
+
+  async createSnapshot(snapshot: Snapshot): Promise<Snapshot> {
+    const validatedSnapshot = snapshotSchema.parse(snapshot);
+    const result = await this.getSnapshotsCollection().insertOne(validatedSnapshot as any);
+    return snapshotSchema.parse({ ...validatedSnapshot, id: result.insertedId.toHexString() });
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    await this.getSnapshotsCollection().deleteMany({ _id: { $in: ids.map(id => new ObjectId(id)) } });
+  }
+
+  async getHttpCacheEntries(url: string): Promise<HttpCacheEntry[]> {
+    const entries = await this.getHttpCacheCollection().find({ url }).toArray();
+    return entries.map(entry => httpCacheEntrySchema.parse({ ...entry, id: entry._id.toHexString() }));
+  }
+
+  async saveHttpCacheEntry(entry: HttpCacheEntry): Promise<HttpCacheEntry> {
+    const { id, ...fields } = httpCacheEntrySchema.parse(entry);
+    const result: any = await this.getHttpCacheCollection().findOneAndReplace(
+      { url: entry.url, varyKey: fields.varyKey },
+      fields,
+      { upsert: true, returnDocument: 'after', includeResultMetadata: true }
+    );
+    return httpCacheEntrySchema.parse({ ...result.value, id: result.value._id.toHexString() });
+  }
+
+  async getHttpCacheSummary(): Promise<{ entries: number; size: number }> {
+    const [summary] = await this.getHttpCacheCollection()
+      .aggregate<{ entries: number; size: number }>([{ $group: { _id: null, entries: { $sum: 1 }, size: { $sum: "$size" } } }])
+      .toArray();
+    return { entries: summary?.entries ?? 0, size: summary?.size ?? 0 };
+  }
+
+  async clearHttpCache(): Promise<number> {
+    const result = await this.getHttpCacheCollection().deleteMany({});
+    return result.deletedCount;
+  }
+
   async getWebsiteAnalysis(url: string): Promise<WebsiteAnalysis | undefined> {
     const analysis = await this.getWebsiteAnalysisCollection().findOne({ url });
     return analysis ? websiteAnalysisSchema.parse({ ...analysis, id: analysis._id.toHexString() }) : undefined;
@@ -511,6 +969,61 @@ export class DatabaseStorage implements IStorage {
     return taskLogSchema.parse({ ...validatedLog, id: result.insertedId.toHexString() });
   }
 
+  async getScrapingJob(id: string): Promise<ScrapingJob | undefined> {
+    try {
+      const job = await this.getScrapingJobsCollection().findOne({ _id: new ObjectId(id) });
+      return job ? scrapingJobSchema.parse({ ...job, id: job._id.toHexString() }) : undefined;
+    } catch (error) {
+      console.error("Error in getScrapingJob:", error);
+      return undefined;
+    }
+  }
+
+  async getScrapingJobs(filter: { taskId?: string; states?: ScrapingJob["state"][] } = {}): Promise<ScrapingJob[]> {
+    const query: Record<string, any> = {};
+    if (filter.taskId) query.taskId = filter.taskId;
+    if (filter.states) query.state = { $in: filter.states };
+
+    const jobs = await this.getScrapingJobsCollection().find(query).sort({ createdAt: -1 }).toArray();
+    return jobs.map(job => scrapingJobSchema.parse({ ...job, id: job._id.toHexString() }));
+  }
+
+  async createScrapingJob(job: ScrapingJob): Promise<ScrapingJob> {
+    const validatedJob = scrapingJobSchema.parse(job);
+    const result = await this.getScrapingJobsCollection().insertOne(validatedJob as any);
+    return scrapingJobSchema.parse({ ...validatedJob, id: result.insertedId.toHexString() });
+  }
+
+  async updateScrapingJob(id: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob> {
+    const validatedUpdates = scrapingJobSchema.partial().parse(updates);
+    const result: any = await this.getScrapingJobsCollection().findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      buildUpdate({ ...validatedUpdates, updatedAt: new Date() }),
+      { returnDocument: 'after', includeResultMetadata: true }
+    );
+    if (!result.value) {
+      throw new Error(`Scraping job with id ${id} not found.`);
+    }
+    return scrapingJobSchema.parse({ ...result.value, id: result.value._id.toHexString() });
+  }
+
+  async claimNextScrapingJob(excludeHosts: string[] = []): Promise<ScrapingJob | undefined> {
+    // Atomically move the oldest queued job to active so two workers never pick the same job
+    const result: any = await this.getScrapingJobsCollection().findOneAndUpdate(
+      { state: "queued", host: { $nin: excludeHosts }, runAfter: { $not: { $gt: new Date() } } },
+      {
+        $set: { state: "active", startedAt: new Date(), updatedAt: new Date() },
+        $inc: { attempts: 1 }
+      },
+      { sort: { createdAt: 1 }, returnDocument: 'after', includeResultMetadata: true }
+    );
+    return result.value ? scrapingJobSchema.parse({ ...result.value, id: result.value._id.toHexString() }) : undefined;
+  }
+
+  async deleteScrapingJob(id: string): Promise<void> {
+    await this.getScrapingJobsCollection().deleteOne({ _id: new ObjectId(id) });
+  }
+
   async getAiProviderKeys(userId: string): Promise<AiProviderKey[]> {
     const keys = await this.getAiProviderKeysCollection().find({ userId }).sort({ createdAt: -1 }).toArray();
     return keys.map(key => aiProviderKeySchema.parse({ ...key, id: key._id.toHexString() }));
@@ -616,6 +1129,44 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getProxies(userId: string): Promise<ProxyServer[]> {
+    const proxies = await this.getProxiesCollection().find({ userId }).sort({ createdAt: 1 }).toArray();
+    return proxies.map(proxy => proxyServerSchema.parse({ ...proxy, id: proxy._id.toHexString() }));
+  }
+
+  async getProxy(id: string): Promise<ProxyServer | undefined> {
+    try {
+      const proxy = await this.getProxiesCollection().findOne({ _id: new ObjectId(id) });
+      return proxy ? proxyServerSchema.parse({ ...proxy, id: proxy._id.toHexString() }) : undefined;
+    } catch (error) {
+      console.error("Error in getProxy:", error);
+      return undefined;
+    }
+  }
+
+  async createProxy(proxy: ProxyServer): Promise<ProxyServer> {
+    const validatedProxy = proxyServerSchema.parse(proxy);
+    const result = await this.getProxiesCollection().insertOne(validatedProxy as any);
+    return proxyServerSchema.parse({ ...validatedProxy, id: result.insertedId.toHexString() });
+  }
+
+  async updateProxy(id: string, updates: Partial<ProxyServer>): Promise<ProxyServer> {
+    const validatedUpdates = proxyServerSchema.partial().parse(updates);
+    const result: any = await this.getProxiesCollection().findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      buildUpdate({ ...validatedUpdates, updatedAt: new Date() }),
+      { returnDocument: 'after', includeResultMetadata: true }
+    );
+    if (!result.value) {
+      throw new Error(`Proxy with id ${id} not found.`);
+    }
+    return proxyServerSchema.parse({ ...result.value, id: result.value._id.toHexString() });
+  }
+
+  async deleteProxy(id: string): Promise<void> {
+    await this.getProxiesCollection().deleteOne({ _id: new ObjectId(id) });
+  }
+
   async getUserStats(userId: string): Promise<{
     totalScraped: number;
     activeTasks: number;
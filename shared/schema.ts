@@ -7,6 +7,7 @@ export const userSchema = z.object({
   password: z.string().min(1),
   email: z.string().email(),
   plan: z.string().default("free"),
+  role: z.enum(["user", "admin"]).default("user"),
   createdAt: z.date().default(() => new Date()),
 });
 
@@ -19,12 +20,243 @@ export const apiKeySchema = z.object({
   createdAt: z.date().default(() => new Date()),
 });
 
+// Cron-style schedule for recurring runs of a task
+export const taskScheduleSchema = z.object({
+  cron: z.string().min(1), // Standard 5-field (or 6-field with seconds) cron expression
+  timezone: z.string().min(1).default("UTC"),
+  enabled: z.boolean().default(true),
+  maxPages: z.number().int().min(1).optional(),
+  delay: z.number().int().min(0).optional(),
+  nextRunAt: z.date().optional(),
+  lastRunAt: z.date().optional(),
+});
+
+// How a task finds the next page of results
+export const paginationSchema = z.object({
+  strategy: z.enum(["auto", "rel-next", "next-button", "query-param", "url-template", "none"]).default("auto"),
+  nextSelector: z.string().min(1).optional(), // CSS selector of the "next" link for next-button
+  param: z.string().min(1).optional(), // Query parameter to increment for query-param, e.g. "page" or "offset"
+  start: z.number().int().min(0).optional(), // Value of the parameter or {page} placeholder on the first page
+  step: z.number().int().min(1).optional(), // Increment per page; offsets default to the number of items on the page
+  template: z.string().min(1).optional(), // URL containing a {page} placeholder for url-template
+});
+
+// Where a run's pages come from: the task URL alone, or URLs listed in sitemaps or feeds
+export const seedSchema = z.object({
+  mode: z.enum(["url", "sitemap", "feed"]).default("url"),
+  source: z.string().url().optional(), // Sitemap or feed URL; otherwise found through robots.txt or the task page
+  include: z.array(z.string()).default([]), // URL regexes, at least one must match when given
+  exclude: z.array(z.string()).default([]), // URL regexes that drop a URL
+  modifiedSince: z.coerce.date().optional(), // Skip entries whose lastmod is older
+  incremental: z.boolean().default(false), // Skip entries unchanged since the last completed run
+  maxUrls: z.number().int().min(1).max(10000).default(500),
+});
+
+// Admin decision to scrape a task's URLs even where robots.txt disallows them
+export const robotsOverrideSchema = z.object({
+  reason: z.string().min(1),
+  userId: z.string(),
+  enabledAt: z.date(),
+});
+
+// Every change to a task's robots.txt override, kept for review
+export const robotsAuditEntrySchema = z.object({
+  action: z.enum(["enabled", "disabled"]),
+  reason: z.string().optional(),
+  userId: z.string(),
+  createdAt: z.date(),
+});
+
+// Follow each item's link into its detail page and merge the fields found there
+export const detailCrawlSchema = z.object({
+  selectors: z.record(z.string(), z.string()), // Field name -> CSS selector, "selector@attr" reads an attribute
+  linkField: z.string().min(1).default("link"), // Item field holding the detail page URL
+  maxDepth: z.number().int().min(1).max(3).default(1), // Detail levels to follow below the listing
+  sameDomain: z.boolean().default(true), // Skip links that leave the listing's site
+  maxRequests: z.number().int().min(1).default(200), // Detail pages fetched per run at most
+});
+
+// One step of a field's transform pipeline, applied in order to the raw value (each element of a list)
+export const fieldTransformSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("trim") }),
+  z.object({ op: z.literal("lowercase") }),
+  z.object({ op: z.literal("htmlToText") }),
+  z.object({
+    op: z.literal("replace"),
+    pattern: z.string().min(1), // Regex
+    replacement: z.string().default(""), // May use $1-style group references
+    flags: z.string().regex(/^[gimsuy]*$/).default("g"),
+  }),
+  z.object({ op: z.literal("number"), locale: z.string().min(1).optional() }), // "₹1,299" -> 1299; locale picks the separators
+  z.object({
+    op: z.literal("date"),
+    format: z.string().min(1).optional(), // e.g. "DD/MM/YYYY" or "MMM D, YYYY HH:mm"; free-form parsing when omitted
+  }),
+  z.object({ op: z.literal("url") }), // Resolve against the page's <base href>
+  z.object({ op: z.literal("split"), separator: z.string().min(1).default(",") }),
+  z.object({ op: z.literal("join"), separator: z.string().default(", ") }),
+]);
+
+// One named value read from every item
+export const extractionFieldSchema = z.object({
+  name: z.string().min(1),
+  selector: z.string().min(1).optional(), // Relative to the item; omitted reads the item element itself
+  selectorType: z.enum(["css", "xpath"]).default("css"),
+  source: z.enum(["text", "attribute", "html"]).default("text"),
+  attribute: z.string().min(1).optional(), // Attribute read when source is "attribute"
+  multiple: z.boolean().default(false), // Collect every match into an array instead of taking the first
+  regex: z.string().min(1).optional(), // Keep the first capture group (or the whole match) of each value
+  transforms: z.array(fieldTransformSchema).default([]), // Run after the regex and before type coercion
+  type: z.enum(["string", "number", "date", "url", "boolean"]).default("string"),
+  default: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(), // Used when nothing is found
+});
+
+// Declarative replacement for the heuristic title/price/link/image extraction
+export const extractionSchema = z.object({
+  itemSelector: z.string().min(1).optional(), // Item container; defaults to the detected item selector
+  itemSelectorType: z.enum(["css", "xpath"]).default("css"),
+  fields: z.array(extractionFieldSchema).min(1),
+});
+
+// Table mode: one record per data table row, keyed by the resolved column headers
+export const tableConfigSchema = z.object({
+  selector: z.string().min(1).optional(), // CSS selector of the table(s); data tables are detected when omitted
+  headerRows: z.number().int().min(0).max(10).optional(), // Rows forming the header; detected from <thead> and <th> when omitted
+  inferTypes: z.boolean().default(true), // Columns of numbers or ISO dates come out typed instead of as text
+});
+
+// An array in a captured JSON response that looks like the page's items
+export const itemArrayCandidateSchema = z.object({
+  path: z.string(), // JSONPath to the array, e.g. $.data.products
+  length: z.number().int().min(0),
+  fields: z.array(z.string()), // Keys of the first item
+});
+
+// A JSON response the page's scripts fetched while it was rendered
+export const capturedEndpointSchema = z.object({
+  url: z.string(),
+  method: z.string(),
+  status: z.number().int(),
+  contentType: z.string(),
+  size: z.number().int().min(0), // Bytes
+  requestHeaders: z.record(z.string(), z.string()), // Cookies and credentials are left out
+  requestBody: z.string().optional(),
+  candidates: z.array(itemArrayCandidateSchema),
+});
+
+/**
+ * Scrape a JSON endpoint directly instead of rendering the page that calls it.
+ * Page and offset parameters come from the task's query-param pagination;
+ * nextPath follows next links or cursors given in the response itself.
+ */
+export const apiSourceSchema = z.object({
+  endpoint: z.string().url(),
+  method: z.enum(["GET", "POST"]).default("GET"),
+  headers: z.record(z.string(), z.string()).default({}),
+  body: z.string().optional(), // Sent as is with every POST request
+  itemsPath: z.string().min(1), // JSONPath to the items, e.g. $.data.products[*]
+  nextPath: z.string().min(1).optional(), // JSONPath to the next page URL, or the cursor when cursorParam is set
+  cursorParam: z.string().min(1).optional(), // Query parameter the cursor found at nextPath is sent in
+});
+
+/**
+ * How to log in to the site a task scrapes. The credentials themselves are
+ * stored encrypted in the task's session, never on the task.
+ */
+export const loginRecipeSchema = z.object({
+  formUrl: z.string().url(),
+  usernameSelector: z.string().min(1),
+  passwordSelector: z.string().min(1),
+  submitSelector: z.string().min(1).optional(), // Enter is pressed in the password field when omitted
+  extraFields: z.record(z.string(), z.string()).default({}), // Selector to value for other inputs, e.g. a tenant code
+  successSelector: z.string().min(1).optional(), // Only shown when logged in, e.g. a logout link
+  successUrlPattern: z.string().min(1).optional(), // Regex the URL matches after a successful login
+  failureSelector: z.string().min(1).optional(), // Error message of a rejected login
+  loggedOutSelector: z.string().min(1).optional(), // Marks a page served to a logged-out visitor; defaults to the password field
+});
+
+// Fields every browser action has
+const browserActionBaseSchema = z.object({
+  optional: z.boolean().default(false), // A failing optional step is logged and skipped instead of failing the run
+  timeout: z.number().int().min(0).max(120000).optional(), // Milliseconds; 10 seconds when omitted
+});
+
+// One step of the interaction script run on each page before extraction
+export const browserActionSchema = z.discriminatedUnion("type", [
+  browserActionBaseSchema.extend({ type: z.literal("click"), selector: z.string().min(1) }),
+  browserActionBaseSchema.extend({ type: z.literal("fill"), selector: z.string().min(1), value: z.string() }),
+  browserActionBaseSchema.extend({ type: z.literal("select"), selector: z.string().min(1), value: z.string() }), // Option value or label
+  browserActionBaseSchema.extend({ type: z.literal("press"), key: z.string().min(1), selector: z.string().min(1).optional() }), // e.g. "Enter"
+  browserActionBaseSchema.extend({
+    type: z.literal("waitForSelector"),
+    selector: z.string().min(1),
+    state: z.enum(["visible", "attached", "hidden", "detached"]).default("visible"),
+  }),
+  browserActionBaseSchema.extend({ type: z.literal("waitForNetworkIdle") }),
+  browserActionBaseSchema.extend({ type: z.literal("wait"), ms: z.number().int().min(0).max(60000) }),
+  browserActionBaseSchema.extend({
+    type: z.literal("scroll"),
+    times: z.number().int().min(1).max(50).default(1), // One viewport height each
+    delay: z.number().int().min(0).max(10000).default(500),
+  }),
+  browserActionBaseSchema.extend({ type: z.literal("dismissCookieBanner") }),
+]);
+
+// How often a task's failing requests and whole jobs are tried; form fields may send the numbers as strings
+export const retrySettingsSchema = z.object({
+  attempts: z.coerce.number().int().min(1).max(10).default(3), // Tries per request, the first included
+  jobAttempts: z.coerce.number().int().min(1).max(10).optional(), // Whole-job tries; the queue's default when omitted
+});
+
+// How an advanced task loads its pages. Tasks that have these run on the advanced scraper, scheduled runs included
+export const renderSettingsSchema = z.object({
+  renderMode: z.enum(["static", "dynamic", "stealth"]).default("dynamic"),
+  browserType: z.enum(["chromium", "firefox", "webkit"]).default("chromium"),
+  waitForSelector: z.string().min(1).optional(),
+  scrollToBottom: z.boolean().optional(),
+});
+
+// How a task's requests are made, by the HTTP fetcher and (user agent, headers, cookies) by its browsers
+export const httpSettingsSchema = z.object({
+  userAgent: z.string().min(1).optional(), // A current desktop Chrome when omitted
+  headers: z.record(z.string(), z.string()).default({}), // Sent with every request, after the defaults
+  cookies: z.string().min(1).optional(), // Cookie header value, e.g. "region=eu; currency=EUR"
+  timeout: z.number().int().min(1000).max(300000).default(30000), // Milliseconds per request, body included
+  maxBodySize: z.number().int().min(1024).max(100 * 1024 * 1024).default(10 * 1024 * 1024), // Bytes after decompression
+});
+
+// Which of the owner's proxies a task's requests go through, and how one is picked for each request
+export const proxySettingsSchema = z.object({
+  strategy: z.enum(["round-robin", "sticky", "random"]).default("round-robin"), // Sticky keeps one proxy per domain; random favors healthy ones
+  proxyIds: z.array(z.string()).min(1).optional(), // All of the owner's enabled proxies when omitted
+});
+
+// How long fetched pages are reused before the site is asked whether they changed
+export const cachePolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  maxAge: z.number().int().min(0).max(30 * 24 * 3600).default(0), // Seconds; 0 revalidates every response with the site
+});
+
+// Progress saved after every page so a paused or interrupted run continues where it left off
+export const taskCheckpointSchema = z.object({
+  runId: z.string(),
+  jobId: z.string().optional(), // Queue job the checkpoint belongs to
+  currentPage: z.number().int().min(1),
+  frontier: z.array(z.string()), // URLs still to visit, in order
+  visited: z.array(z.string()).default([]), // Pages already scraped, to stop on pagination loops
+  lastPageHash: z.string().optional(), // Content fingerprint of the last page, to stop when a page repeats
+  scrapedCount: z.number().int().min(0).default(0),
+  pagesVisited: z.number().int().min(0).default(0),
+  errorCount: z.number().int().min(0).default(0),
+  updatedAt: z.date().default(() => new Date()),
+});
+
 export const scrapingTaskSchema = z.object({
   id: z.string().optional(),
   userId: z.string(),
   name: z.string().min(1),
   url: z.string().url(),
-  status: z.enum(["pending", "running", "completed", "failed", "paused"]).default("pending"),
+  status: z.enum(["pending", "running", "completed", "failed", "paused", "cancelled"]).default("pending"),
   progress: z.number().int().min(0).default(0),
   totalItems: z.number().int().min(0).default(0),
   scrapedItems: z.number().int().min(0).default(0),
@@ -32,6 +264,28 @@ export const scrapingTaskSchema = z.object({
   strategy: z.string().optional(),
   generatedCode: z.string().optional(),
   errorMessage: z.string().optional(),
+  schedule: taskScheduleSchema.optional(),
+  identityKey: z.string().min(1).optional(), // Data field that identifies an item across runs (defaults to "link")
+  pagination: paginationSchema.optional(),
+  detailCrawl: detailCrawlSchema.optional(),
+  seed: seedSchema.optional(),
+  extraction: extractionSchema.optional(),
+  table: tableConfigSchema.optional(),
+  apiSource: apiSourceSchema.optional(),
+  login: loginRecipeSchema.optional(),
+  actions: z.array(browserActionSchema).max(50).optional(),
+  capturedEndpoints: z.array(capturedEndpointSchema).optional(), // From the task's last dynamic run
+  structuredData: z.boolean().optional(), // Take items from JSON-LD, microdata and Open Graph on pages that have them
+  captureScreenshots: z.boolean().optional(), // Browser runs keep screenshots and the HTML of every page
+  recordTraffic: z.boolean().optional(), // Runs keep every request and response, so they can be replayed offline
+  cache: cachePolicySchema.optional(),
+  http: httpSettingsSchema.optional(),
+  proxy: proxySettingsSchema.optional(),
+  retry: retrySettingsSchema.optional(),
+  render: renderSettingsSchema.optional(),
+  robotsOverride: robotsOverrideSchema.optional(),
+  robotsAudit: z.array(robotsAuditEntrySchema).optional(),
+  checkpoint: taskCheckpointSchema.optional(),
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
@@ -39,11 +293,122 @@ export const scrapingTaskSchema = z.object({
 export const scrapedDataSchema = z.object({
   id: z.string().optional(),
   taskId: z.string(),
+  runId: z.string().optional(), // Run that produced this row
   data: z.record(z.string(), z.any()), // Flexible for various scraped data
   url: z.string().url(),
+  snapshotIds: z.array(z.string()).optional(), // Snapshots of the page and item the row was read from
   scrapedAt: z.date().default(() => new Date()),
 });
 
+// How a run's requests were answered by the HTTP cache
+export const cacheStatsSchema = z.object({
+  hits: z.number().int().min(0).default(0), // Served from the cache without asking the site
+  revalidated: z.number().int().min(0).default(0), // The site answered 304 Not Modified
+  misses: z.number().int().min(0).default(0), // Downloaded in full
+  bytesSaved: z.number().int().min(0).default(0),
+});
+
+// Requests a run made and how long they took; answers from the HTTP cache count too
+export const fetchStatsSchema = z.object({
+  requests: z.number().int().min(0).default(0),
+  bytes: z.number().int().min(0).default(0), // Decompressed body sizes
+  totalTime: z.number().min(0).default(0), // Milliseconds from request to last body byte, summed
+  slowest: z.number().min(0).default(0),
+});
+
+// A single execution of a scraping task
+export const taskRunSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string(),
+  jobId: z.string().optional(),
+  trigger: z.enum(["manual", "schedule"]).default("manual"),
+  scraper: z.enum(["static", "advanced"]).default("static"),
+  status: z.enum(["running", "paused", "completed", "failed", "cancelled"]).default("running"),
+  itemsScraped: z.number().int().min(0).default(0),
+  pagesVisited: z.number().int().min(0).default(0),
+  errorCount: z.number().int().min(0).default(0),
+  errorMessage: z.string().optional(),
+  trafficArchive: z.object({ // Requests and responses the run recorded, as a HAR file in the blob store
+    blobKey: z.string(),
+    entries: z.number().int().min(0),
+  }).optional(),
+  replayOf: z.string().optional(), // Run whose recorded traffic this run was served from
+  cacheStats: cacheStatsSchema.optional(),
+  fetchStats: fetchStatsSchema.optional(),
+  startedAt: z.date().default(() => new Date()),
+  finishedAt: z.date().optional(),
+});
+
+// Differences between a run and the previous completed run of the same task.
+// Items are referenced by their scraped data row rather than copied, to keep diffs of large runs small
+const runDiffItemSchema = z.object({
+  key: z.string(),
+  itemId: z.string(), // Row in the run that has the item: the current run for added items, the previous one for removed
+});
+
+const runDiffChangeSchema = z.object({
+  key: z.string(),
+  itemId: z.string(), // Row in the current run
+  fields: z.array(z.string()), // Data fields whose values differ
+  before: z.record(z.string(), z.any()), // Only the changed fields
+  after: z.record(z.string(), z.any()),
+});
+
+export const runDiffSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string(),
+  runId: z.string(),
+  previousRunId: z.string(),
+  identityKey: z.string().min(1),
+  added: z.array(runDiffItemSchema).default([]),
+  removed: z.array(runDiffItemSchema).default([]),
+  changed: z.array(runDiffChangeSchema).default([]),
+  unchangedCount: z.number().int().min(0).default(0),
+  createdAt: z.date().default(() => new Date()),
+});
+
+// A task's login credentials and the browser state its last login produced, encrypted with the owner's key
+export const taskSessionSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string(),
+  userId: z.string(),
+  credentials: z.string().optional(), // Encrypted username and password
+  storageState: z.string().optional(), // Encrypted cookies and local storage
+  loggedInAt: z.date().optional(),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+// A screenshot or HTML copy of a page (or of one item on it) taken during a run; the content is in the blob store
+export const snapshotSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string(),
+  runId: z.string(),
+  kind: z.enum(["page", "item", "html", "action"]), // Full-page screenshot, item screenshot, raw HTML, failed browser action
+  url: z.string().url(),
+  blobKey: z.string(),
+  contentType: z.string(),
+  size: z.number().int().min(0),
+  pageNumber: z.number().int().min(1).optional(),
+  itemIndex: z.number().int().min(0).optional(), // Position of the item on its page
+  createdAt: z.date().default(() => new Date()),
+});
+
+// A stored response to a GET request, shared by all tasks; the body is in the blob store
+export const httpCacheEntrySchema = z.object({
+  id: z.string().optional(),
+  url: z.string().url(),
+  responseUrl: z.string().url().optional(), // Where redirects led, when they led away from the URL
+  vary: z.array(z.string()).default([]), // Request headers named by the response's Vary header, lowercased
+  varyKey: z.string().default(""), // Values those headers had in the request, so variants are stored apart
+  status: z.number().int(),
+  headers: z.record(z.string(), z.string()),
+  etag: z.string().optional(),
+  lastModified: z.string().optional(),
+  blobKey: z.string(),
+  size: z.number().int().min(0),
+  storedAt: z.date().default(() => new Date()), // When the site last sent or confirmed the response
+});
+
 export const websiteAnalysisSchema = z.object({
   id: z.string().optional(),
   url: z.string().url(),
@@ -63,6 +428,27 @@ export const taskLogSchema = z.object({
   createdAt: z.date().default(() => new Date()),
 });
 
+// Persistent scraping job queue entries
+export const scrapingJobSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string(),
+  name: z.string().min(1).default("scrape-website"),
+  host: z.string().optional(), // Target hostname, used for per-domain politeness limits
+  trigger: z.enum(["manual", "schedule"]).default("manual"),
+  data: z.record(z.string(), z.any()), // Options handed to the scraper when the job runs
+  state: z.enum(["queued", "active", "paused", "completed", "failed", "cancelled"]).default("queued"),
+  attempts: z.number().int().min(0).default(0),
+  maxAttempts: z.number().int().min(1).default(3),
+  progress: z.number().int().min(0).max(100).default(0),
+  failedReason: z.string().optional(),
+  runAfter: z.date().optional(), // Retry backoff: the job is not claimed before this time
+  deadLetteredAt: z.date().optional(), // Set when the job failed permanently
+  startedAt: z.date().optional(),
+  finishedAt: z.date().optional(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
 // AI Provider API Keys Schema
 export const aiProviderKeySchema = z.object({
   id: z.string().optional(),
@@ -78,6 +464,33 @@ export const aiProviderKeySchema = z.object({
   updatedAt: z.date().default(() => new Date()),
 });
 
+// How a proxy's recent requests went; updated after every request through it
+export const proxyHealthSchema = z.object({
+  score: z.number().min(0).max(100).default(100), // Moving average of request outcomes, 100 when all recent requests succeeded
+  successes: z.number().int().min(0).default(0),
+  failures: z.number().int().min(0).default(0), // Network errors and server errors
+  bans: z.number().int().min(0).default(0), // Blocking statuses and captcha pages
+  lastUsedAt: z.date().optional(),
+  lastBannedAt: z.date().optional(),
+  cooldownUntil: z.date().optional(), // Not picked before then unless every other proxy is cooling down too
+});
+
+// A proxy server a user's tasks can send their requests through
+export const proxyServerSchema = z.object({
+  id: z.string().optional(),
+  userId: z.string(),
+  name: z.string().min(1),
+  protocol: z.enum(["http", "https", "socks5"]).default("http"),
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535),
+  username: z.string().min(1).optional(),
+  password: z.string().optional(), // Encrypted with the owner's key
+  enabled: z.boolean().default(true),
+  health: proxyHealthSchema.default({}),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
 // Database Connection Schema
 export const databaseConnectionSchema = z.object({
   id: z.string().optional(),
@@ -101,8 +514,39 @@ export const databaseConnectionSchema = z.object({
 export type User = z.infer<typeof userSchema>;
 export type ApiKey = z.infer<typeof apiKeySchema>;
 export type ScrapingTask = z.infer<typeof scrapingTaskSchema>;
+export type TaskSchedule = z.infer<typeof taskScheduleSchema>;
+export type TaskCheckpoint = z.infer<typeof taskCheckpointSchema>;
+export type PaginationConfig = z.infer<typeof paginationSchema>;
+export type DetailCrawlConfig = z.infer<typeof detailCrawlSchema>;
+export type SeedConfig = z.infer<typeof seedSchema>;
+export type ExtractionSchema = z.infer<typeof extractionSchema>;
+export type ExtractionField = z.infer<typeof extractionFieldSchema>;
+export type FieldTransform = z.infer<typeof fieldTransformSchema>;
+export type TableConfig = z.infer<typeof tableConfigSchema>;
+export type ApiSource = z.infer<typeof apiSourceSchema>;
+export type CapturedEndpoint = z.infer<typeof capturedEndpointSchema>;
+export type ItemArrayCandidate = z.infer<typeof itemArrayCandidateSchema>;
+export type LoginRecipe = z.infer<typeof loginRecipeSchema>;
+export type BrowserAction = z.infer<typeof browserActionSchema>;
+export type RobotsOverride = z.infer<typeof robotsOverrideSchema>;
+export type RobotsAuditEntry = z.infer<typeof robotsAuditEntrySchema>;
 export type ScrapedData = z.infer<typeof scrapedDataSchema>;
+export type TaskRun = z.infer<typeof taskRunSchema>;
+export type RunDiff = z.infer<typeof runDiffSchema>;
+export type TaskSession = z.infer<typeof taskSessionSchema>;
+export type Snapshot = z.infer<typeof snapshotSchema>;
+export type RetrySettings = z.infer<typeof retrySettingsSchema>;
+export type RenderSettings = z.infer<typeof renderSettingsSchema>;
+export type HttpSettings = z.infer<typeof httpSettingsSchema>;
+export type FetchStats = z.infer<typeof fetchStatsSchema>;
+export type CachePolicy = z.infer<typeof cachePolicySchema>;
+export type CacheStats = z.infer<typeof cacheStatsSchema>;
+export type HttpCacheEntry = z.infer<typeof httpCacheEntrySchema>;
 export type WebsiteAnalysis = z.infer<typeof websiteAnalysisSchema>;
 export type TaskLog = z.infer<typeof taskLogSchema>;
+export type ScrapingJob = z.infer<typeof scrapingJobSchema>;
 export type AiProviderKey = z.infer<typeof aiProviderKeySchema>;
 export type DatabaseConnection = z.infer<typeof databaseConnectionSchema>;
+export type ProxySettings = z.infer<typeof proxySettingsSchema>;
+export type ProxyHealth = z.infer<typeof proxyHealthSchema>;
+export type ProxyServer = z.infer<typeof proxyServerSchema>;